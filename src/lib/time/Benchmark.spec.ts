@@ -0,0 +1,72 @@
+import { Benchmark, BenchmarkResult } from './Benchmark';
+import { StopWatch } from './StopWatch';
+
+describe('Benchmark Tests', function () {
+  afterEach(function () {
+    jest.restoreAllMocks();
+  });
+
+  describe('running', function () {
+    it('can benchmark synchronous and asynchronous cases', async function () {
+      let syncCalls = 0;
+      let asyncCalls = 0;
+      const results = await new Benchmark({ warmupIterations: 3, targetDuration: 10, samples: 5 })
+        .add('sync', () => ++syncCalls)
+        .addAsync('async', async () => ++asyncCalls)
+        .run();
+
+      expect(results.map((result) => result.name)).toEqual(['sync', 'async']);
+      for (const result of results) {
+        expect(result.opsPerSecond).toBeGreaterThan(0);
+        expect(result.samples + result.rejected).toEqual(5);
+        expect(result.iterationsPerSample).toBeGreaterThanOrEqual(1);
+      }
+      expect(syncCalls).toBeGreaterThan(5);
+      expect(asyncCalls).toBeGreaterThan(5);
+    });
+
+    it('should reject outlying samples', async function () {
+      // Warm up, calibrate and then collect the samples
+      jest
+        .spyOn(StopWatch, 'timeSync')
+        .mockReturnValueOnce(1)
+        .mockReturnValueOnce(2)
+        .mockReturnValueOnce(4)
+        .mockReturnValueOnce(4)
+        .mockReturnValueOnce(4)
+        .mockReturnValueOnce(4)
+        .mockReturnValueOnce(40);
+
+      const [result] = await new Benchmark({ targetDuration: 10, samples: 5 }).add('case', () => undefined).run();
+      expect(result).toEqual({
+        name: 'case',
+        mean: 4,
+        opsPerSecond: 250,
+        marginOfError: 0,
+        samples: 4,
+        rejected: 1,
+        iterationsPerSample: 1,
+      });
+    });
+
+    it('should require at least two samples', function () {
+      expect(() => new Benchmark({ samples: 1 })).toThrow();
+    });
+  });
+
+  describe('reporting', function () {
+    it('can compare cases side by side', function () {
+      const result = { mean: 0, samples: 20, rejected: 0, iterationsPerSample: 1 };
+      const results: BenchmarkResult[] = [
+        { ...result, name: 'slow', opsPerSecond: 500, marginOfError: 1.5 },
+        { ...result, name: 'fastest', opsPerSecond: 1000, marginOfError: 0.25 },
+      ];
+
+      expect(Benchmark.table(results).split('\n')).toEqual([
+        'name    | ops/sec |   ±% | samples |     relative',
+        'slow    |  500.00 | 1.50 |      20 | 2.00x slower',
+        'fastest | 1000.00 | 0.25 |      20 |      fastest',
+      ]);
+    });
+  });
+});
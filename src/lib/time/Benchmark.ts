@@ -0,0 +1,283 @@
+import { StopWatch } from './StopWatch';
+
+/**
+ * The options used to configure a benchmark
+ */
+export interface BenchmarkOptions {
+  // The number of times each case is executed before measuring begins to let
+  // the runtime optimise it. Defaults to 10.
+  warmupIterations?: number;
+
+  // The number of milliseconds each case should be measured for. The number of
+  // iterations per sample is adapted so that the samples take roughly this
+  // long in total. Defaults to 1000.
+  targetDuration?: number;
+
+  // The number of samples collected for each case. Defaults to 20.
+  samples?: number;
+}
+
+/**
+ * The result of benchmarking a single case
+ */
+export interface BenchmarkResult {
+  // The name of the case
+  name: string;
+
+  // The mean number of milliseconds taken by one execution of the case
+  mean: number;
+
+  // The number of executions of the case per second
+  opsPerSecond: number;
+
+  // The margin of error of the mean at 95% confidence, as a percentage of the
+  // mean
+  marginOfError: number;
+
+  // The number of samples used after outliers were rejected
+  samples: number;
+
+  // The number of samples rejected as outliers
+  rejected: number;
+
+  // The number of iterations of the case in each sample
+  iterationsPerSample: number;
+}
+
+/**
+ * A case registered with a benchmark
+ */
+interface BenchmarkCase {
+  // The name of the case
+  name: string;
+
+  // The function to measure
+  body: () => unknown;
+
+  // Whether the function is asynchronous and must be awaited
+  async: boolean;
+}
+
+// The two-sided critical values of Student's t-distribution at 95% confidence
+// indexed by degrees of freedom. Beyond the table the normal value is used.
+const T_DISTRIBUTION_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11,
+  2.101, 2.093, 2.086, 2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+/**
+ * A micro-benchmark runner for comparing the performance of named cases, such
+ * as alternative implementations of the same operation. Each case is warmed up,
+ * then measured over a number of samples whose iteration count is adapted to
+ * reach a target duration. Outlying samples are rejected before the operations
+ * per second and margin of error are calculated.
+ *
+ * ```ts
+ * const results = await new Benchmark({ targetDuration: 500 })
+ *   .add('intersection', () => a.intersection(b))
+ *   .add('loop', () => a.toArray().filter((element) => b.has(element)))
+ *   .run();
+ * console.log(Benchmark.table(results));
+ * ```
+ */
+export class Benchmark {
+  // The cases to benchmark
+  protected cases: BenchmarkCase[] = [];
+
+  // The options with their defaults applied
+  protected readonly options: Readonly<Required<BenchmarkOptions>>;
+
+  /**
+   * Constructor
+   *
+   * @param options - the options for the benchmark
+   */
+  public constructor(options: BenchmarkOptions = {}) {
+    this.options = {
+      warmupIterations: 10,
+      targetDuration: 1000,
+      samples: 20,
+      ...options,
+    };
+
+    if (this.options.samples < 2) {
+      throw new Error(`Benchmark requires at least two samples: ${this.options.samples}`);
+    }
+  }
+
+  /**
+   * Add a synchronous case to the benchmark
+   *
+   * @param name - the name of the case
+   * @param body - the function to measure
+   * @returns this instance for chaining
+   */
+  public add(name: string, body: () => unknown): this {
+    this.cases.push({ name, body, async: false });
+    return this;
+  }
+
+  /**
+   * Add an asynchronous case to the benchmark. Each execution is awaited before
+   * the next one begins.
+   *
+   * @param name - the name of the case
+   * @param body - the function to measure
+   * @returns this instance for chaining
+   */
+  public addAsync(name: string, body: () => Promise<unknown>): this {
+    this.cases.push({ name, body, async: true });
+    return this;
+  }
+
+  /**
+   * Run each of the cases in turn
+   *
+   * @returns the result of each case in the order they were added
+   */
+  public async run(): Promise<BenchmarkResult[]> {
+    const results: BenchmarkResult[] = [];
+    for (const benchmarkCase of this.cases) {
+      results.push(await this.runCase(benchmarkCase));
+    }
+    return results;
+  }
+
+  /**
+   * Format a set of results as a table comparing the cases side by side. Each
+   * case is shown relative to the fastest one.
+   *
+   * @param results - the results to format
+   * @returns the table as a string
+   */
+  public static table(results: BenchmarkResult[]): string {
+    const fastest = Math.max(...results.map((result) => result.opsPerSecond));
+    const rows = [
+      ['name', 'ops/sec', '±%', 'samples', 'relative'],
+      ...results.map((result) => [
+        result.name,
+        result.opsPerSecond.toFixed(2),
+        result.marginOfError.toFixed(2),
+        `${result.samples}`,
+        result.opsPerSecond === fastest ? 'fastest' : `${(fastest / result.opsPerSecond).toFixed(2)}x slower`,
+      ]),
+    ];
+
+    // Pad each column to the width of its widest cell, left aligning the names
+    // and right aligning the numbers.
+    const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+    return rows
+      .map((row) =>
+        row
+          .map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])))
+          .join(' | ')
+      )
+      .join('\n');
+  }
+
+  /**
+   * Benchmark a single case
+   *
+   * @param benchmarkCase - the case to benchmark
+   * @returns the result for the case
+   */
+  protected async runCase(benchmarkCase: BenchmarkCase): Promise<BenchmarkResult> {
+    const { warmupIterations, targetDuration, samples } = this.options;
+
+    // Warm up the case and then find how many iterations are needed for each
+    // sample to take its share of the target duration.
+    await this.timeBatch(benchmarkCase, warmupIterations);
+    const iterationsPerSample = await this.calibrate(benchmarkCase, targetDuration / samples);
+
+    // Collect the time per iteration of each sample
+    const timings: number[] = [];
+    for (let sample = 0; sample < samples; ++sample) {
+      timings.push((await this.timeBatch(benchmarkCase, iterationsPerSample)) / iterationsPerSample);
+    }
+
+    const accepted = Benchmark.rejectOutliers(timings);
+    const mean = accepted.reduce((sum, timing) => sum + timing, 0) / accepted.length;
+    const variance = accepted.reduce((sum, timing) => sum + (timing - mean) ** 2, 0) / (accepted.length - 1);
+    const standardError = Math.sqrt(variance / accepted.length);
+    const critical = T_DISTRIBUTION_95[accepted.length - 2] ?? 1.96;
+
+    return {
+      name: benchmarkCase.name,
+      mean,
+      opsPerSecond: mean > 0 ? 1000 / mean : Infinity,
+      marginOfError: mean > 0 ? ((critical * standardError) / mean) * 100 : 0,
+      samples: accepted.length,
+      rejected: timings.length - accepted.length,
+      iterationsPerSample,
+    };
+  }
+
+  /**
+   * Determine the number of iterations of a case needed for a sample to take
+   * at least the given duration.
+   *
+   * @param benchmarkCase - the case to calibrate
+   * @param sampleDuration - the milliseconds a sample should take
+   * @returns the number of iterations per sample
+   */
+  protected async calibrate(benchmarkCase: BenchmarkCase, sampleDuration: number): Promise<number> {
+    let iterations = 1;
+    for (;;) {
+      const elapsed = await this.timeBatch(benchmarkCase, iterations);
+      if (elapsed >= sampleDuration) {
+        return iterations;
+      }
+
+      // Scale the iterations by how far short the batch fell, growing by at
+      // least double and at most a hundredfold to avoid overshooting on noise.
+      const scale = elapsed > 0 ? sampleDuration / elapsed : 100;
+      iterations = Math.ceil(iterations * Math.min(100, Math.max(2, scale)));
+    }
+  }
+
+  /**
+   * Time a batch of iterations of a case
+   *
+   * @param benchmarkCase - the case to time
+   * @param iterations - the number of iterations in the batch
+   * @returns the milliseconds the batch took
+   */
+  protected async timeBatch(benchmarkCase: BenchmarkCase, iterations: number): Promise<number> {
+    const { body } = benchmarkCase;
+    if (benchmarkCase.async) {
+      return StopWatch.time(async () => {
+        for (let iteration = 0; iteration < iterations; ++iteration) {
+          await body();
+        }
+      });
+    }
+
+    return StopWatch.timeSync(() => {
+      for (let iteration = 0; iteration < iterations; ++iteration) {
+        body();
+      }
+    });
+  }
+
+  /**
+   * Remove outlying timings using Tukey's fences, that is, any timing more than
+   * 1.5 times the interquartile range beyond the first or third quartile.
+   *
+   * @param timings - the timings to filter
+   * @returns the timings that are not outliers
+   */
+  protected static rejectOutliers(timings: number[]): number[] {
+    const sorted = [...timings].sort((a, b) => a - b);
+    const quartile = (fraction: number) => {
+      const position = (sorted.length - 1) * fraction;
+      const lower = Math.floor(position);
+      const upper = Math.ceil(position);
+      return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+    };
+
+    const q1 = quartile(0.25);
+    const q3 = quartile(0.75);
+    const fence = 1.5 * (q3 - q1);
+    return timings.filter((timing) => timing >= q1 - fence && timing <= q3 + fence);
+  }
+}
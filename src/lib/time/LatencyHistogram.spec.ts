@@ -0,0 +1,119 @@
+import { LatencyHistogram } from './LatencyHistogram';
+
+describe('LatencyHistogram Tests', function () {
+  function recordRange(histogram: LatencyHistogram, from: number, to: number) {
+    for (let value = from; value <= to; ++value) {
+      histogram.record(value);
+    }
+  }
+
+  describe('constructor', function () {
+    it('should reject invalid options', function () {
+      expect(() => new LatencyHistogram({ significantDigits: 0 })).toThrow();
+      expect(() => new LatencyHistogram({ significantDigits: 6 })).toThrow();
+      expect(() => new LatencyHistogram({ lowestDiscernibleValue: 0 })).toThrow();
+      expect(() => new LatencyHistogram({ lowestDiscernibleValue: 10, highestTrackableValue: 10 })).toThrow();
+    });
+  });
+
+  describe('statistics', function () {
+    it('should report zeroes when empty', function () {
+      const histogram = new LatencyHistogram();
+      expect(histogram.snapshot()).toEqual({
+        count: 0,
+        min: 0,
+        max: 0,
+        mean: 0,
+        stddev: 0,
+        percentiles: { p50: 0, p90: 0, p99: 0, 'p99.9': 0 },
+      });
+    });
+
+    it('should compute exact summary statistics', function () {
+      const histogram = new LatencyHistogram();
+      [2, 4, 4, 4, 5, 5, 7, 9].forEach((value) => histogram.record(value));
+
+      expect(histogram.count()).toEqual(8);
+      expect(histogram.min()).toEqual(2);
+      expect(histogram.max()).toEqual(9);
+      expect(histogram.mean()).toEqual(5);
+      expect(histogram.stddev()).toEqual(2);
+    });
+
+    it('should compute percentiles within the configured precision', function () {
+      const histogram = new LatencyHistogram({ significantDigits: 2 });
+      recordRange(histogram, 1, 10000);
+
+      for (const percentile of [1, 50, 90, 99, 99.9]) {
+        const expected = percentile * 100;
+        expect(Math.abs(histogram.percentile(percentile) - expected) / expected).toBeLessThan(0.01);
+      }
+      expect(histogram.percentile(0)).toBeCloseTo(1, 1);
+      expect(histogram.percentile(100)).toEqual(10000);
+    });
+
+    it('should clamp samples beyond the trackable range', function () {
+      const histogram = new LatencyHistogram({ highestTrackableValue: 100 });
+      histogram.record(1).record(5000);
+
+      expect(histogram.max()).toEqual(5000);
+      expect(histogram.percentile(100)).toBeLessThanOrEqual(5000);
+      expect(histogram.percentile(100)).toBeGreaterThanOrEqual(99);
+    });
+
+    it('should reject invalid samples and percentiles', function () {
+      const histogram = new LatencyHistogram();
+      expect(() => histogram.record(-1)).toThrow();
+      expect(() => histogram.record(NaN)).toThrow();
+      expect(() => histogram.percentile(101)).toThrow();
+    });
+  });
+
+  describe('timing', function () {
+    it('can record the latency of functions', async function () {
+      const histogram = new LatencyHistogram();
+      await histogram.time(async () => undefined);
+      histogram.timeSync(() => undefined);
+
+      expect(histogram.count()).toEqual(2);
+    });
+  });
+
+  describe('snapshots', function () {
+    it('can include arbitrary percentiles', function () {
+      const histogram = new LatencyHistogram();
+      recordRange(histogram, 1, 100);
+
+      const snapshot = histogram.snapshot([25, 75]);
+      expect(Object.keys(snapshot.percentiles)).toEqual(['p25', 'p75']);
+      expect(histogram.count()).toEqual(100);
+    });
+
+    it('can reset the histogram when a snapshot is taken', function () {
+      const histogram = new LatencyHistogram({ resetOnSnapshot: true });
+      recordRange(histogram, 1, 100);
+
+      expect(histogram.snapshot().count).toEqual(100);
+      expect(histogram.snapshot().count).toEqual(0);
+    });
+  });
+
+  describe('merging', function () {
+    it('can merge histograms', function () {
+      const first = new LatencyHistogram();
+      const second = new LatencyHistogram();
+      const combined = new LatencyHistogram();
+      recordRange(first, 1, 500);
+      recordRange(second, 501, 1000);
+      recordRange(combined, 1, 1000);
+
+      expect(first.merge(second).snapshot()).toEqual(combined.snapshot());
+    });
+
+    it('should reject merging incompatible histograms', function () {
+      const first = new LatencyHistogram({ significantDigits: 2 });
+      const second = new LatencyHistogram({ significantDigits: 3 });
+      expect(() => first.merge(second)).toThrow();
+    });
+  });
+});
@@ -0,0 +1,386 @@
+import { StopWatch } from './StopWatch';
+
+/**
+ * The options used to configure a latency histogram
+ */
+export interface LatencyHistogramOptions {
+  // The smallest latency in milliseconds that can be distinguished from zero.
+  // Defaults to 0.001ms, that is, one microsecond.
+  lowestDiscernibleValue?: number;
+
+  // The largest latency in milliseconds that can be tracked. Larger samples
+  // are clamped to this value when bucketed. Defaults to one hour.
+  highestTrackableValue?: number;
+
+  // The number of significant decimal digits to which samples are resolved,
+  // between 1 and 5. Defaults to 2.
+  significantDigits?: number;
+
+  // Whether taking a snapshot also resets the histogram. Defaults to false.
+  resetOnSnapshot?: boolean;
+}
+
+/**
+ * A snapshot of the statistics collected by a latency histogram. All values
+ * are in milliseconds.
+ */
+export interface LatencySnapshot {
+  // The number of samples recorded
+  count: number;
+
+  // The smallest sample recorded
+  min: number;
+
+  // The largest sample recorded
+  max: number;
+
+  // The mean of the samples
+  mean: number;
+
+  // The population standard deviation of the samples
+  stddev: number;
+
+  // The requested percentiles keyed on their name, such as `p99.9`
+  percentiles: Record<string, number>;
+}
+
+/**
+ * A histogram of latencies that uses log-linear buckets in the style of an HDR
+ * histogram. Each power of two range of values is divided into the same number
+ * of linear sub-buckets, so every sample is resolved to within a fixed number
+ * of significant digits while memory use stays bounded regardless of the
+ * number of samples recorded.
+ *
+ * The count, minimum, maximum, mean and standard deviation are exact. The
+ * percentiles are accurate to the configured number of significant digits.
+ */
+export class LatencyHistogram {
+  // The percentiles included in a snapshot when none are requested
+  public static readonly DEFAULT_PERCENTILES = [50, 90, 99, 99.9];
+
+  // The number of samples in each bucket
+  protected counts: Float64Array;
+
+  // The number of samples recorded
+  protected total = 0;
+
+  // The smallest sample recorded
+  protected minValue = Infinity;
+
+  // The largest sample recorded
+  protected maxValue = -Infinity;
+
+  // The sum of the samples recorded
+  protected sum = 0;
+
+  // The sum of the squares of the samples recorded
+  protected sumOfSquares = 0;
+
+  // The options for the histogram with their defaults applied
+  protected readonly options: Readonly<Required<LatencyHistogramOptions>>;
+
+  // The number of linear sub-buckets in each power of two range
+  protected readonly subBucketCount: number;
+
+  // Half the number of sub-buckets, which is the number of new buckets added by
+  // each power of two range after the first
+  protected readonly subBucketHalfCount: number;
+
+  /**
+   * Constructor
+   *
+   * @param options - the options for the histogram
+   */
+  public constructor(options: LatencyHistogramOptions = {}) {
+    this.options = {
+      lowestDiscernibleValue: 0.001,
+      highestTrackableValue: 3600000,
+      significantDigits: 2,
+      resetOnSnapshot: false,
+      ...options,
+    };
+
+    const { lowestDiscernibleValue, highestTrackableValue, significantDigits } = this.options;
+    if (!Number.isInteger(significantDigits) || significantDigits < 1 || significantDigits > 5) {
+      throw new Error(`Invalid number of significant digits for histogram: ${significantDigits}`);
+    }
+    if (lowestDiscernibleValue <= 0 || highestTrackableValue < 2 * lowestDiscernibleValue) {
+      throw new Error(`Invalid range for histogram: ${lowestDiscernibleValue} to ${highestTrackableValue}`);
+    }
+
+    // Use enough sub-buckets that the width of a bucket is never more than the
+    // required precision of the values it holds.
+    this.subBucketCount = Math.pow(2, Math.ceil(Math.log2(2 * Math.pow(10, significantDigits))));
+    this.subBucketHalfCount = this.subBucketCount / 2;
+    this.counts = new Float64Array(this.bucketIndex(this.toUnits(highestTrackableValue)) + 1);
+  }
+
+  /**
+   * Record a latency sample
+   *
+   * @param value - the latency in milliseconds
+   * @returns this instance for chaining
+   * @throws Error if the value is negative or not a number
+   */
+  public record(value: number): this {
+    if (!(value >= 0)) {
+      throw new Error(`Invalid latency for histogram: ${value}`);
+    }
+
+    const units = Math.min(this.toUnits(value), this.toUnits(this.options.highestTrackableValue));
+    ++this.counts[this.bucketIndex(units)];
+    ++this.total;
+    this.minValue = Math.min(this.minValue, value);
+    this.maxValue = Math.max(this.maxValue, value);
+    this.sum += value;
+    this.sumOfSquares += value * value;
+    return this;
+  }
+
+  /**
+   * Time the execution of a given asynchronous function and record its latency
+   *
+   * @typeParam FuncType - the type of function
+   * @param body - the function to execute
+   * @returns the milliseconds the execution of the function took
+   */
+  public async time<FuncType extends (...args: any) => any>(
+    body: FuncType,
+    ...args: Parameters<FuncType>
+  ): Promise<number> {
+    const elapsed = await StopWatch.time(body, ...args);
+    this.record(elapsed);
+    return elapsed;
+  }
+
+  /**
+   * Time the execution of a given synchronous function and record its latency
+   *
+   * @typeParam FuncType - the type of function
+   * @param body - the function to execute
+   * @returns the milliseconds the execution of the function took
+   */
+  public timeSync<FuncType extends (...args: any) => any>(body: FuncType, ...args: Parameters<FuncType>): number {
+    const elapsed = StopWatch.timeSync(body, ...args);
+    this.record(elapsed);
+    return elapsed;
+  }
+
+  /**
+   * Get the number of samples recorded
+   *
+   * @returns the number of samples
+   */
+  public count(): number {
+    return this.total;
+  }
+
+  /**
+   * Get the smallest sample recorded
+   *
+   * @returns the smallest sample or zero if none have been recorded
+   */
+  public min(): number {
+    return this.total > 0 ? this.minValue : 0;
+  }
+
+  /**
+   * Get the largest sample recorded
+   *
+   * @returns the largest sample or zero if none have been recorded
+   */
+  public max(): number {
+    return this.total > 0 ? this.maxValue : 0;
+  }
+
+  /**
+   * Get the mean of the samples recorded
+   *
+   * @returns the mean or zero if no samples have been recorded
+   */
+  public mean(): number {
+    return this.total > 0 ? this.sum / this.total : 0;
+  }
+
+  /**
+   * Get the population standard deviation of the samples recorded
+   *
+   * @returns the standard deviation or zero if no samples have been recorded
+   */
+  public stddev(): number {
+    if (this.total < 1) {
+      return 0;
+    }
+
+    // Guard against rounding errors taking the variance below zero
+    const mean = this.mean();
+    return Math.sqrt(Math.max(0, this.sumOfSquares / this.total - mean * mean));
+  }
+
+  /**
+   * Get the value at a given percentile, that is, the value that the given
+   * percentage of samples are less than or equal to.
+   *
+   * @param percentile - the percentile between 0 and 100
+   * @returns the value at the percentile or zero if no samples have been
+   * recorded
+   * @throws Error if the percentile is out of range
+   */
+  public percentile(percentile: number): number {
+    if (!(percentile >= 0 && percentile <= 100)) {
+      throw new Error(`Invalid percentile: ${percentile}`);
+    }
+    if (this.total < 1) {
+      return 0;
+    }
+
+    // Find the bucket containing the required sample and report the highest
+    // value it can hold, restricted to the range of values actually seen.
+    const required = Math.max(1, Math.ceil((percentile / 100) * this.total));
+    let seen = 0;
+    for (let index = 0; index < this.counts.length; ++index) {
+      seen += this.counts[index];
+      if (seen >= required) {
+        const highest = this.fromUnits(this.bucketUpperBound(index));
+        return Math.min(Math.max(highest, this.minValue), this.maxValue);
+      }
+    }
+    return this.maxValue;
+  }
+
+  /**
+   * Take a snapshot of the statistics collected so far. If the histogram was
+   * configured to reset on snapshot, it is reset once the snapshot is taken.
+   *
+   * @param percentiles - the percentiles to include in the snapshot
+   * @returns the snapshot
+   */
+  public snapshot(percentiles: number[] = LatencyHistogram.DEFAULT_PERCENTILES): LatencySnapshot {
+    const snapshot: LatencySnapshot = {
+      count: this.count(),
+      min: this.min(),
+      max: this.max(),
+      mean: this.mean(),
+      stddev: this.stddev(),
+      percentiles: {},
+    };
+    for (const percentile of percentiles) {
+      snapshot.percentiles[`p${percentile}`] = this.percentile(percentile);
+    }
+
+    this.options.resetOnSnapshot && this.reset();
+    return snapshot;
+  }
+
+  /**
+   * Merge the samples recorded by another histogram into this one, such as
+   * when combining the histograms collected by several workers. Both
+   * histograms must have been created with the same range and precision.
+   *
+   * @param other - the other histogram
+   * @returns this instance for chaining
+   * @throws Error if the histograms are not compatible
+   */
+  public merge(other: LatencyHistogram): this {
+    const { lowestDiscernibleValue, highestTrackableValue, significantDigits } = this.options;
+    if (
+      other.options.lowestDiscernibleValue !== lowestDiscernibleValue ||
+      other.options.highestTrackableValue !== highestTrackableValue ||
+      other.options.significantDigits !== significantDigits
+    ) {
+      throw new Error('Cannot merge histograms with different ranges or precision');
+    }
+
+    for (let index = 0; index < this.counts.length; ++index) {
+      this.counts[index] += other.counts[index];
+    }
+    this.total += other.total;
+    this.minValue = Math.min(this.minValue, other.minValue);
+    this.maxValue = Math.max(this.maxValue, other.maxValue);
+    this.sum += other.sum;
+    this.sumOfSquares += other.sumOfSquares;
+    return this;
+  }
+
+  /**
+   * Discard all samples recorded so far
+   *
+   * @returns this instance for chaining
+   */
+  public reset(): this {
+    this.counts.fill(0);
+    this.total = 0;
+    this.minValue = Infinity;
+    this.maxValue = -Infinity;
+    this.sum = 0;
+    this.sumOfSquares = 0;
+    return this;
+  }
+
+  /**
+   * Convert a value in milliseconds into the integral units of the histogram
+   *
+   * @param value - the value in milliseconds
+   * @returns the value in units
+   */
+  protected toUnits(value: number): number {
+    return Math.floor(value / this.options.lowestDiscernibleValue);
+  }
+
+  /**
+   * Convert a value in the integral units of the histogram into milliseconds
+   *
+   * @param units - the value in units
+   * @returns the value in milliseconds
+   */
+  protected fromUnits(units: number): number {
+    return units * this.options.lowestDiscernibleValue;
+  }
+
+  /**
+   * Determine the index of the bucket holding a given value. Values below the
+   * sub-bucket count each have their own bucket. Above that, each power of two
+   * range is split into half as many buckets, each of which is twice as wide
+   * as those in the range below it.
+   *
+   * @param units - the value in units
+   * @returns the index of the bucket
+   */
+  protected bucketIndex(units: number): number {
+    if (units < this.subBucketCount) {
+      return units;
+    }
+
+    const shift = this.shiftOf(units);
+    const subBucket = Math.floor(units / Math.pow(2, shift));
+    return this.subBucketCount + (shift - 1) * this.subBucketHalfCount + (subBucket - this.subBucketHalfCount);
+  }
+
+  /**
+   * Determine the largest value that is held by a given bucket
+   *
+   * @param index - the index of the bucket
+   * @returns the largest value in units
+   */
+  protected bucketUpperBound(index: number): number {
+    if (index < this.subBucketCount) {
+      return index;
+    }
+
+    const shift = Math.floor((index - this.subBucketCount) / this.subBucketHalfCount) + 1;
+    const subBucket = ((index - this.subBucketCount) % this.subBucketHalfCount) + this.subBucketHalfCount;
+    return (subBucket + 1) * Math.pow(2, shift) - 1;
+  }
+
+  /**
+   * Determine the power of two by which a value must be divided to bring it
+   * into the range of the sub-buckets.
+   *
+   * @param units - the value in units, which must be at least the sub-bucket
+   * count
+   * @returns the power of two
+   */
+  protected shiftOf(units: number): number {
+    return Math.floor(Math.log2(units)) - Math.log2(this.subBucketHalfCount);
+  }
+}
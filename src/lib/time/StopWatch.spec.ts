@@ -0,0 +1,165 @@
+import { StopWatch } from './StopWatch';
+import { TimedError } from './TimedError';
+
+describe('StopWatch Tests', function () {
+  // The current time in nanoseconds as reported by the mocked clock
+  let now: bigint;
+
+  function advance(milliseconds: number) {
+    now += BigInt(milliseconds * 1000000);
+  }
+
+  beforeEach(function () {
+    now = BigInt(0);
+    jest.spyOn(process.hrtime, 'bigint').mockImplementation(() => now);
+  });
+
+  afterEach(function () {
+    jest.restoreAllMocks();
+  });
+
+  describe('static timing', function () {
+    it('can time an asynchronous function', async function () {
+      const elapsed = await StopWatch.time(async (ms: number) => advance(ms), 25);
+      expect(elapsed).toEqual(25);
+    });
+
+    it('can time a synchronous function', function () {
+      const elapsed = StopWatch.timeSync((ms: number) => advance(ms), 25);
+      expect(elapsed).toEqual(25);
+    });
+  });
+
+  describe('measuring', function () {
+    it('can measure an asynchronous function', async function () {
+      const measurement = await StopWatch.measure(async (ms: number) => {
+        advance(ms);
+        return 'done';
+      }, 25);
+      expect(measurement).toEqual({ result: 'done', elapsedMs: 25 });
+    });
+
+    it('can measure a synchronous function', function () {
+      const measurement = StopWatch.measureSync(
+        (a: number, b: number) => {
+          advance(a + b);
+          return a * b;
+        },
+        2,
+        3
+      );
+      expect(measurement).toEqual({ result: 6, elapsedMs: 5 });
+    });
+
+    it('should record the elapsed time when an asynchronous function throws', async function () {
+      const cause = new Error('failed');
+      const promise = StopWatch.measure(async () => {
+        advance(10);
+        throw cause;
+      });
+
+      await expect(promise).rejects.toBeInstanceOf(TimedError);
+      await expect(promise).rejects.toMatchObject({ cause, elapsedMs: 10, message: 'failed' });
+    });
+
+    it('should record the elapsed time when a synchronous function throws', function () {
+      let error: unknown;
+      try {
+        StopWatch.measureSync(() => {
+          advance(10);
+          throw 'failed';
+        });
+      } catch (err) {
+        error = err;
+      }
+
+      expect(error).toBeInstanceOf(TimedError);
+      expect(error).toMatchObject({ cause: 'failed', elapsedMs: 10, message: 'failed' });
+    });
+  });
+
+  describe('running timer', function () {
+    it('can report the elapsed time in different units', function () {
+      const watch = new StopWatch().start();
+      advance(1.5);
+
+      expect(watch.running()).toEqual(true);
+      expect(watch.elapsed()).toEqual(1.5);
+      expect(watch.elapsed('us')).toEqual(1500);
+      expect(watch.elapsed('ns')).toEqual(1500000);
+    });
+
+    it('should not count time spent paused', function () {
+      const watch = new StopWatch().start();
+      advance(10);
+      watch.pause();
+      expect(watch.running()).toEqual(false);
+
+      advance(100);
+      expect(watch.elapsed()).toEqual(10);
+
+      watch.resume();
+      advance(5);
+      expect(watch.stop().elapsed()).toEqual(15);
+
+      advance(100);
+      expect(watch.elapsed()).toEqual(15);
+    });
+
+    it('should reset when started again', function () {
+      const watch = new StopWatch().start();
+      advance(10);
+      watch.lap('first');
+
+      watch.start();
+      advance(3);
+      expect(watch.elapsed()).toEqual(3);
+      expect(watch.report().laps).toEqual([]);
+    });
+
+    it('should require the watch to be started', function () {
+      const watch = new StopWatch();
+      expect(watch.elapsed()).toEqual(0);
+      expect(() => watch.lap('first')).toThrow();
+      expect(() => watch.split()).toThrow();
+      expect(() => watch.resume()).toThrow();
+    });
+  });
+
+  describe('laps', function () {
+    it('can record laps and splits', function () {
+      const watch = new StopWatch().start();
+      advance(10);
+      expect(watch.split()).toEqual(10);
+      advance(10);
+      expect(watch.lap('parse')).toEqual(20);
+
+      advance(20);
+      watch.pause();
+      advance(50);
+      watch.resume();
+      advance(40);
+      expect(watch.split('us')).toEqual(60000);
+      expect(watch.lap('handle')).toEqual(60);
+    });
+
+    it('can report the share of each lap', function () {
+      const watch = new StopWatch().start();
+      advance(25);
+      watch.lap('parse');
+      advance(75);
+      watch.lap('handle');
+      watch.stop();
+
+      expect(watch.report()).toEqual({
+        unit: 'ms',
+        elapsed: 100,
+        laps: [
+          { label: 'parse', elapsed: 25, share: 0.25 },
+          { label: 'handle', elapsed: 75, share: 0.75 },
+        ],
+      });
+      expect(watch.toString()).toEqual('parse: 25.000ms (25.0%)\nhandle: 75.000ms (75.0%)\ntotal: 100.000ms');
+    });
+  });
+});
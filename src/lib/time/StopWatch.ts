@@ -1,7 +1,89 @@
+import { TimedError } from './TimedError';
+
+/**
+ * The units in which elapsed times can be reported
+ */
+export type TimeUnit = 'ms' | 'us' | 'ns';
+
+// The number of nanoseconds in each unit of time
+const NANOSECONDS_PER_UNIT: Record<TimeUnit, number> = {
+  ms: 1000000.0,
+  us: 1000.0,
+  ns: 1.0,
+};
+
+/**
+ * The result of measuring the execution of a function
+ *
+ * @typeParam Result - the type of value returned by the function
+ */
+export interface Measurement<Result> {
+  // The value returned by the function
+  result: Result;
+
+  // The milliseconds the execution of the function took
+  elapsedMs: number;
+}
+
+/**
+ * A labelled lap recorded by a stop watch
+ */
+export interface StopWatchLap {
+  // The label given to the lap
+  label: string;
+
+  // The time taken by the lap
+  elapsed: number;
+
+  // The fraction of the total elapsed time taken by the lap
+  share: number;
+}
+
+/**
+ * A report of the laps recorded by a stop watch
+ */
+export interface StopWatchReport {
+  // The unit in which the times are reported
+  unit: TimeUnit;
+
+  // The total elapsed time of the stop watch
+  elapsed: number;
+
+  // The laps recorded, in the order they were recorded
+  laps: StopWatchLap[];
+}
+
 /**
- * A simple static class for timing the execution of functions
+ * A stop watch for timing the execution of code. The static methods time the
+ * execution of a single function while an instance can be used to time a
+ * sequence of labelled laps, such as the phases of handling a request.
+ *
+ * ```ts
+ * const watch = new StopWatch().start();
+ * await parseRequest();
+ * watch.lap('parse');
+ * await handleRequest();
+ * watch.lap('handle');
+ * console.log(watch.stop().toString());
+ * ```
  */
 export class StopWatch {
+  // The time the current run started or undefined if the watch is not running
+  private runStartTime?: bigint;
+
+  // The nanoseconds accumulated by previous runs, that is, before the watch was
+  // last paused
+  private accumulated = BigInt(0);
+
+  // The elapsed nanoseconds at which the current lap started
+  private lapStart = BigInt(0);
+
+  // The laps recorded so far and their elapsed nanoseconds
+  private laps: { label: string; elapsed: bigint }[] = [];
+
+  // Whether the watch has been started
+  private started = false;
+
   /**
    * Determine the number of milliseconds taken to execute a given asynchronous
    * function.
@@ -43,4 +125,230 @@ export class StopWatch {
     // milliseconds.
     return Number(endTime - startTime) / 1000000.0;
   }
+
+  /**
+   * Execute a given asynchronous function, returning both its result and the
+   * number of milliseconds it took. If the function throws, the error is
+   * wrapped in a {@link TimedError} that records how long it ran for.
+   *
+   * @typeParam Result - the type of value returned by the function
+   * @typeParam Args - the types of the arguments to the function
+   * @param body - the function to execute
+   * @returns the result of the function and the milliseconds it took
+   * @throws TimedError if the function throws
+   */
+  public static async measure<Result, Args extends any[]>(
+    body: (...args: Args) => Result | Promise<Result>,
+    ...args: Args
+  ): Promise<Measurement<Result>> {
+    const startTime = process.hrtime.bigint();
+    try {
+      const result = await body(...args);
+      return { result, elapsedMs: StopWatch.elapsedSince(startTime) };
+    } catch (err) {
+      throw new TimedError(err, StopWatch.elapsedSince(startTime));
+    }
+  }
+
+  /**
+   * Execute a given synchronous function, returning both its result and the
+   * number of milliseconds it took. If the function throws, the error is
+   * wrapped in a {@link TimedError} that records how long it ran for.
+   *
+   * @typeParam Result - the type of value returned by the function
+   * @typeParam Args - the types of the arguments to the function
+   * @param body - the function to execute
+   * @returns the result of the function and the milliseconds it took
+   * @throws TimedError if the function throws
+   */
+  public static measureSync<Result, Args extends any[]>(
+    body: (...args: Args) => Result,
+    ...args: Args
+  ): Measurement<Result> {
+    const startTime = process.hrtime.bigint();
+    try {
+      const result = body(...args);
+      return { result, elapsedMs: StopWatch.elapsedSince(startTime) };
+    } catch (err) {
+      throw new TimedError(err, StopWatch.elapsedSince(startTime));
+    }
+  }
+
+  /**
+   * Determine the number of milliseconds that have elapsed since a given time
+   *
+   * @param startTime - the start time in nanoseconds
+   * @returns the elapsed milliseconds
+   */
+  private static elapsedSince(startTime: bigint): number {
+    return StopWatch.convert(process.hrtime.bigint() - startTime, 'ms');
+  }
+
+  /**
+   * Convert a number of nanoseconds into the given unit
+   *
+   * @param nanoseconds - the nanoseconds to convert
+   * @param unit - the unit to convert to
+   * @returns the time in the requested unit
+   */
+  private static convert(nanoseconds: bigint, unit: TimeUnit): number {
+    return Number(nanoseconds) / NANOSECONDS_PER_UNIT[unit];
+  }
+
+  /**
+   * Determine if the watch is currently running
+   *
+   * @returns true if the watch is running
+   */
+  public running(): boolean {
+    return this.runStartTime !== undefined;
+  }
+
+  /**
+   * Start the watch, discarding any previously recorded time and laps
+   *
+   * @returns this instance for chaining
+   */
+  public start(): this {
+    this.accumulated = BigInt(0);
+    this.lapStart = BigInt(0);
+    this.laps = [];
+    this.started = true;
+    this.runStartTime = process.hrtime.bigint();
+    return this;
+  }
+
+  /**
+   * Pause the watch. Time spent paused is not included in the elapsed time of
+   * the watch or its laps. Pausing a watch that is not running has no effect.
+   *
+   * @returns this instance for chaining
+   */
+  public pause(): this {
+    if (this.runStartTime !== undefined) {
+      this.accumulated += process.hrtime.bigint() - this.runStartTime;
+      this.runStartTime = undefined;
+    }
+    return this;
+  }
+
+  /**
+   * Resume a paused watch. Resuming a watch that is running has no effect.
+   *
+   * @returns this instance for chaining
+   * @throws Error if the watch has not been started
+   */
+  public resume(): this {
+    this.assertStarted();
+    if (this.runStartTime === undefined) {
+      this.runStartTime = process.hrtime.bigint();
+    }
+    return this;
+  }
+
+  /**
+   * Stop the watch. The elapsed time and laps remain available until the watch
+   * is started again.
+   *
+   * @returns this instance for chaining
+   */
+  public stop(): this {
+    return this.pause();
+  }
+
+  /**
+   * Get the total time the watch has been running
+   *
+   * @param unit - the unit to report the time in
+   * @returns the elapsed time
+   */
+  public elapsed(unit: TimeUnit = 'ms'): number {
+    return StopWatch.convert(this.elapsedNanoseconds(), unit);
+  }
+
+  /**
+   * Get the time taken by the current lap so far without ending it
+   *
+   * @param unit - the unit to report the time in
+   * @returns the elapsed time of the current lap
+   * @throws Error if the watch has not been started
+   */
+  public split(unit: TimeUnit = 'ms'): number {
+    this.assertStarted();
+    return StopWatch.convert(this.elapsedNanoseconds() - this.lapStart, unit);
+  }
+
+  /**
+   * End the current lap, recording it against the given label, and start the
+   * next one.
+   *
+   * @param label - the label for the lap
+   * @param unit - the unit to report the time in
+   * @returns the elapsed time of the lap
+   * @throws Error if the watch has not been started
+   */
+  public lap(label: string, unit: TimeUnit = 'ms'): number {
+    this.assertStarted();
+    const now = this.elapsedNanoseconds();
+    const elapsed = now - this.lapStart;
+    this.laps.push({ label, elapsed });
+    this.lapStart = now;
+    return StopWatch.convert(elapsed, unit);
+  }
+
+  /**
+   * Create a report of the laps recorded so far and their share of the total
+   * elapsed time.
+   *
+   * @param unit - the unit to report the times in
+   * @returns the report
+   */
+  public report(unit: TimeUnit = 'ms'): StopWatchReport {
+    const total = this.elapsedNanoseconds();
+    return {
+      unit,
+      elapsed: StopWatch.convert(total, unit),
+      laps: this.laps.map(({ label, elapsed }) => ({
+        label,
+        elapsed: StopWatch.convert(elapsed, unit),
+        share: total > 0 ? Number(elapsed) / Number(total) : 0,
+      })),
+    };
+  }
+
+  /**
+   * Convert the laps recorded so far into a human-readable report with one
+   * line per lap followed by the total.
+   *
+   * @returns the report as a string
+   */
+  public toString(): string {
+    const { unit, elapsed, laps } = this.report();
+    const lines = laps.map(
+      (lap) => `${lap.label}: ${lap.elapsed.toFixed(3)}${unit} (${(lap.share * 100).toFixed(1)}%)`
+    );
+    lines.push(`total: ${elapsed.toFixed(3)}${unit}`);
+    return lines.join('\n');
+  }
+
+  /**
+   * Get the total number of nanoseconds the watch has been running
+   *
+   * @returns the elapsed nanoseconds
+   */
+  private elapsedNanoseconds(): bigint {
+    const current = this.runStartTime === undefined ? BigInt(0) : process.hrtime.bigint() - this.runStartTime;
+    return this.accumulated + current;
+  }
+
+  /**
+   * Make sure the watch has been started
+   *
+   * @throws Error if the watch has not been started
+   */
+  private assertStarted() {
+    if (!this.started) {
+      throw new Error('StopWatch has not been started');
+    }
+  }
 }
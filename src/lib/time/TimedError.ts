@@ -0,0 +1,16 @@
+/**
+ * An error wrapping one thrown by a timed function, recording how long the
+ * function ran for before it threw.
+ */
+export class TimedError extends Error {
+  /**
+   * Constructor
+   *
+   * @param cause - the error thrown by the timed function
+   * @param elapsedMs - the milliseconds the function ran for before throwing
+   */
+  public constructor(public readonly cause: unknown, public readonly elapsedMs: number) {
+    super(cause instanceof Error ? cause.message : String(cause));
+    this.name = 'TimedError';
+  }
+}
@@ -1 +1,4 @@
+export * from './Benchmark';
+export * from './LatencyHistogram';
 export * from './StopWatch';
+export * from './TimedError';
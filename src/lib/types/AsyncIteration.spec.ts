@@ -0,0 +1,99 @@
+import { AsyncIteration } from './AsyncIteration';
+
+describe('AsyncIteration Tests', function () {
+  async function* generate(count: number, log: string[] = []): AsyncGenerator<number> {
+    try {
+      for (let value = 0; value < count; ++value) {
+        log.push(`pull ${value}`);
+        yield value;
+      }
+    } finally {
+      log.push('closed');
+    }
+  }
+
+  function delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  describe('forEach', function () {
+    it('can process items one at a time by default', async function () {
+      const log: string[] = [];
+      await AsyncIteration.forEach(generate(2, log), async (value, position) => {
+        log.push(`start ${value}@${position}`);
+        await delay(1);
+        log.push(`end ${value}`);
+      });
+      expect(log).toEqual(['pull 0', 'start 0@0', 'end 0', 'pull 1', 'start 1@1', 'end 1', 'closed']);
+    });
+
+    it('can accept synchronous iterables', async function () {
+      const seen: number[] = [];
+      await AsyncIteration.forEach(new Set([1, 2, 3]), (value) => seen.push(value));
+      expect(seen).toEqual([1, 2, 3]);
+    });
+
+    it('should not exceed the concurrency', async function () {
+      let active = 0;
+      let maxActive = 0;
+      await AsyncIteration.forEach(
+        generate(10),
+        async (value) => {
+          maxActive = Math.max(maxActive, ++active);
+          await delay(value % 3);
+          --active;
+        },
+        { concurrency: 3 }
+      );
+      expect(maxActive).toEqual(3);
+      expect(active).toEqual(0);
+    });
+
+    it('should stop pulling items and close the collection on failure', async function () {
+      const log: string[] = [];
+      const finished: number[] = [];
+      const promise = AsyncIteration.forEach(
+        generate(100, log),
+        async (value) => {
+          await delay(value === 1 ? 0 : 5);
+          if (value === 1) {
+            throw new Error('oops');
+          }
+          finished.push(value);
+        },
+        { concurrency: 2 }
+      );
+
+      await expect(promise).rejects.toThrow('oops');
+      expect(log).toEqual(['pull 0', 'pull 1', 'closed']);
+      expect(finished).toEqual([0]);
+    });
+
+    it('should reject a concurrency less than one', async function () {
+      await expect(AsyncIteration.forEach([1], () => undefined, { concurrency: 0 })).rejects.toThrow(
+        'Concurrency must be at least 1: 0'
+      );
+    });
+  });
+
+  describe('map', function () {
+    it('can keep the results in order', async function () {
+      const results = await AsyncIteration.map(
+        generate(5),
+        async (value) => {
+          await delay(5 - value);
+          return value * 10;
+        },
+        { concurrency: 5 }
+      );
+      expect(results).toEqual([0, 10, 20, 30, 40]);
+    });
+  });
+
+  describe('toArray', function () {
+    it('can collect the items', async function () {
+      expect(await AsyncIteration.toArray(generate(3))).toEqual([0, 1, 2]);
+      expect(await AsyncIteration.toArray([])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * A collection that can be iterated asynchronously. Synchronous iterables are
+ * accepted wherever an asynchronous one is so that callers need not
+ * distinguish between the two.
+ *
+ * @typeParam T - the type of items in the collection
+ */
+export type AnyIterable<T> = AsyncIterable<T> | Iterable<T>;
+
+/**
+ * The options for iterating asynchronously
+ */
+export interface AsyncIterationOptions {
+  // The maximum number of items being processed at the same time
+  concurrency?: number;
+}
+
+// The default options for iterating asynchronously
+const DEFAULT_OPTIONS: Readonly<Required<AsyncIterationOptions>> = {
+  concurrency: 1,
+};
+
+/**
+ * Helpers for processing the items of asynchronous iterables, such as database
+ * cursors and streams, without first buffering them into an array.
+ */
+export class AsyncIteration {
+  /**
+   * Invoke a function for each item of a collection, processing up to a given
+   * number of items concurrently. Items are pulled from the collection only as
+   * there is capacity to process them. If the function throws for any item, no
+   * further items are pulled, the collection is closed and the error is thrown
+   * once the items already being processed have finished.
+   *
+   * @typeParam T - the type of items in the collection
+   * @param items - the collection of items
+   * @param body - the function to invoke for each item and its position
+   * @param options - the iteration options
+   * @throws Error if the concurrency is less than one
+   */
+  public static async forEach<T>(
+    items: AnyIterable<T>,
+    body: (item: T, position: number) => unknown,
+    options?: AsyncIterationOptions
+  ): Promise<void> {
+    const { concurrency } = { ...DEFAULT_OPTIONS, ...options };
+    if (concurrency < 1) {
+      throw new Error(`Concurrency must be at least 1: ${concurrency}`);
+    }
+
+    const iterator = AsyncIteration.iteratorOf(items);
+    let position = 0;
+    let exhausted = false;
+    let failure: { error: unknown } | undefined;
+
+    // Each worker pulls the next item from the shared iterator until it runs
+    // out or one of the workers fails
+    const worker = async () => {
+      while (!exhausted && failure === undefined) {
+        try {
+          const next = await iterator.next();
+          if (next.done) {
+            exhausted = true;
+            return;
+          }
+          await body(next.value, position++);
+        } catch (error) {
+          failure = failure ?? { error };
+        }
+      }
+    };
+
+    const workers: Promise<void>[] = [];
+    for (let count = 0; count < concurrency; ++count) {
+      workers.push(worker());
+    }
+    await Promise.all(workers);
+
+    if (failure !== undefined) {
+      if (!exhausted) {
+        await iterator.return?.();
+      }
+      throw failure.error;
+    }
+  }
+
+  /**
+   * Transform each item of a collection, processing up to a given number of
+   * items concurrently. The results are in the same order as the items
+   * regardless of the order in which they complete.
+   *
+   * @typeParam T - the type of items in the collection
+   * @typeParam Result - the type of the transformed items
+   * @param items - the collection of items
+   * @param body - the function transforming each item and its position
+   * @param options - the iteration options
+   * @returns the transformed items
+   * @throws Error if the concurrency is less than one
+   */
+  public static async map<T, Result>(
+    items: AnyIterable<T>,
+    body: (item: T, position: number) => Result | Promise<Result>,
+    options?: AsyncIterationOptions
+  ): Promise<Result[]> {
+    const results: Result[] = [];
+    await AsyncIteration.forEach(
+      items,
+      async (item, position) => {
+        results[position] = await body(item, position);
+      },
+      options
+    );
+    return results;
+  }
+
+  /**
+   * Collect the items of a collection into an array
+   *
+   * @typeParam T - the type of items in the collection
+   * @param items - the collection of items
+   * @returns the items as an array
+   */
+  public static async toArray<T>(items: AnyIterable<T>): Promise<T[]> {
+    const result: T[] = [];
+    for await (const item of items) {
+      result.push(item);
+    }
+    return result;
+  }
+
+  /**
+   * Get an iterator for a collection that can be advanced using `await`
+   * regardless of whether the collection is synchronous
+   *
+   * @typeParam T - the type of items in the collection
+   * @param items - the collection of items
+   * @returns the iterator
+   */
+  protected static iteratorOf<T>(items: AnyIterable<T>): AsyncIterator<T> | Iterator<T> {
+    return Symbol.asyncIterator in items
+      ? (items as AsyncIterable<T>)[Symbol.asyncIterator]()
+      : (items as Iterable<T>)[Symbol.iterator]();
+  }
+}
@@ -0,0 +1,183 @@
+import { AsyncQueue } from './AsyncQueue';
+
+describe('AsyncQueue Tests', function () {
+  function delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  it('should reject an invalid high-water mark', function () {
+    expect(() => new AsyncQueue({ highWaterMark: -1 })).toThrow('Invalid high-water mark for queue: -1');
+    expect(() => new AsyncQueue({ highWaterMark: NaN })).toThrow('Invalid high-water mark for queue: NaN');
+  });
+
+  it('can take items that were offered in order', async function () {
+    const queue = new AsyncQueue<number>();
+    await queue.offer(1);
+    await queue.offer(2);
+    expect(queue.length()).toBe(2);
+    expect(queue.empty()).toBe(false);
+
+    expect(await queue.take()).toBe(1);
+    expect(await queue.take()).toBe(2);
+    expect(queue.empty()).toBe(true);
+  });
+
+  it('can wait for an item to arrive', async function () {
+    const queue = new AsyncQueue<string>();
+    const first = queue.take();
+    const second = queue.take();
+    await queue.offer('a');
+    await queue.offer('b');
+    expect(await first).toBe('a');
+    expect(await second).toBe('b');
+    expect(queue.length()).toBe(0);
+  });
+
+  it('should make producers wait once the high-water mark is reached', async function () {
+    const queue = new AsyncQueue<number>({ highWaterMark: 2 });
+    const log: string[] = [];
+    const offers = [1, 2, 3, 4].map((item) => queue.offer(item).then(() => log.push(`offered ${item}`)));
+    await delay(1);
+    expect(log).toEqual(['offered 1', 'offered 2']);
+    expect(queue.length()).toBe(2);
+
+    expect(await queue.take()).toBe(1);
+    await delay(1);
+    expect(log).toEqual(['offered 1', 'offered 2', 'offered 3']);
+    expect(queue.length()).toBe(2);
+
+    expect(await queue.take()).toBe(2);
+    expect(await queue.take()).toBe(3);
+    expect(await queue.take()).toBe(4);
+    await Promise.all(offers);
+    expect(log).toEqual(['offered 1', 'offered 2', 'offered 3', 'offered 4']);
+  });
+
+  it('can hand items directly from producers to consumers with a high-water mark of zero', async function () {
+    const queue = new AsyncQueue<number>({ highWaterMark: 0 });
+    let offered = false;
+    const offer = queue.offer(1).then(() => (offered = true));
+    await delay(1);
+    expect(offered).toBe(false);
+    expect(queue.length()).toBe(0);
+
+    expect(await queue.take()).toBe(1);
+    await offer;
+    expect(offered).toBe(true);
+
+    const take = queue.take();
+    await queue.offer(2);
+    expect(await take).toBe(2);
+  });
+
+  describe('timeouts', function () {
+    it('should reject a take that times out', async function () {
+      const queue = new AsyncQueue<number>();
+      await expect(queue.take(5)).rejects.toThrow('Timed out after 5ms waiting for an item');
+
+      // The timed out consumer must not receive later items
+      await queue.offer(1);
+      expect(queue.length()).toBe(1);
+      expect(await queue.take(5)).toBe(1);
+    });
+
+    it('should reject an offer that times out and abandon the item', async function () {
+      const queue = new AsyncQueue<number>({ highWaterMark: 1 });
+      await queue.offer(1);
+      await expect(queue.offer(2, 5)).rejects.toThrow('Timed out after 5ms waiting for room in the queue');
+
+      expect(await queue.take()).toBe(1);
+      expect(queue.empty()).toBe(true);
+    });
+
+    it('should not time out once the wait is over', async function () {
+      const queue = new AsyncQueue<number>({ highWaterMark: 1 });
+      const take = queue.take(20);
+      await queue.offer(1);
+      expect(await take).toBe(1);
+
+      await queue.offer(2);
+      const offer = queue.offer(3, 20);
+      expect(await queue.take()).toBe(2);
+      await offer;
+      await delay(30);
+      expect(await queue.take()).toBe(3);
+    });
+  });
+
+  describe('close', function () {
+    it('should release waiting consumers', async function () {
+      const queue = new AsyncQueue<number>();
+      const take = queue.take();
+      queue.close();
+      expect(queue.closed()).toBe(true);
+      await expect(take).rejects.toThrow('Queue is closed');
+    });
+
+    it('should still deliver the items in the queue', async function () {
+      const queue = new AsyncQueue<number>();
+      await queue.offer(1);
+      await queue.offer(2);
+      queue.close();
+      queue.close();
+
+      expect(await queue.take()).toBe(1);
+      expect(await queue.take()).toBe(2);
+      await expect(queue.take()).rejects.toThrow('Queue is closed');
+    });
+
+    it('should reject new and waiting producers', async function () {
+      const queue = new AsyncQueue<number>({ highWaterMark: 1 });
+      await queue.offer(1);
+      const offer = queue.offer(2);
+      queue.close();
+      await expect(offer).rejects.toThrow('Queue is closed');
+      await expect(queue.offer(3)).rejects.toThrow('Queue is closed');
+
+      expect(await queue.take()).toBe(1);
+      expect(queue.empty()).toBe(true);
+    });
+  });
+
+  describe('for await', function () {
+    it('can iterate until the queue is closed and emptied', async function () {
+      const queue = new AsyncQueue<number>({ highWaterMark: 1 });
+      const producer = (async () => {
+        for (let item = 0; item < 5; ++item) {
+          await queue.offer(item);
+        }
+        queue.close();
+      })();
+
+      const seen: number[] = [];
+      for await (const item of queue) {
+        seen.push(item);
+        await delay(1);
+      }
+      await producer;
+      expect(seen).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    it('can share the items between several consumers', async function () {
+      const queue = new AsyncQueue<number>();
+      const consume = async () => {
+        const seen: number[] = [];
+        for await (const item of queue) {
+          seen.push(item);
+          await delay(1);
+        }
+        return seen;
+      };
+
+      const consumers = [consume(), consume()];
+      for (let item = 0; item < 6; ++item) {
+        await queue.offer(item);
+      }
+      queue.close();
+
+      const [first, second] = await Promise.all(consumers);
+      expect(first.length + second.length).toBe(6);
+      expect([...first, ...second].sort()).toEqual([0, 1, 2, 3, 4, 5]);
+    });
+  });
+});
@@ -0,0 +1,301 @@
+import { DoublyLinkedList, LinkedList } from './LinkedList';
+
+/**
+ * The options used to configure an asynchronous queue
+ */
+export interface AsyncQueueOptions {
+  // The number of items the queue holds before producers have to wait for
+  // consumers to take some. Zero means every producer waits for a consumer.
+  highWaterMark?: number;
+}
+
+// The default options for an asynchronous queue
+const DEFAULT_OPTIONS: Readonly<Required<AsyncQueueOptions>> = {
+  highWaterMark: Infinity,
+};
+
+/**
+ * A consumer waiting for an item
+ *
+ * @typeParam T - the type of items in the queue
+ */
+interface AsyncQueueConsumer<T> {
+  // Called with the next item or with done if the queue was closed
+  resolve(result: IteratorResult<T>): void;
+}
+
+/**
+ * A producer waiting for room in the queue
+ *
+ * @typeParam T - the type of items in the queue
+ */
+interface AsyncQueueProducer<T> {
+  // The item to be added
+  item: T;
+
+  // Called once the item has been added
+  resolve(): void;
+
+  // Called if the queue is closed before the item could be added
+  reject(error: Error): void;
+}
+
+/**
+ * A queue connecting producers and consumers that run asynchronously, such as
+ * an in-process job queue. Consumers wait for items to arrive rather than
+ * polling and producers wait for room once the queue reaches its high-water
+ * mark, which stops fast producers from outrunning slow consumers.
+ *
+ * ```ts
+ * const jobs = new AsyncQueue<Job>({ highWaterMark: 100 });
+ *
+ * // Producer
+ * await jobs.offer(job);
+ * ...
+ * jobs.close();
+ *
+ * // Consumer
+ * for await (const job of jobs) {
+ *   await job.run();
+ * }
+ * ```
+ *
+ * Items are delivered in the order they were offered and each item is given to
+ * exactly one consumer, with waiting consumers served in the order they
+ * started waiting.
+ *
+ * @typeParam T - the type of items in the queue
+ */
+export class AsyncQueue<T> implements AsyncIterable<T> {
+  // The items waiting to be taken
+  protected readonly items = new LinkedList<T>();
+
+  // The consumers waiting for items, which only exist while there are no items
+  protected readonly consumers = new DoublyLinkedList<AsyncQueueConsumer<T>>();
+
+  // The producers waiting for room, which only exist while the queue is full
+  protected readonly producers = new DoublyLinkedList<AsyncQueueProducer<T>>();
+
+  // Whether the queue has been closed to new items
+  protected isClosed = false;
+
+  // The options for the queue
+  protected readonly options: Readonly<Required<AsyncQueueOptions>>;
+
+  /**
+   * Constructor
+   *
+   * @typeParam T - the type of items in the queue
+   * @param options - the options for the queue
+   * @throws Error if the high-water mark is negative
+   */
+  public constructor(options?: AsyncQueueOptions) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    if (!(this.options.highWaterMark >= 0)) {
+      throw new Error(`Invalid high-water mark for queue: ${this.options.highWaterMark}`);
+    }
+  }
+
+  /**
+   * Get the number of items waiting to be taken, not including those of
+   * producers waiting for room
+   *
+   * @returns the number of items in the queue
+   */
+  public length(): number {
+    return this.items.length();
+  }
+
+  /**
+   * Called to see if there are no items waiting to be taken
+   *
+   * @returns true if the queue is empty
+   */
+  public empty(): boolean {
+    return this.items.empty();
+  }
+
+  /**
+   * Called to see if the queue has been closed
+   *
+   * @returns true if the queue has been closed
+   */
+  public closed(): boolean {
+    return this.isClosed;
+  }
+
+  /**
+   * Add an item to the queue. If a consumer is waiting then the item is given
+   * straight to it. Otherwise, if the queue is at its high-water mark, the
+   * returned promise does not resolve until there is room for the item.
+   *
+   * @typeParam T - the type of items in the queue
+   * @param item - the item to add
+   * @param timeout - optional number of milliseconds to wait for room, after
+   * which the item is abandoned
+   * @returns a promise that resolves once the item has been added
+   * @throws Error if the queue is closed before the item is added or the
+   * timeout expires
+   */
+  public async offer(item: T, timeout?: number): Promise<void> {
+    if (this.isClosed) {
+      throw new Error('Queue is closed');
+    }
+
+    const consumer = this.consumers.shift();
+    if (consumer !== undefined) {
+      consumer.resolve({ done: false, value: item });
+      return;
+    }
+
+    if (this.items.length() < this.options.highWaterMark) {
+      this.items.push(item);
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      const handle = this.producers.pushHandle({
+        item,
+        resolve: () => {
+          clearTimeout(timer);
+          resolve();
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      const timer = this.startTimer(timeout, () => {
+        this.producers.remove(handle);
+        reject(new Error(`Timed out after ${timeout}ms waiting for room in the queue`));
+      });
+    });
+  }
+
+  /**
+   * Take the next item from the queue, waiting for one to arrive if the queue
+   * is empty
+   *
+   * @typeParam T - the type of items in the queue
+   * @param timeout - optional number of milliseconds to wait for an item
+   * @returns a promise that resolves to the item
+   * @throws Error if the queue is closed and empty or the timeout expires
+   */
+  public async take(timeout?: number): Promise<T> {
+    const result = await this.next(timeout);
+    if (result.done) {
+      throw new Error('Queue is closed');
+    }
+    return result.value;
+  }
+
+  /**
+   * Close the queue to new items. Any items already in the queue can still be
+   * taken but consumers waiting on an empty queue are released, as are those
+   * that try to take from it once empty. Producers waiting for room are
+   * rejected since their items were never added.
+   */
+  public close() {
+    if (this.isClosed) {
+      return;
+    }
+
+    this.isClosed = true;
+    for (let consumer = this.consumers.shift(); consumer !== undefined; consumer = this.consumers.shift()) {
+      consumer.resolve({ done: true, value: undefined });
+    }
+    for (let producer = this.producers.shift(); producer !== undefined; producer = this.producers.shift()) {
+      producer.reject(new Error('Queue is closed'));
+    }
+  }
+
+  /**
+   * Iterate over the items as they arrive, finishing once the queue has been
+   * closed and emptied. For example:
+   *
+   * ```ts
+   *   for await (const item of queue) {
+   *   }
+   * ```
+   *
+   * @typeParam T - the type of items in the queue
+   * @returns the iterator
+   */
+  public async *[Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    for (;;) {
+      const result = await this.next();
+      if (result.done) {
+        return;
+      }
+      yield result.value;
+    }
+  }
+
+  /**
+   * Get the next item from the queue, waiting for one to arrive if the queue is
+   * empty
+   *
+   * @typeParam T - the type of items in the queue
+   * @param timeout - optional number of milliseconds to wait for an item
+   * @returns a promise that resolves to the item or done if the queue is
+   * closed and empty
+   * @throws Error if the timeout expires
+   */
+  protected next(timeout?: number): Promise<IteratorResult<T>> {
+    if (!this.items.empty()) {
+      const item = this.items.shift() as T;
+      this.admitProducers();
+      return Promise.resolve({ done: false, value: item });
+    }
+
+    // With a high-water mark of zero, producers wait with their items until a
+    // consumer arrives
+    const producer = this.producers.shift();
+    if (producer !== undefined) {
+      producer.resolve();
+      return Promise.resolve({ done: false, value: producer.item });
+    }
+
+    if (this.isClosed) {
+      return Promise.resolve({ done: true, value: undefined });
+    }
+
+    return new Promise((resolve, reject) => {
+      const handle = this.consumers.pushHandle({
+        resolve: (result) => {
+          clearTimeout(timer);
+          resolve(result);
+        },
+      });
+      const timer = this.startTimer(timeout, () => {
+        this.consumers.remove(handle);
+        reject(new Error(`Timed out after ${timeout}ms waiting for an item`));
+      });
+    });
+  }
+
+  /**
+   * Move the items of waiting producers into the queue while there is room
+   */
+  protected admitProducers() {
+    while (this.items.length() < this.options.highWaterMark) {
+      const producer = this.producers.shift();
+      if (producer === undefined) {
+        return;
+      }
+      this.items.push(producer.item);
+      producer.resolve();
+    }
+  }
+
+  /**
+   * Start a timer if a timeout is given
+   *
+   * @param timeout - optional number of milliseconds before the timer fires
+   * @param onTimeout - the function to call when the timer fires
+   * @returns the timer or undefined if there is no timeout
+   */
+  protected startTimer(timeout: number | undefined, onTimeout: () => void): ReturnType<typeof setTimeout> | undefined {
+    return timeout === undefined ? undefined : setTimeout(onTimeout, timeout);
+  }
+}
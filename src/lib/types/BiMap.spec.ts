@@ -0,0 +1,129 @@
+import { BiMap } from './BiMap';
+
+describe('BiMap Tests', function () {
+  function validateEntries<K, V>(map: BiMap<K, V>, expected: [K, V][]) {
+    expect(Array.from(map)).toEqual(expected);
+    expect(new Map(map.inverse())).toEqual(new Map(expected.map(([key, value]) => [value, key])));
+    expect(map.size).toEqual(expected.length);
+    expect(map.inverse().size).toEqual(expected.length);
+  }
+
+  describe('constructor', function () {
+    it('can create an empty map', function () {
+      const map = new BiMap<number, string>();
+      expect(map.policy).toEqual('throw');
+      validateEntries(map, []);
+    });
+
+    it('can create a map with initial entries', function () {
+      const map = new BiMap<number, string>('throw', [
+        [1, 'one'],
+        [2, 'two'],
+      ]);
+      validateEntries(map, [
+        [1, 'one'],
+        [2, 'two'],
+      ]);
+    });
+  });
+
+  describe('set and delete', function () {
+    it('can look up keys by value', function () {
+      const map = new BiMap<number, string>().set(1, 'one').set(2, 'two');
+
+      expect(map.get(1)).toEqual('one');
+      expect(map.getKey('two')).toEqual(2);
+      expect(map.getKey('three')).not.toBeDefined();
+      expect(map.hasValue('one')).toEqual(true);
+      expect(map.hasValue('three')).toEqual(false);
+    });
+
+    it('should remove the old value from the inverse when a key is reassigned', function () {
+      const map = new BiMap<number, string>().set(1, 'one');
+      map.set(1, 'uno');
+
+      validateEntries(map, [[1, 'uno']]);
+      expect(map.hasValue('one')).toEqual(false);
+    });
+
+    it('should allow setting an existing entry again', function () {
+      const map = new BiMap<number, string>().set(1, 'one').set(1, 'one');
+      validateEntries(map, [[1, 'one']]);
+    });
+
+    it('should throw when a value belongs to another key', function () {
+      const map = new BiMap<number, string>().set(1, 'one');
+
+      expect(() => map.set(2, 'one')).toThrow();
+      validateEntries(map, [[1, 'one']]);
+    });
+
+    it('can replace the key of a value', function () {
+      const map = new BiMap<number, string>('replace').set(1, 'one').set(2, 'two');
+      map.set(3, 'one');
+
+      validateEntries(map, [
+        [2, 'two'],
+        [3, 'one'],
+      ]);
+    });
+
+    it('can delete entries and clear the map', function () {
+      const map = new BiMap<number, string>().set(1, 'one').set(2, 'two');
+
+      expect(map.delete(1)).toEqual(true);
+      expect(map.delete(1)).toEqual(false);
+      validateEntries(map, [[2, 'two']]);
+
+      map.clear();
+      validateEntries(map, []);
+    });
+  });
+
+  describe('inverse', function () {
+    it('should be a live view', function () {
+      const map = new BiMap<number, string>().set(1, 'one');
+      const inverse = map.inverse();
+
+      expect(inverse.inverse()).toBe(map);
+      inverse.set('two', 2);
+      expect(map.get(2)).toEqual('two');
+
+      inverse.delete('one');
+      expect(map.has(1)).toEqual(false);
+
+      inverse.clear();
+      expect(map.empty()).toEqual(true);
+    });
+
+    it('should enforce one-to-one from the inverse side', function () {
+      const map = new BiMap<number, string>().set(1, 'one');
+      expect(() => map.inverse().set('uno', 1)).toThrow();
+    });
+
+    it('should support the MapPlus helpers on both sides', function () {
+      const map = new BiMap<string, string>().set('a', 'x').set('b', 'y').set('c', 'z');
+
+      expect(map.subset(['a', 'c']).toObject()).toEqual({ a: 'x', c: 'z' });
+      expect(map.inverse().subset(['y']).toObject()).toEqual({ y: 'b' });
+      expect(map.inverse().keySet().equals(['x', 'y', 'z'])).toEqual(true);
+      expect(map.inverse().toObject()).toEqual({ x: 'a', y: 'b', z: 'c' });
+    });
+  });
+
+  it('can deliver a replacement as a single change set', function () {
+    const map = new BiMap<string, number>('replace', [
+      ['one', 1],
+      ['two', 2],
+    ]);
+    const listener = jest.fn();
+    map.subscribe(listener);
+
+    map.set('three', 1);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith([
+      { type: 'delete', key: 'one', oldValue: 1 },
+      { type: 'set', key: 'three', oldValue: undefined, newValue: 1 },
+    ]);
+  });
+});
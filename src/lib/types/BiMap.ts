@@ -0,0 +1,187 @@
+import type { BiMapJson } from './CollectionJson';
+import { MapPlus } from './MapPlus';
+
+/**
+ * What a bidirectional map does when a value being set is already associated
+ * with a different key. With `throw` an error is thrown and the map is left
+ * unchanged. With `replace` the existing key is removed so that the value can
+ * be associated with the new key.
+ */
+export type BiMapConflictPolicy = 'throw' | 'replace';
+
+/**
+ * A bidirectional map that enforces a one-to-one relationship between its keys
+ * and values. It maintains an inverse index from values back to keys which is
+ * exposed by {@link inverse} as another `BiMap`. The two are live views of each
+ * other, so a change made through either is visible in both.
+ *
+ * @typeParam K - the type of element used as the key in the map
+ * @typeParam V - the type of element used as the value in the map
+ */
+export class BiMap<K, V> extends MapPlus<K, V> {
+  // The inverse of this map. It is created on first use and linked back to
+  // this instance so that each map is the inverse of the other.
+  protected inverseMap?: BiMap<V, K>;
+
+  /**
+   * Constructor
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param policy - what to do when a value is already associated with a
+   * different key
+   * @param entries - optional entries to start the map
+   */
+  public constructor(public readonly policy: BiMapConflictPolicy = 'throw', entries?: Iterable<readonly [K, V]>) {
+    super();
+    if (entries !== undefined) {
+      for (const [key, value] of entries) {
+        this.set(key, value);
+      }
+    }
+  }
+
+  /**
+   * Get the inverse of this map, that is, the map from values to keys. The
+   * inverse is a live view so changes to either map are reflected in the
+   * other.
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @returns the inverse map
+   */
+  public inverse(): BiMap<V, K> {
+    if (this.inverseMap === undefined) {
+      const inverse = new BiMap<V, K>(this.policy);
+      inverse.inverseMap = this;
+      this.inverseMap = inverse;
+    }
+    return this.inverseMap;
+  }
+
+  /**
+   * Get the key associated with a value
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param value - the value to look up
+   * @returns the key associated with the value or undefined if there is none
+   */
+  public getKey(value: V): K | undefined {
+    return this.inverse().get(value);
+  }
+
+  /**
+   * Determine if a value is associated with any key
+   *
+   * @typeParam V - the type of element used as the value in the map
+   * @param value - the value to look for
+   * @returns true if the value is present
+   */
+  public hasValue(value: V): boolean {
+    return this.inverse().has(value);
+  }
+
+  /**
+   * Associate a value with a key, replacing any value the key already had. If
+   * the value is already associated with a different key, the map's conflict
+   * policy determines whether an error is thrown or the other key is removed.
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param key - the key to set
+   * @param value - the value to associate with the key
+   * @returns this instance for chaining
+   * @throws Error if the value belongs to another key and the policy is
+   * `throw`
+   */
+  public set(key: K, value: V): this {
+    // Removing a conflicting key and setting the new value is a single change
+    // as far as the listeners are concerned.
+    return this.transaction(() => {
+      const inverse = this.inverse();
+      if (inverse.has(value)) {
+        const existingKey = inverse.get(value) as K;
+        if (existingKey === key) {
+          return this;
+        }
+        if (this.policy === 'throw') {
+          throw new Error(`Value ${String(value)} is already associated with key ${String(existingKey)}`);
+        }
+        super.delete(existingKey);
+      }
+
+      // Remove the key's current value from the inverse before associating the
+      // new value with it.
+      if (super.has(key)) {
+        inverse.rawDelete(super.get(key) as V);
+      }
+
+      super.set(key, value);
+      inverse.rawSet(value, key);
+      return this;
+    });
+  }
+
+  /**
+   * Remove a key and its value from the map
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @param key - the key to remove
+   * @returns true if the key was present
+   */
+  public delete(key: K): boolean {
+    if (!super.has(key)) {
+      return false;
+    }
+
+    this.inverse().rawDelete(super.get(key) as V);
+    return super.delete(key);
+  }
+
+  /**
+   * Remove all entries from both this map and its inverse
+   */
+  public clear() {
+    this.inverseMap?.rawClear();
+    super.clear();
+  }
+
+  /**
+   * Convert the map into its JSON equivalent, tagged so that
+   * `CollectionJson.reviver` can rebuild the map with the same policy
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @returns the JSON equivalent
+   */
+  public toJSON(): BiMapJson {
+    return { $type: 'BiMap', policy: this.policy, entries: Array.from(this) };
+  }
+
+  /**
+   * Set an entry in this map only, without updating the inverse
+   *
+   * @param key - the key to set
+   * @param value - the value of the key
+   */
+  protected rawSet(key: K, value: V) {
+    super.set(key, value);
+  }
+
+  /**
+   * Remove an entry from this map only, without updating the inverse
+   *
+   * @param key - the key to remove
+   */
+  protected rawDelete(key: K) {
+    super.delete(key);
+  }
+
+  /**
+   * Remove all entries from this map only, without updating the inverse
+   */
+  protected rawClear() {
+    super.clear();
+  }
+}
@@ -0,0 +1,88 @@
+import { ChangeNotifier } from './ChangeNotifier';
+
+describe('ChangeNotifier Tests', function () {
+  it('can publish a change to each listener', function () {
+    const notifier = new ChangeNotifier<string>();
+    const first = jest.fn();
+    const second = jest.fn();
+    notifier.subscribe(first).subscribe(second);
+
+    notifier.notify('one');
+    expect(first).toHaveBeenCalledWith(['one']);
+    expect(second).toHaveBeenCalledWith(['one']);
+  });
+
+  it('should only be active when there are listeners', function () {
+    const notifier = new ChangeNotifier<string>();
+    const listener = jest.fn();
+    expect(notifier.active()).toBeFalsy();
+
+    notifier.subscribe(listener);
+    expect(notifier.active()).toBeTruthy();
+
+    notifier.unsubscribe(listener);
+    expect(notifier.active()).toBeFalsy();
+
+    notifier.notify('one');
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('can batch the changes made within a transaction', function () {
+    const notifier = new ChangeNotifier<string>();
+    const listener = jest.fn();
+    notifier.subscribe(listener);
+
+    const result = notifier.transaction(() => {
+      notifier.notify('one');
+      notifier.notify('two');
+      expect(listener).not.toHaveBeenCalled();
+      return 42;
+    });
+
+    expect(result).toEqual(42);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(['one', 'two']);
+  });
+
+  it('can nest transactions', function () {
+    const notifier = new ChangeNotifier<string>();
+    const listener = jest.fn();
+    notifier.subscribe(listener);
+
+    notifier.transaction(() => {
+      notifier.notify('one');
+      notifier.transaction(() => notifier.notify('two'));
+      expect(listener).not.toHaveBeenCalled();
+      notifier.notify('three');
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(['one', 'two', 'three']);
+  });
+
+  it('should publish the changes made before a transaction throws', function () {
+    const notifier = new ChangeNotifier<string>();
+    const listener = jest.fn();
+    notifier.subscribe(listener);
+
+    expect(() =>
+      notifier.transaction(() => {
+        notifier.notify('one');
+        throw new Error('oops');
+      })
+    ).toThrow('oops');
+    expect(listener).toHaveBeenCalledWith(['one']);
+
+    notifier.notify('two');
+    expect(listener).toHaveBeenLastCalledWith(['two']);
+  });
+
+  it('should not publish an empty transaction', function () {
+    const notifier = new ChangeNotifier<string>();
+    const listener = jest.fn();
+    notifier.subscribe(listener);
+
+    notifier.transaction(() => undefined);
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * A change made to a map
+ *
+ * @typeParam K - the type of element used as the key in the map
+ * @typeParam V - the type of element used as the value in the map
+ */
+export type MapChange<K, V> =
+  | { type: 'set'; key: K; oldValue: V | undefined; newValue: V }
+  | { type: 'delete'; key: K; oldValue: V }
+  | { type: 'clear' };
+
+/**
+ * A change made to a set
+ *
+ * @typeParam T - the type of element stored in the set
+ */
+export type SetChange<T> = { type: 'add'; element: T } | { type: 'delete'; element: T } | { type: 'clear' };
+
+/**
+ * A change made to a linked list. A `move` change is published when an item
+ * changes position without being added or removed.
+ *
+ * @typeParam Item - the type of items handled by the list
+ */
+export type ListChange<Item> =
+  | { type: 'add'; item: Item }
+  | { type: 'delete'; item: Item }
+  | { type: 'move'; item: Item }
+  | { type: 'clear' };
+
+/**
+ * A function that is given the changes made to a collection. Changes made
+ * within a transaction are delivered together once the transaction completes,
+ * otherwise each change is delivered on its own.
+ *
+ * @typeParam Change - the type of change published
+ */
+export type ChangeListener<Change> = (changes: Change[]) => void;
+
+/**
+ * Publishes the changes made to a collection to its listeners, batching the
+ * changes made within a transaction into a single change set.
+ *
+ * @typeParam Change - the type of change published
+ */
+export class ChangeNotifier<Change> {
+  // The listeners to publish changes to. They are not typed by the change so
+  // that a collection holding a notifier can still be assigned to one with a
+  // wider element type, just as it could without one.
+  protected listeners = new Set<ChangeListener<any>>();
+
+  // The changes made within the current transaction
+  protected pending: Change[] = [];
+
+  // The number of transactions currently in progress
+  protected depth = 0;
+
+  /**
+   * Add a listener to be notified of changes. Adding the same listener more
+   * than once has no effect.
+   *
+   * @param listener - the listener to add
+   * @returns this instance for chaining
+   */
+  public subscribe(listener: ChangeListener<Change>): this {
+    this.listeners.add(listener);
+    return this;
+  }
+
+  /**
+   * Remove a previously added listener
+   *
+   * @param listener - the listener to remove
+   * @returns this instance for chaining
+   */
+  public unsubscribe(listener: ChangeListener<Change>): this {
+    this.listeners.delete(listener);
+    return this;
+  }
+
+  /**
+   * Determine if there is anyone listening for changes. Collections use this
+   * to avoid the cost of describing changes that nobody will see.
+   *
+   * @returns true if there is at least one listener
+   */
+  public active(): boolean {
+    return this.listeners.size > 0;
+  }
+
+  /**
+   * Publish a change, deferring it until the end of the current transaction if
+   * there is one.
+   *
+   * @param change - the change to publish
+   */
+  public notify(change: Change) {
+    if (!this.active()) {
+      return;
+    }
+
+    if (this.depth > 0) {
+      this.pending.push(change);
+    } else {
+      this.publish([change]);
+    }
+  }
+
+  /**
+   * Execute a synchronous function as a transaction so that any changes it
+   * makes are published together once it completes, even if it throws.
+   * Transactions can be nested in which case the changes are published when
+   * the outermost one completes.
+   *
+   * @typeParam Result - the type of value returned by the function
+   * @param body - the function to execute
+   * @returns the value returned by the function
+   */
+  public transaction<Result>(body: () => Result): Result {
+    ++this.depth;
+    try {
+      return body();
+    } finally {
+      if (--this.depth === 0 && this.pending.length > 0) {
+        const changes = this.pending;
+        this.pending = [];
+        this.publish(changes);
+      }
+    }
+  }
+
+  /**
+   * Deliver a set of changes to each listener
+   *
+   * @param changes - the changes to deliver
+   */
+  protected publish(changes: Change[]) {
+    for (const listener of this.listeners) {
+      listener(changes);
+    }
+  }
+}
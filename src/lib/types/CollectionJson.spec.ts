@@ -0,0 +1,246 @@
+import { BiMap } from './BiMap';
+import { CollectionJson } from './CollectionJson';
+import { Counter } from './Counter';
+import { ExpiringMap } from './ExpiringMap';
+import { HashMap } from './HashMap';
+import { HashSet } from './HashSet';
+import { tupleHashStrategy } from './HashStrategy';
+import { IndexedMap } from './IndexedMap';
+import { DoublyLinkedList, LinkedList } from './LinkedList';
+import { MapPlus } from './MapPlus';
+import { MultiMap } from './MultiMap';
+import { ReadonlyMapPlus } from './ReadonlyMapPlus';
+import { ReadonlySetPlus } from './ReadonlySetPlus';
+import { SetPlus } from './SetPlus';
+import { SortedMap } from './SortedMap';
+import { SortedSet } from './SortedSet';
+
+describe('CollectionJson Tests', function () {
+  function roundTrip<T>(value: T): T {
+    return JSON.parse(CollectionJson.stringify(value), CollectionJson.reviver);
+  }
+
+  describe('toJSON', function () {
+    it('can tag each collection', function () {
+      expect(new MapPlus([[1, 'one']]).toJSON()).toEqual({ $type: 'MapPlus', entries: [[1, 'one']] });
+      expect(new SetPlus(['a']).toJSON()).toEqual({ $type: 'SetPlus', items: ['a'] });
+    });
+
+    it('should leave lists as plain arrays', function () {
+      expect(new LinkedList('a').toJSON()).toEqual(['a']);
+      expect(JSON.stringify({ list: new DoublyLinkedList('a') })).toEqual('{"list":["a"]}');
+    });
+  });
+
+  describe('stringify', function () {
+    it('can tag lists', function () {
+      expect(JSON.parse(CollectionJson.stringify(new LinkedList('a')))).toEqual({ $type: 'LinkedList', items: ['a'] });
+      expect(JSON.parse(JSON.stringify([new DoublyLinkedList('a')], CollectionJson.replacer))).toEqual([
+        { $type: 'DoublyLinkedList', items: ['a'] },
+      ]);
+    });
+
+    it('can tag lists nested within other collections', function () {
+      const value = { sets: new SetPlus([new LinkedList(1)]), lists: new LinkedList(new DoublyLinkedList(2)) };
+      expect(JSON.parse(CollectionJson.stringify(value))).toEqual({
+        sets: { $type: 'SetPlus', items: [{ $type: 'LinkedList', items: [1] }] },
+        lists: { $type: 'LinkedList', items: [{ $type: 'DoublyLinkedList', items: [2] }] },
+      });
+    });
+
+    it('can indent the text', function () {
+      expect(CollectionJson.stringify({ a: 1 }, 2)).toEqual('{\n  "a": 1\n}');
+    });
+  });
+
+  describe('reviver', function () {
+    it('can revive each collection', function () {
+      const map = roundTrip(new MapPlus([['a', 1]]));
+      expect(map).toBeInstanceOf(MapPlus);
+      expect(map.get('a')).toEqual(1);
+
+      const set = roundTrip(new SetPlus([1, 2]));
+      expect(set).toBeInstanceOf(SetPlus);
+      expect(set.toArray()).toEqual([1, 2]);
+
+      const list = roundTrip(new LinkedList(1, 2));
+      expect(list).toBeInstanceOf(LinkedList);
+      expect(list).not.toBeInstanceOf(DoublyLinkedList);
+      expect(list.toArray()).toEqual([1, 2]);
+
+      const doubly = roundTrip(new DoublyLinkedList(1, 2));
+      expect(doubly).toBeInstanceOf(DoublyLinkedList);
+      expect(doubly.pop()).toEqual(2);
+    });
+
+    it('can revive large lists', function () {
+      const items = Array.from({ length: 500000 }, (_, index) => index);
+      const text = JSON.stringify({ $type: 'DoublyLinkedList', items });
+      const list = JSON.parse(text, CollectionJson.reviver);
+      expect(list).toBeInstanceOf(DoublyLinkedList);
+      expect(list.length()).toEqual(500000);
+      expect(list.last()).toEqual(499999);
+
+      const parsed = CollectionJson.parse(JSON.stringify(items), { type: 'LinkedList' }) as LinkedList<number>;
+      expect(parsed.length()).toEqual(500000);
+    });
+
+    it('can keep map keys that are not strings', function () {
+      const map = roundTrip(
+        new MapPlus<unknown, string>([
+          [1, 'number'],
+          [true, 'boolean'],
+          [null, 'null'],
+        ])
+      );
+      expect(map.get(1)).toEqual('number');
+      expect(map.get(true)).toEqual('boolean');
+      expect(map.get(null)).toEqual('null');
+      expect(map.has('1')).toEqual(false);
+    });
+
+    it('can revive nested collections', function () {
+      const original = {
+        name: 'scores',
+        scores: new MapPlus([
+          [1, new SetPlus(['a', 'b'])],
+          [2, new SetPlus(['c'])],
+        ]),
+        history: new DoublyLinkedList(new MapPlus([['x', new LinkedList(1)]])),
+      };
+      const revived = roundTrip(original);
+
+      expect(revived.name).toEqual('scores');
+      expect(revived.scores.get(1)).toBeInstanceOf(SetPlus);
+      expect(revived.scores.get(1)?.toArray()).toEqual(['a', 'b']);
+      expect(revived.history).toBeInstanceOf(DoublyLinkedList);
+      expect(revived.history.first()?.get('x')).toBeInstanceOf(LinkedList);
+      expect(revived.history.first()?.get('x')?.toArray()).toEqual([1]);
+    });
+
+    it('can revive the map and set subclasses as the same type', function () {
+      const counter = roundTrip({ counter: new Counter(['a', 'b', 'a']) }).counter;
+      expect(counter).toBeInstanceOf(Counter);
+      expect(counter.count('a')).toEqual(2);
+      expect(counter.total()).toEqual(3);
+
+      const bimap = roundTrip(new BiMap('replace', [['a', 1]]));
+      expect(bimap).toBeInstanceOf(BiMap);
+      expect(bimap.policy).toEqual('replace');
+      expect(bimap.inverse().get(1)).toEqual('a');
+
+      const arrays = roundTrip(MultiMap.ofArrays<string, number>().addAll('a', [1, 1]));
+      expect(arrays).toBeInstanceOf(MultiMap);
+      expect(arrays.bucketType).toEqual('array');
+      expect(arrays.get('a')).toEqual([1, 1]);
+
+      const sets = roundTrip(MultiMap.ofSets<number, string>().addAll(1, ['x', 'y']));
+      expect(sets.bucketType).toEqual('set');
+      expect(sets.get(1)).toBeInstanceOf(SetPlus);
+      expect(sets.getAll(1)).toEqual(['x', 'y']);
+
+      const sortedMap = roundTrip(
+        new SortedMap(undefined, [
+          [2, 'b'],
+          [1, 'a'],
+        ])
+      );
+      expect(sortedMap).toBeInstanceOf(SortedMap);
+      expect(sortedMap.first()).toEqual([1, 'a']);
+
+      const sortedSet = roundTrip(new SortedSet(undefined, [3, 1, 2]));
+      expect(sortedSet).toBeInstanceOf(SortedSet);
+      expect(sortedSet.toArray()).toEqual([1, 2, 3]);
+
+      const readonlyMap = roundTrip(new ReadonlyMapPlus([['a', 1]]));
+      expect(readonlyMap).toBeInstanceOf(ReadonlyMapPlus);
+      expect(() => readonlyMap.set('b', 2)).toThrow();
+
+      const readonlySet = roundTrip(new ReadonlySetPlus([1]));
+      expect(readonlySet).toBeInstanceOf(ReadonlySetPlus);
+      expect(readonlySet.has(1)).toEqual(true);
+    });
+
+    it('should refuse to serialise collections that cannot be revived', function () {
+      expect(() => JSON.stringify(new HashMap(tupleHashStrategy))).toThrow(
+        'Cannot convert a HashMap to JSON since its hash strategy cannot be serialised'
+      );
+      expect(() => JSON.stringify(new HashSet(tupleHashStrategy))).toThrow(
+        'Cannot convert a HashSet to JSON since its hash strategy cannot be serialised'
+      );
+      expect(() => JSON.stringify(new IndexedMap({}))).toThrow(
+        'Cannot convert an IndexedMap to JSON since its indexes cannot be serialised'
+      );
+      expect(() => JSON.stringify(new ExpiringMap({ defaultTtl: 1000 }))).toThrow(
+        'Cannot convert an ExpiringMap to JSON since the expiry of its entries cannot be serialised'
+      );
+    });
+
+    it('should leave other values alone', function () {
+      const original = { $type: 'Unknown', items: [1], other: { $type: 'SetPlus', items: 'no' } };
+      expect(roundTrip(original)).toEqual(original);
+    });
+  });
+
+  describe('parse', function () {
+    it('can parse without a schema', function () {
+      const set = CollectionJson.parse(JSON.stringify(new SetPlus([1])));
+      expect(set).toBeInstanceOf(SetPlus);
+    });
+
+    it('can restore dates using a schema', function () {
+      const when = new Date('2024-01-02T03:04:05.000Z');
+      const text = JSON.stringify({ events: new MapPlus([[when, new SetPlus([when])]]) });
+      const result = CollectionJson.parse(text, {
+        type: 'object',
+        properties: { events: { type: 'MapPlus', key: 'date', value: { type: 'SetPlus', item: 'date' } } },
+      }) as { events: MapPlus<Date, SetPlus<Date>> };
+
+      const [[key, value]] = Array.from(result.events);
+      expect(key).toEqual(when);
+      expect(value).toBeInstanceOf(SetPlus);
+      expect(value.toArray()).toEqual([when]);
+    });
+
+    it('can revive collections from plain objects and arrays', function () {
+      const text = JSON.stringify({ byId: new MapPlus([[1, 'one']]).toObject(), ids: [3, 1, 3] });
+      const result = CollectionJson.parse(text, {
+        type: 'object',
+        properties: {
+          byId: { type: 'MapPlus', key: 'number' },
+          ids: { type: 'DoublyLinkedList', item: 'string' },
+        },
+      }) as { byId: MapPlus<number, string>; ids: DoublyLinkedList<string> };
+
+      expect(result.byId.get(1)).toEqual('one');
+      expect(result.ids).toBeInstanceOf(DoublyLinkedList);
+      expect(result.ids.toArray()).toEqual(['3', '1', '3']);
+    });
+
+    it('can convert scalars', function () {
+      expect(CollectionJson.conform('12.5', 'number')).toEqual(12.5);
+      expect(CollectionJson.conform('true', 'boolean')).toEqual(true);
+      expect(CollectionJson.conform(false, 'boolean')).toEqual(false);
+      expect(CollectionJson.conform(7, 'string')).toEqual('7');
+      expect(CollectionJson.conform(0, 'date')).toEqual(new Date(0));
+      expect(CollectionJson.conform([1, '2'], { type: 'array', item: 'number' })).toEqual([1, 2]);
+    });
+
+    it('should throw if the value does not match the schema', function () {
+      expect(() => CollectionJson.conform('abc', 'number')).toThrow('Expected a number but found string abc');
+      expect(() => CollectionJson.conform('', 'number')).toThrow();
+      expect(() => CollectionJson.conform('yes', 'boolean')).toThrow('Expected a boolean but found string yes');
+      expect(() => CollectionJson.conform('soon', 'date')).toThrow('Expected a date but found string soon');
+      expect(() => CollectionJson.conform([], { type: 'MapPlus' })).toThrow(
+        'Expected a map or object but found an array'
+      );
+      expect(() => CollectionJson.conform({}, { type: 'SetPlus' })).toThrow(
+        'Expected a collection but found an object'
+      );
+      expect(() => CollectionJson.conform(null, { type: 'object', properties: {} })).toThrow(
+        'Expected an object but found null'
+      );
+      expect(() => CollectionJson.parse('{', 'number')).toThrow();
+    });
+  });
+});
@@ -0,0 +1,373 @@
+import { BiMap, BiMapConflictPolicy } from './BiMap';
+import { Counter } from './Counter';
+import { DoublyLinkedList, LinkedList } from './LinkedList';
+import { MapPlus } from './MapPlus';
+import { MultiMap, MultiMapBucketType } from './MultiMap';
+import { naturalOrder } from './PriorityQueue';
+import { ReadonlyMapPlus } from './ReadonlyMapPlus';
+import { ReadonlySetPlus } from './ReadonlySetPlus';
+import { RingBuffer, RingBufferOverflow } from './RingBuffer';
+import { SetPlus } from './SetPlus';
+import { SortedMap } from './SortedMap';
+import { SortedSet } from './SortedSet';
+
+/**
+ * The JSON form of a map. The entries are kept as key/value pairs so that keys
+ * which are not strings survive the round trip. The tag names the type of map
+ * so that it is rebuilt as the same type.
+ */
+export interface MapPlusJson {
+  $type: 'MapPlus' | 'ReadonlyMapPlus' | 'SortedMap' | 'Counter' | 'BiMap' | 'MultiMap';
+  entries: [unknown, unknown][];
+}
+
+/**
+ * The JSON form of a bidirectional map, which includes its conflict policy
+ */
+export interface BiMapJson extends MapPlusJson {
+  $type: 'BiMap';
+  policy: BiMapConflictPolicy;
+}
+
+/**
+ * The JSON form of a multimap, which includes its type of bucket. The values
+ * of each key are kept as an array whatever the type of bucket.
+ */
+export interface MultiMapJson extends MapPlusJson {
+  $type: 'MultiMap';
+  bucketType: MultiMapBucketType;
+  entries: [unknown, unknown[]][];
+}
+
+/**
+ * The JSON form of a set or list
+ */
+export interface SequenceJson {
+  $type: 'SetPlus' | 'ReadonlySetPlus' | 'SortedSet' | 'LinkedList' | 'DoublyLinkedList';
+  items: unknown[];
+}
+
+/**
+ * The JSON form of a ring buffer, which includes its options so that it can be
+ * rebuilt with the same capacity and overflow policy
+ */
+export interface RingBufferJson {
+  $type: 'RingBuffer';
+  capacity: number;
+  overflow: RingBufferOverflow;
+  items: unknown[];
+}
+
+/**
+ * The JSON form of any of the collections
+ */
+export type CollectionJsonValue = MapPlusJson | SequenceJson | RingBufferJson;
+
+/**
+ * The scalar types that a value can be converted to when revived using a
+ * schema. JSON has no representation for dates so they are expected to be
+ * strings or numbers accepted by the `Date` constructor.
+ */
+export type ScalarSchema = 'string' | 'number' | 'boolean' | 'date';
+
+/**
+ * Describes the types expected within a JSON value so that values JSON cannot
+ * represent, such as dates, can be restored. Anything not described by the
+ * schema is left as it is.
+ */
+export type CollectionSchema =
+  | ScalarSchema
+  | { type: 'MapPlus'; key?: CollectionSchema; value?: CollectionSchema }
+  | { type: 'SetPlus' | 'LinkedList' | 'DoublyLinkedList'; item?: CollectionSchema }
+  | { type: 'array'; item: CollectionSchema }
+  | { type: 'object'; properties: Record<string, CollectionSchema> };
+
+/**
+ * Support for sending collections as JSON. {@link CollectionJson.stringify}
+ * serialises the collections into a tagged format which
+ * {@link CollectionJson.reviver} recognises when given to `JSON.parse`:
+ *
+ * ```ts
+ * const text = CollectionJson.stringify({ scores: new MapPlus([[1, new LinkedList('a')]]) });
+ * const { scores } = JSON.parse(text, CollectionJson.reviver);
+ * ```
+ *
+ * The maps, sets and ring buffers are also tagged by plain `JSON.stringify`
+ * but the linked lists serialise to plain arrays there, as they always have,
+ * and are only tagged by {@link CollectionJson.stringify} or when
+ * {@link CollectionJson.replacer} is given to `JSON.stringify`.
+ *
+ * Each type of map and set is tagged with its own name so that it is rebuilt
+ * as the same type. Those that depend on functions, such as `IndexedMap`, the
+ * hash collections or sorted collections with a custom comparator, or on
+ * timers, such as `ExpiringMap`, cannot be rebuilt and throw when converted to
+ * JSON.
+ *
+ * Values that JSON cannot represent, such as dates, are restored by giving a
+ * schema to {@link CollectionJson.parse}. A schema also allows collections to
+ * be revived from plain objects and arrays, such as a map converted to an
+ * object using `toObject()`.
+ */
+export class CollectionJson {
+  /**
+   * Convert a value to JSON text with any collections within it in their
+   * tagged form
+   *
+   * @param value - the value to convert
+   * @param space - optional indentation, as accepted by `JSON.stringify`
+   * @returns the JSON text
+   */
+  public static stringify(value: unknown, space?: string | number): string {
+    return JSON.stringify(value, CollectionJson.replacer, space);
+  }
+
+  /**
+   * A replacer for `JSON.stringify` that tags the linked lists, which
+   * otherwise serialise to plain arrays, so that they can be revived. The
+   * other collections are tagged by their own `toJSON`.
+   *
+   * @param key - the key of the value being serialised
+   * @param value - the value being serialised, after any `toJSON` conversion
+   * @returns the tagged list or the value as it was if it is not a list
+   */
+  public static replacer(this: Record<string, unknown>, key: string, value: unknown): unknown {
+    // JSON.stringify applies toJSON before calling the replacer so the list
+    // itself has to be taken from the object holding it
+    const original = this[key];
+    return original instanceof LinkedList
+      ? { $type: original instanceof DoublyLinkedList ? 'DoublyLinkedList' : 'LinkedList', items: value }
+      : value;
+  }
+
+  /**
+   * A reviver for `JSON.parse` that rebuilds collections from their tagged
+   * JSON form, including those nested within other collections
+   *
+   * @param _key - the key of the value being revived
+   * @param value - the value being revived
+   * @returns the collection or the value as it was if it is not a collection
+   */
+  public static reviver(this: void, _key: string, value: unknown): unknown {
+    if (!CollectionJson.isTagged(value)) {
+      return value;
+    }
+
+    switch (value.$type) {
+      case 'MapPlus':
+        return new MapPlus(value.entries);
+      case 'ReadonlyMapPlus':
+        return new ReadonlyMapPlus(value.entries);
+      case 'SortedMap':
+        return new SortedMap(naturalOrder, value.entries);
+      case 'Counter':
+        return new Counter().merge(new Map(value.entries as [unknown, number][]));
+      case 'BiMap': {
+        const { policy, entries } = value as BiMapJson;
+        return new BiMap(policy, entries);
+      }
+      case 'MultiMap': {
+        const { bucketType, entries } = value as MultiMapJson;
+        const map = bucketType === 'set' ? MultiMap.ofSets() : MultiMap.ofArrays();
+        for (const [key, values] of entries) {
+          map.addAll(key, values);
+        }
+        return map;
+      }
+      case 'SetPlus':
+        return new SetPlus(value.items);
+      case 'ReadonlySetPlus':
+        return new ReadonlySetPlus(value.items);
+      case 'SortedSet':
+        return new SortedSet(naturalOrder, value.items);
+      case 'LinkedList':
+        return LinkedList.from(value.items);
+      case 'DoublyLinkedList':
+        return DoublyLinkedList.from(value.items);
+      case 'RingBuffer':
+        return new RingBuffer({ capacity: value.capacity, overflow: value.overflow }, value.items);
+    }
+  }
+
+  /**
+   * Parse JSON text, reviving any collections within it and, if a schema is
+   * given, converting the result to the types it describes
+   *
+   * @param text - the JSON text
+   * @param schema - optional schema describing the expected types
+   * @returns the parsed value
+   * @throws Error if the text is not valid JSON or does not match the schema
+   */
+  public static parse(text: string, schema?: CollectionSchema): unknown {
+    const value = JSON.parse(text, CollectionJson.reviver);
+    return schema === undefined ? value : CollectionJson.conform(value, schema);
+  }
+
+  /**
+   * Convert a parsed value to the types described by a schema
+   *
+   * @param value - the parsed value
+   * @param schema - the schema describing the expected types
+   * @returns the converted value
+   * @throws Error if the value does not match the schema
+   */
+  public static conform(value: unknown, schema: CollectionSchema): unknown {
+    if (typeof schema === 'string') {
+      return CollectionJson.conformScalar(value, schema);
+    }
+
+    switch (schema.type) {
+      case 'MapPlus': {
+        if (!(value instanceof Map) && (typeof value !== 'object' || value === null || Array.isArray(value))) {
+          throw new Error(`Expected a map or object but found ${CollectionJson.describe(value)}`);
+        }
+        const entries = value instanceof Map ? Array.from(value) : Object.entries(value);
+        return new MapPlus(
+          entries.map(([key, entryValue]) => [
+            CollectionJson.conformOptional(key, schema.key),
+            CollectionJson.conformOptional(entryValue, schema.value),
+          ])
+        );
+      }
+
+      case 'SetPlus':
+      case 'LinkedList':
+      case 'DoublyLinkedList':
+      case 'array': {
+        if (!Array.isArray(value) && !(value instanceof SetPlus) && !(value instanceof LinkedList)) {
+          throw new Error(`Expected a collection but found ${CollectionJson.describe(value)}`);
+        }
+        const items = Array.from(value as Iterable<unknown>, (item) =>
+          CollectionJson.conformOptional(item, schema.item)
+        );
+        return schema.type === 'SetPlus'
+          ? new SetPlus(items)
+          : schema.type === 'LinkedList'
+          ? LinkedList.from(items)
+          : schema.type === 'DoublyLinkedList'
+          ? DoublyLinkedList.from(items)
+          : items;
+      }
+
+      case 'object': {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          throw new Error(`Expected an object but found ${CollectionJson.describe(value)}`);
+        }
+        const result: Record<string, unknown> = { ...value };
+        for (const [property, propertySchema] of Object.entries(schema.properties)) {
+          if (result[property] !== undefined) {
+            result[property] = CollectionJson.conform(result[property], propertySchema);
+          }
+        }
+        return result;
+      }
+    }
+  }
+
+  /**
+   * Convert a parsed value to the types described by a schema if there is one
+   *
+   * @param value - the parsed value
+   * @param schema - optional schema describing the expected types
+   * @returns the converted value or the value as it was if there is no schema
+   * @throws Error if the value does not match the schema
+   */
+  protected static conformOptional(value: unknown, schema?: CollectionSchema): unknown {
+    return schema === undefined ? value : CollectionJson.conform(value, schema);
+  }
+
+  /**
+   * Convert a parsed value to a scalar type
+   *
+   * @param value - the parsed value
+   * @param schema - the required type
+   * @returns the converted value
+   * @throws Error if the value cannot be converted
+   */
+  protected static conformScalar(value: unknown, schema: ScalarSchema): unknown {
+    switch (schema) {
+      case 'string':
+        return typeof value === 'string' ? value : String(value);
+
+      case 'number': {
+        const result = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+        if (typeof result !== 'number' || Number.isNaN(result)) {
+          throw new Error(`Expected a number but found ${CollectionJson.describe(value)}`);
+        }
+        return result;
+      }
+
+      case 'boolean':
+        if (value === true || value === 'true') {
+          return true;
+        }
+        if (value === false || value === 'false') {
+          return false;
+        }
+        throw new Error(`Expected a boolean but found ${CollectionJson.describe(value)}`);
+
+      case 'date': {
+        const result =
+          value instanceof Date
+            ? value
+            : typeof value === 'string' || typeof value === 'number'
+            ? new Date(value)
+            : null;
+        if (result === null || Number.isNaN(result.getTime())) {
+          throw new Error(`Expected a date but found ${CollectionJson.describe(value)}`);
+        }
+        return result;
+      }
+    }
+  }
+
+  /**
+   * Determine if a value is a collection in its tagged JSON form
+   *
+   * @param value - the value to check
+   * @returns true if the value is a tagged collection
+   */
+  protected static isTagged(value: unknown): value is CollectionJsonValue {
+    if (typeof value !== 'object' || value === null) {
+      return false;
+    }
+
+    const { $type, entries, items, capacity, policy, bucketType } = value as Record<string, unknown>;
+    switch ($type) {
+      case 'MapPlus':
+      case 'ReadonlyMapPlus':
+      case 'SortedMap':
+      case 'Counter':
+        return Array.isArray(entries);
+      case 'BiMap':
+        return (policy === 'throw' || policy === 'replace') && Array.isArray(entries);
+      case 'MultiMap':
+        return (bucketType === 'array' || bucketType === 'set') && Array.isArray(entries);
+      case 'SetPlus':
+      case 'ReadonlySetPlus':
+      case 'SortedSet':
+      case 'LinkedList':
+      case 'DoublyLinkedList':
+        return Array.isArray(items);
+      case 'RingBuffer':
+        return typeof capacity === 'number' && Array.isArray(items);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Describe a value for use in an error message
+   *
+   * @param value - the value to describe
+   * @returns the description
+   */
+  protected static describe(value: unknown): string {
+    if (value === null || value === undefined) {
+      return String(value);
+    }
+    if (typeof value === 'object') {
+      return Array.isArray(value) ? 'an array' : 'an object';
+    }
+    return `${typeof value} ${String(value)}`;
+  }
+}
@@ -0,0 +1,164 @@
+import { Counter } from './Counter';
+
+describe('Counter Tests', function () {
+  function words(text: string): Counter<string> {
+    return new Counter(text.split(' '));
+  }
+
+  describe('counting', function () {
+    it('can count the keys of any iterable', function () {
+      const counter = words('a b a c a b');
+      expect(counter.toObject()).toEqual({ a: 3, b: 2, c: 1 });
+      expect(counter.total()).toBe(6);
+      expect(new Counter('hello').count('l')).toBe(2);
+      expect(new Counter().empty()).toBe(true);
+    });
+
+    it('should give a count of zero for absent keys', function () {
+      const counter = words('a');
+      expect(counter.count('z')).toBe(0);
+      expect(counter.get('z')).not.toBeDefined();
+    });
+
+    it('can increment and decrement counts', function () {
+      const counter = new Counter<string>().increment('a').increment('a', 4).increment('b');
+      expect(counter.toObject()).toEqual({ a: 5, b: 1 });
+      expect(counter.total()).toBe(6);
+
+      counter.decrement('a', 2).decrement('b');
+      expect(counter.toObject()).toEqual({ a: 3 });
+      expect(counter.total()).toBe(3);
+    });
+
+    it('should remove keys whose count is no longer positive', function () {
+      const counter = words('a a b');
+      counter.decrement('a', 5).decrement('z').set('b', 0);
+      expect(counter.has('a')).toBe(false);
+      expect(counter.has('b')).toBe(false);
+      expect(counter.has('z')).toBe(false);
+      expect(counter.empty()).toBe(true);
+      expect(counter.total()).toBe(0);
+    });
+
+    it('should keep the total up to date', function () {
+      const counter = words('a a b c');
+      counter.set('a', 10);
+      expect(counter.total()).toBe(12);
+      counter.delete('b');
+      expect(counter.total()).toBe(11);
+      expect(counter.eject('c')).toBe(1);
+      expect(counter.total()).toBe(10);
+      counter.clear();
+      expect(counter.total()).toBe(0);
+    });
+
+    it('can notify listeners of changes', function () {
+      const counter = words('a');
+      const listener = jest.fn();
+      counter.subscribe(listener);
+
+      counter.increment('a');
+      expect(listener).toHaveBeenLastCalledWith([{ type: 'set', key: 'a', oldValue: 1, newValue: 2 }]);
+      counter.decrement('a', 2);
+      expect(listener).toHaveBeenLastCalledWith([{ type: 'delete', key: 'a', oldValue: 2 }]);
+    });
+  });
+
+  describe('mostCommon', function () {
+    it('can rank all of the keys', function () {
+      expect(words('c b a b a a').mostCommon()).toEqual([
+        ['a', 3],
+        ['b', 2],
+        ['c', 1],
+      ]);
+    });
+
+    it('can find the top keys', function () {
+      const counter = words('a b b c c c d d d d e');
+      expect(counter.mostCommon(2)).toEqual([
+        ['d', 4],
+        ['c', 3],
+      ]);
+      expect(counter.mostCommon(1)).toEqual([['d', 4]]);
+      expect(counter.mostCommon(0)).toEqual([]);
+      expect(counter.mostCommon(10)).toHaveLength(5);
+    });
+
+    it('should rank ties in the order the keys were first counted', function () {
+      const counter = words('x y z w z y x w v');
+      expect(counter.mostCommon(3)).toEqual([
+        ['x', 2],
+        ['y', 2],
+        ['z', 2],
+      ]);
+      expect(counter.mostCommon().map(([key]) => key)).toEqual(['x', 'y', 'z', 'w', 'v']);
+    });
+
+    it('should agree with sorting for large counters', function () {
+      const counter = new Counter<number>();
+      for (let key = 0; key < 1000; ++key) {
+        counter.set(key, (key * 7919) % 101);
+      }
+      expect(counter.mostCommon(25)).toEqual(counter.mostCommon().slice(0, 25));
+    });
+  });
+
+  describe('arithmetic', function () {
+    const first = words('a a a b b c');
+    const second = words('a b b b d');
+
+    it('can add counters', function () {
+      expect(first.add(second).toObject()).toEqual({ a: 4, b: 5, c: 1, d: 1 });
+      expect(first.add(new Map([['c', 2]])).toObject()).toEqual({ a: 3, b: 2, c: 3 });
+    });
+
+    it('can subtract counters', function () {
+      const result = first.subtract(second);
+      expect(result.toObject()).toEqual({ a: 2, c: 1 });
+      expect(result.total()).toBe(3);
+    });
+
+    it('can intersect counters', function () {
+      expect(first.intersect(second).toObject()).toEqual({ a: 1, b: 2 });
+    });
+
+    it('can union counters', function () {
+      expect(first.union(second).toObject()).toEqual({ a: 3, b: 3, c: 1, d: 1 });
+    });
+
+    it('should not modify the original counters', function () {
+      first.add(second).subtract(second).union(second).intersect(second);
+      expect(first.toObject()).toEqual({ a: 3, b: 2, c: 1 });
+      expect(second.toObject()).toEqual({ a: 1, b: 3, d: 1 });
+    });
+  });
+
+  describe('helpers', function () {
+    const counter = words('a a a b b c');
+
+    it('can clone a counter', function () {
+      const clone = counter.clone();
+      expect(clone).toBeInstanceOf(Counter);
+      expect(clone).not.toBe(counter);
+      expect(clone.toObject()).toEqual(counter.toObject());
+      expect(clone.total()).toBe(6);
+    });
+
+    it('can create subsets that are counters', function () {
+      const subset = counter.subset(['a', 'c', 'z']);
+      expect(subset).toBeInstanceOf(Counter);
+      expect(subset.toObject()).toEqual({ a: 3, c: 1 });
+      expect(subset.total()).toBe(4);
+    });
+
+    it('can filter by key and count', function () {
+      const byKey = counter.keyFilter((key) => key !== 'a');
+      expect(byKey).toBeInstanceOf(Counter);
+      expect(byKey.toObject()).toEqual({ b: 2, c: 1 });
+
+      const byCount = counter.valueFilter((count) => count > 1);
+      expect(byCount).toBeInstanceOf(Counter);
+      expect(byCount.total()).toBe(5);
+    });
+  });
+});
@@ -0,0 +1,293 @@
+import type { MapPlusJson } from './CollectionJson';
+import { MapPlus } from './MapPlus';
+import { PriorityQueue } from './PriorityQueue';
+
+/**
+ * A `MapPlus` that counts occurrences of keys, such as events by type or words
+ * in a document. Only keys with a positive count are kept, so a key is removed
+ * as soon as its count drops to zero or below and looking up an absent key with
+ * `count` gives zero. The full `MapPlus` API is available, with helpers such
+ * as `subset` and `keyFilter` producing counters.
+ *
+ * ```ts
+ * const statuses = new Counter(responses.map((response) => response.status));
+ * const [[status, count]] = statuses.mostCommon(1);
+ * ```
+ *
+ * @typeParam K - the type of element being counted
+ */
+export class Counter<K> extends MapPlus<K, number> {
+  // The sum of the counts, kept up to date as counts change
+  protected sum = 0;
+
+  /**
+   * Constructor
+   *
+   * @typeParam K - the type of element being counted
+   * @param keys - optional keys to count, where each occurrence of a key adds
+   * one to its count
+   */
+  public constructor(keys?: Iterable<K>) {
+    super();
+    if (keys !== undefined) {
+      for (const key of keys) {
+        this.increment(key);
+      }
+    }
+  }
+
+  /**
+   * Set the count of a key, removing the key if the count is not positive
+   *
+   * @typeParam K - the type of element being counted
+   * @param key - the key to set
+   * @param count - the count of the key
+   * @returns this instance for chaining
+   */
+  public set(key: K, count: number): this {
+    if (!(count > 0)) {
+      this.delete(key);
+      return this;
+    }
+
+    this.sum += count - (super.get(key) ?? 0);
+    return super.set(key, count);
+  }
+
+  /**
+   * Remove a key from the counter
+   *
+   * @typeParam K - the type of element being counted
+   * @param key - the key to remove
+   * @returns true if the key was present
+   */
+  public delete(key: K): boolean {
+    this.sum -= super.get(key) ?? 0;
+    return super.delete(key);
+  }
+
+  /**
+   * Remove all keys from the counter
+   */
+  public clear() {
+    this.sum = 0;
+    super.clear();
+  }
+
+  /**
+   * Get the count of a key
+   *
+   * @typeParam K - the type of element being counted
+   * @param key - the key to get
+   * @returns the count of the key or zero if it is not present
+   */
+  public count(key: K): number {
+    return super.get(key) ?? 0;
+  }
+
+  /**
+   * Increase the count of a key
+   *
+   * @typeParam K - the type of element being counted
+   * @param key - the key to increment
+   * @param by - the amount to add to the count
+   * @returns this instance for chaining
+   */
+  public increment(key: K, by = 1): this {
+    return this.set(key, this.count(key) + by);
+  }
+
+  /**
+   * Decrease the count of a key, removing the key if its count is no longer
+   * positive
+   *
+   * @typeParam K - the type of element being counted
+   * @param key - the key to decrement
+   * @param by - the amount to subtract from the count
+   * @returns this instance for chaining
+   */
+  public decrement(key: K, by = 1): this {
+    return this.set(key, this.count(key) - by);
+  }
+
+  /**
+   * Get the sum of the counts of all keys
+   *
+   * @returns the total count
+   */
+  public total(): number {
+    return this.sum;
+  }
+
+  /**
+   * Get the keys with the highest counts, from the most common to the least.
+   * Keys with the same count are given in the order they were first counted.
+   * Only the requested number of entries are ranked so finding the top few
+   * keys of a large counter takes O(size * log n).
+   *
+   * @typeParam K - the type of element being counted
+   * @param n - the number of keys to return, defaulting to all of them
+   * @returns the keys and their counts
+   */
+  public mostCommon(n = this.size): [K, number][] {
+    if (n <= 0) {
+      return [];
+    } else if (n >= this.size) {
+      return Array.from(this).sort((a, b) => b[1] - a[1]);
+    }
+
+    // The heap holds the most common entries seen so far as [key, count,
+    // position] with the least common at the top, ties going to the entry
+    // counted last
+    const heap = new PriorityQueue<[K, number, number]>((a, b) => a[1] - b[1] || b[2] - a[2]);
+    let position = 0;
+    for (const [key, count] of this) {
+      if (heap.length() < n) {
+        heap.push([key, count, position]);
+      } else if (count > (heap.peek() as [K, number, number])[1]) {
+        heap.pop();
+        heap.push([key, count, position]);
+      }
+      ++position;
+    }
+
+    const result: [K, number][] = [];
+    for (let entry = heap.pop(); entry !== undefined; entry = heap.pop()) {
+      result.push([entry[0], entry[1]]);
+    }
+    return result.reverse();
+  }
+
+  /**
+   * Create a counter holding the sum of the counts of this counter and another
+   *
+   * @typeParam K - the type of element being counted
+   * @param other - the other counts
+   * @returns the new counter
+   */
+  public add(other: Map<K, number>): Counter<K> {
+    const result = this.clone();
+    for (const [key, count] of other) {
+      result.increment(key, count);
+    }
+    return result;
+  }
+
+  /**
+   * Create a counter holding the counts of this counter less those of another,
+   * keeping only the keys whose count remains positive
+   *
+   * @typeParam K - the type of element being counted
+   * @param other - the counts to subtract
+   * @returns the new counter
+   */
+  public subtract(other: Map<K, number>): Counter<K> {
+    const result = this.clone();
+    for (const [key, count] of other) {
+      result.decrement(key, count);
+    }
+    return result;
+  }
+
+  /**
+   * Create a counter holding the minimum count of each key in both this
+   * counter and another
+   *
+   * @typeParam K - the type of element being counted
+   * @param other - the other counts
+   * @returns the new counter
+   */
+  public intersect(other: Map<K, number>): Counter<K> {
+    const result = new Counter<K>();
+    for (const [key, count] of this) {
+      result.set(key, Math.min(count, other.get(key) ?? 0));
+    }
+    return result;
+  }
+
+  /**
+   * Create a counter holding the maximum count of each key in either this
+   * counter or another
+   *
+   * @typeParam K - the type of element being counted
+   * @param other - the other counts
+   * @returns the new counter
+   */
+  public union(other: Map<K, number>): Counter<K> {
+    const result = this.clone();
+    for (const [key, count] of other) {
+      count > result.count(key) && result.set(key, count);
+    }
+    return result;
+  }
+
+  /**
+   * Create a shallow clone of this counter
+   *
+   * @typeParam K - the type of element being counted
+   * @returns a new counter containing the same counts as this instance
+   */
+  public clone(): Counter<K> {
+    return this.keyFilter(() => true);
+  }
+
+  /**
+   * Create a subset of the counter that only contains the keys in the given
+   * collection
+   *
+   * @typeParam K - the type of element being counted
+   * @param keys - the keys to keep
+   * @returns the subset as a counter
+   */
+  public subset(keys: Iterable<K>): Counter<K> {
+    const result = new Counter<K>();
+    for (const key of keys) {
+      result.set(key, this.count(key));
+    }
+    return result;
+  }
+
+  /**
+   * Create a counter containing only those keys that pass the given filter
+   *
+   * @typeParam K - the type of element being counted
+   * @param filter - a function returning a truthy value for any key that passes
+   * the filter
+   * @returns the filtered counter
+   */
+  public keyFilter(filter: (key: K) => any): Counter<K> {
+    const result = new Counter<K>();
+    for (const [key, count] of this) {
+      filter(key) && result.set(key, count);
+    }
+    return result;
+  }
+
+  /**
+   * Create a counter containing only those keys whose count passes the given
+   * filter
+   *
+   * @typeParam K - the type of element being counted
+   * @param filter - a function returning a truthy value for any count that
+   * passes the filter
+   * @returns the filtered counter
+   */
+  public valueFilter(filter: (count: number) => any): Counter<K> {
+    const result = new Counter<K>();
+    for (const [key, count] of this) {
+      filter(count) && result.set(key, count);
+    }
+    return result;
+  }
+
+  /**
+   * Convert the counter into its JSON equivalent, tagged so that
+   * `CollectionJson.reviver` can rebuild the counter
+   *
+   * @typeParam K - the type of element being counted
+   * @returns the JSON equivalent
+   */
+  public toJSON(): MapPlusJson {
+    return { $type: 'Counter', entries: Array.from(this) };
+  }
+}
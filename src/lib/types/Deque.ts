@@ -0,0 +1,77 @@
+/**
+ * A double-ended queue, that is, a sequence of items that can be added to and
+ * removed from either end. Implemented by `LinkedList`, `DoublyLinkedList` and
+ * `RingBuffer` so that code can be written against any of them. The cost of
+ * each operation depends on the implementation, so see the documentation of
+ * each one.
+ *
+ * @typeParam T - the type of items in the queue
+ */
+export interface Deque<T> extends Iterable<T> {
+  /**
+   * Get the number of items in the queue
+   *
+   * @returns the number of items in the queue
+   */
+  length(): number;
+
+  /**
+   * Called to see if the queue is empty
+   *
+   * @returns true if the queue is empty
+   */
+  empty(): boolean;
+
+  /**
+   * Return the first item in the queue without removing it
+   *
+   * @returns the first item or undefined if the queue is empty
+   */
+  first(): T | undefined;
+
+  /**
+   * Return the last item in the queue without removing it
+   *
+   * @returns the last item or undefined if the queue is empty
+   */
+  last(): T | undefined;
+
+  /**
+   * Add one or more items to the end of the queue
+   *
+   * @param item - the first item to be added
+   * @param others - the other items to add
+   * @returns this instance to allow for chaining
+   */
+  push(item: T, ...others: T[]): this;
+
+  /**
+   * Add one or more items to the start of the queue
+   *
+   * @param item - the first item to be added
+   * @param others - the other items to add
+   * @returns this instance to allow for chaining
+   */
+  unshift(item: T, ...others: T[]): this;
+
+  /**
+   * Remove the first item in the queue
+   *
+   * @returns the item removed or undefined if the queue is empty
+   */
+  shift(): T | undefined;
+
+  /**
+   * Remove the last item in the queue
+   *
+   * @returns the item removed or undefined if the queue is empty
+   */
+  pop(): T | undefined;
+
+  /**
+   * Return an iterator over the items from the last to the first
+   *
+   * @returns the iterator
+   */
+  riterator(): IterableIterator<T>;
+}
@@ -0,0 +1,137 @@
+import { ExpiringMap } from './ExpiringMap';
+
+describe('ExpiringMap Tests', function () {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(function () {
+    now = 1000;
+  });
+
+  describe('expiry', function () {
+    it('should expire entries after the default time-to-live', function () {
+      const map = new ExpiringMap<string, number>({ defaultTtl: 100, clock });
+      map.set('one', 1);
+
+      now += 99;
+      expect(map.get('one')).toEqual(1);
+      expect(map.has('one')).toEqual(true);
+
+      now += 1;
+      expect(map.get('one')).not.toBeDefined();
+      expect(map.has('one')).toEqual(false);
+      expect(map.empty()).toEqual(true);
+    });
+
+    it('can override the time-to-live of an entry', function () {
+      const map = new ExpiringMap<string, number>({ defaultTtl: 100, clock });
+      map.set('one', 1).set('two', 2, 500);
+
+      now += 200;
+      expect(map.get('one')).not.toBeDefined();
+      expect(map.get('two')).toEqual(2);
+      expect(map.remainingTtl('two')).toEqual(300);
+      expect(map.remainingTtl('one')).not.toBeDefined();
+    });
+
+    it('should exclude expired entries from the size and iteration', function () {
+      const map = new ExpiringMap<string, number>({ defaultTtl: 100, clock });
+      map.set('one', 1).set('two', 2, 50).set('three', 3, 200);
+      expect(map.size).toEqual(3);
+
+      now += 100;
+      expect(map.size).toEqual(1);
+      expect(map.keyList()).toEqual(['three']);
+      expect(Array.from(map)).toEqual([['three', 3]]);
+      expect(map.toObject()).toEqual({ three: 3 });
+    });
+
+    it('can extend the life of an entry', function () {
+      const map = new ExpiringMap<string, number>({ defaultTtl: 100, clock });
+      map.set('one', 1);
+
+      now += 50;
+      expect(map.touch('one')).toEqual(true);
+      now += 75;
+      expect(map.get('one')).toEqual(1);
+
+      expect(map.touch('one', 10)).toEqual(true);
+      now += 10;
+      expect(map.touch('one')).toEqual(false);
+      expect(map.touch('two')).toEqual(false);
+    });
+  });
+
+  describe('listeners', function () {
+    it('should notify listeners when entries expire', function () {
+      const expired: [string, number][] = [];
+      const listener = (key: string, value: number) => expired.push([key, value]);
+      const map = new ExpiringMap<string, number>({ defaultTtl: 100, clock }).onExpire(listener);
+      map.set('one', 1).set('two', 2).set('three', 3, 500);
+
+      now += 100;
+      expect(map.purgeExpired()).toEqual(2);
+      expect(expired).toEqual([
+        ['one', 1],
+        ['two', 2],
+      ]);
+
+      map.offExpire(listener);
+      now += 400;
+      expect(map.purgeExpired()).toEqual(1);
+      expect(expired.length).toEqual(2);
+    });
+
+    it('should not notify listeners of explicit removals', function () {
+      const listener = jest.fn();
+      const map = new ExpiringMap<string, number>({ defaultTtl: 100, clock }).onExpire(listener);
+      map.set('one', 1).set('two', 2);
+
+      map.delete('one');
+      map.clear();
+      now += 100;
+      expect(map.purgeExpired()).toEqual(0);
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sweeping', function () {
+    beforeEach(function () {
+      jest.useFakeTimers();
+    });
+
+    afterEach(function () {
+      jest.useRealTimers();
+    });
+
+    it('should periodically remove expired entries', function () {
+      const listener = jest.fn();
+      const map = new ExpiringMap<string, number>({ defaultTtl: 100, sweepInterval: 50, clock });
+      map.onExpire(listener).set('one', 1);
+
+      now += 100;
+      jest.advanceTimersByTime(50);
+      expect(listener).toHaveBeenCalledWith('one', 1);
+
+      map.stopSweep();
+      map.set('two', 2);
+      now += 100;
+      jest.advanceTimersByTime(50);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should clear the sweep timer when stopped', function () {
+      const clearSpy = jest.spyOn(global, 'clearInterval');
+      const map = new ExpiringMap<string, number>({ defaultTtl: 100, sweepInterval: 50, clock });
+      expect(jest.getTimerCount()).toEqual(1);
+
+      map.stopSweep();
+      expect(clearSpy).toHaveBeenCalledTimes(1);
+      expect(jest.getTimerCount()).toEqual(0);
+
+      map.stopSweep();
+      expect(clearSpy).toHaveBeenCalledTimes(1);
+      clearSpy.mockRestore();
+    });
+  });
+});
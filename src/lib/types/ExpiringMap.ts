@@ -0,0 +1,330 @@
+import { MapPlus } from './MapPlus';
+
+/**
+ * A function called when an entry in an expiring map expires
+ *
+ * @typeParam K - the type of element used as the key in the map
+ * @typeParam V - the type of element used as the value in the map
+ */
+export type ExpireListener<K, V> = (key: K, value: V) => void;
+
+/**
+ * The options used to configure an expiring map
+ */
+export interface ExpiringMapOptions {
+  // The default number of milliseconds an entry lives for once set
+  defaultTtl: number;
+
+  // If provided, the number of milliseconds between background sweeps that
+  // remove expired entries. Without it, entries are only expired as they are
+  // read. The sweep timer holds on to the map, so `stopSweep()` must be called
+  // once the map is no longer needed or it is never garbage collected.
+  sweepInterval?: number;
+
+  // The clock used to get the current time in milliseconds. Defaults to
+  // `Date.now` but can be replaced to control time in tests.
+  clock?: () => number;
+}
+
+/**
+ * A map whose entries expire after a time-to-live. Entries are expired lazily
+ * as they are read and, optionally, by a background sweep. The timer used for
+ * sweeping is `unref()`'d so that it does not keep the process alive, but it
+ * still refers to the map and keeps it from being garbage collected. Call
+ * `stopSweep()` when discarding a map created with a `sweepInterval`.
+ *
+ * @typeParam K - the type of element used as the key in the map
+ * @typeParam V - the type of element used as the value in the map
+ */
+export class ExpiringMap<K, V> extends MapPlus<K, V> {
+  // The time at which each key expires
+  protected expiries: Map<K, number> = new Map();
+
+  // A lower bound on the earliest expiry time of all entries. There is no need
+  // to scan for expired entries before this time.
+  protected nextExpiry = Infinity;
+
+  // The listeners to notify when an entry expires
+  protected expireListeners: ExpireListener<K, V>[] = [];
+
+  // The default time-to-live for entries
+  protected readonly defaultTtl: number;
+
+  // The clock used to get the current time
+  protected readonly clock: () => number;
+
+  // The timer used for background sweeping, if any
+  protected sweepTimer?: ReturnType<typeof setInterval>;
+
+  /**
+   * Constructor
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param options - the options for the map
+   */
+  public constructor(options: ExpiringMapOptions) {
+    super();
+    this.defaultTtl = options.defaultTtl;
+    this.clock = options.clock ?? Date.now;
+
+    if (options.sweepInterval !== undefined) {
+      this.sweepTimer = setInterval(() => this.purgeExpired(), options.sweepInterval);
+      this.sweepTimer.unref();
+    }
+  }
+
+  /**
+   * Get the number of unexpired entries in the map
+   *
+   * @returns the number of entries
+   */
+  public get size(): number {
+    this.purgeExpired();
+    return super.size;
+  }
+
+  /**
+   * Set the value of a key, resetting its time-to-live
+   *
+   * @param key - the key to set
+   * @param value - the value of the key
+   * @param ttl - the number of milliseconds the entry lives for, overriding the
+   * default time-to-live
+   * @returns this instance for chaining
+   */
+  public set(key: K, value: V, ttl: number = this.defaultTtl): this {
+    super.set(key, value);
+    this.setExpiry(key, ttl);
+    return this;
+  }
+
+  /**
+   * Get the value of a key, expiring it first if its time is up
+   *
+   * @param key - the key to get
+   * @returns the value of the key or undefined if it is absent or has expired
+   */
+  public get(key: K): V | undefined {
+    return this.expireIfDue(key) ? undefined : super.get(key);
+  }
+
+  /**
+   * Determine if the map contains an unexpired entry for a key
+   *
+   * @param key - the key to check
+   * @returns true if the key is present and has not expired
+   */
+  public has(key: K): boolean {
+    return !this.expireIfDue(key) && super.has(key);
+  }
+
+  /**
+   * Remove a key from the map. Listeners are not notified since this is an
+   * explicit removal rather than an expiry.
+   *
+   * @param key - the key to remove
+   * @returns true if the key was present
+   */
+  public delete(key: K): boolean {
+    this.expiries.delete(key);
+    return super.delete(key);
+  }
+
+  /**
+   * Remove all entries from the map
+   */
+  public clear() {
+    this.expiries.clear();
+    this.nextExpiry = Infinity;
+    super.clear();
+  }
+
+  /**
+   * Extend the life of an entry by resetting its time-to-live
+   *
+   * @param key - the key of the entry to extend
+   * @param ttl - the number of milliseconds the entry now lives for
+   * @returns true if the entry was present and unexpired
+   */
+  public touch(key: K, ttl: number = this.defaultTtl): boolean {
+    if (!this.has(key)) {
+      return false;
+    }
+
+    this.setExpiry(key, ttl);
+    return true;
+  }
+
+  /**
+   * Get the number of milliseconds an entry has left to live
+   *
+   * @param key - the key of the entry
+   * @returns the remaining milliseconds or undefined if the key is absent or
+   * has expired
+   */
+  public remainingTtl(key: K): number | undefined {
+    const expiry = this.expiries.get(key);
+    return expiry === undefined || this.expireIfDue(key) ? undefined : expiry - this.clock();
+  }
+
+  /**
+   * Register a listener to be notified when an entry expires
+   *
+   * @param listener - the listener to add
+   * @returns this instance for chaining
+   */
+  public onExpire(listener: ExpireListener<K, V>): this {
+    this.expireListeners.push(listener);
+    return this;
+  }
+
+  /**
+   * Remove a previously registered expiry listener
+   *
+   * @param listener - the listener to remove
+   * @returns this instance for chaining
+   */
+  public offExpire(listener: ExpireListener<K, V>): this {
+    this.expireListeners = this.expireListeners.filter((existing) => existing !== listener);
+    return this;
+  }
+
+  /**
+   * Remove all expired entries from the map, notifying the listeners of each
+   *
+   * @returns the number of entries that expired
+   */
+  public purgeExpired(): number {
+    // Nothing can have expired before the earliest expiry time
+    const now = this.clock();
+    if (now < this.nextExpiry) {
+      return 0;
+    }
+
+    // Expire anything that is due and work out the new earliest expiry time
+    let expired = 0;
+    this.nextExpiry = Infinity;
+    for (const [key, expiry] of this.expiries) {
+      if (expiry <= now) {
+        this.expire(key);
+        ++expired;
+      } else {
+        this.nextExpiry = Math.min(this.nextExpiry, expiry);
+      }
+    }
+    return expired;
+  }
+
+  /**
+   * Stop the background sweep, if one is running. This must be called before
+   * discarding a map that sweeps, since the timer otherwise keeps it alive.
+   */
+  public stopSweep() {
+    if (this.sweepTimer !== undefined) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+  }
+
+  /**
+   * Invoke a given function for each unexpired entry in the map
+   *
+   * @param body - the function to invoke
+   * @param thisArg - the value to use as `this` when invoking the function
+   */
+  public forEach(body: (value: V, key: K, map: Map<K, V>) => void, thisArg?: any) {
+    this.purgeExpired();
+    super.forEach(body, thisArg);
+  }
+
+  /**
+   * Return an iterator over the unexpired entries in the map
+   *
+   * @returns the iterator
+   */
+  public entries(): IterableIterator<[K, V]> {
+    this.purgeExpired();
+    return super.entries();
+  }
+
+  /**
+   * Return an iterator over the unexpired keys in the map
+   *
+   * @returns the iterator
+   */
+  public keys(): IterableIterator<K> {
+    this.purgeExpired();
+    return super.keys();
+  }
+
+  /**
+   * Return an iterator over the unexpired values in the map
+   *
+   * @returns the iterator
+   */
+  public values(): IterableIterator<V> {
+    this.purgeExpired();
+    return super.values();
+  }
+
+  /**
+   * Return an iterator over the unexpired entries in the map
+   *
+   * @returns the iterator
+   */
+  public [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.entries();
+  }
+
+  /**
+   * Conversion to JSON is not supported since the expiry of its entries cannot
+   * be serialised
+   *
+   * @throws Error always
+   */
+  public toJSON(): never {
+    throw new Error('Cannot convert an ExpiringMap to JSON since the expiry of its entries cannot be serialised');
+  }
+
+  /**
+   * Set the time at which a key expires
+   *
+   * @param key - the key of the entry
+   * @param ttl - the number of milliseconds the entry lives for
+   */
+  protected setExpiry(key: K, ttl: number) {
+    const expiry = this.clock() + ttl;
+    this.expiries.set(key, expiry);
+    this.nextExpiry = Math.min(this.nextExpiry, expiry);
+  }
+
+  /**
+   * Expire a key if its time is up
+   *
+   * @param key - the key to check
+   * @returns true if the key was expired
+   */
+  protected expireIfDue(key: K): boolean {
+    const expiry = this.expiries.get(key);
+    if (expiry === undefined || expiry > this.clock()) {
+      return false;
+    }
+
+    this.expire(key);
+    return true;
+  }
+
+  /**
+   * Remove a key from the map and notify the listeners of its expiry
+   *
+   * @param key - the key to expire
+   */
+  protected expire(key: K) {
+    const value = super.get(key) as V;
+    this.delete(key);
+    for (const listener of this.expireListeners) {
+      listener(key, value);
+    }
+  }
+}
@@ -0,0 +1,486 @@
+/**
+ * A minimal hash array mapped trie (HAMT) used as the backing store of the
+ * persistent collections. Nodes are never modified once created. Adding or
+ * removing an entry copies only the nodes on the path to that entry, so the
+ * new trie shares the rest of its structure with the old one.
+ *
+ * Keys are compared using the same semantics as `Map`, that is, SameValueZero.
+ */
+
+// The number of hash bits consumed at each level of the trie
+const BITS_PER_LEVEL = 5;
+
+// The mask to extract the hash bits for a single level
+const LEVEL_MASK = (1 << BITS_PER_LEVEL) - 1;
+
+/**
+ * An entry stored in the trie
+ *
+ * @typeParam K - the type of element used as the key
+ * @typeParam V - the type of element used as the value
+ */
+export interface HamtEntry<K, V> {
+  // The key of the entry
+  readonly key: K;
+
+  // The value of the entry
+  readonly value: V;
+
+  // The hash of the key
+  readonly hash: number;
+}
+
+/**
+ * An interior node of the trie whose children are indexed by a bitmap of the
+ * hash fragments present at its level.
+ *
+ * @typeParam K - the type of element used as the key
+ * @typeParam V - the type of element used as the value
+ */
+interface BitmapNode<K, V> {
+  readonly kind: 'bitmap';
+
+  // A bit is set for each hash fragment that has a child
+  readonly bitmap: number;
+
+  // The children in order of their hash fragment
+  readonly children: ReadonlyArray<HamtEntry<K, V> | HamtNode<K, V>>;
+}
+
+/**
+ * A node holding entries whose keys have the same hash
+ *
+ * @typeParam K - the type of element used as the key
+ * @typeParam V - the type of element used as the value
+ */
+interface CollisionNode<K, V> {
+  readonly kind: 'collision';
+
+  // The hash shared by all of the entries
+  readonly hash: number;
+
+  // The entries with the hash
+  readonly entries: ReadonlyArray<HamtEntry<K, V>>;
+}
+
+/**
+ * A node of the trie
+ *
+ * @typeParam K - the type of element used as the key
+ * @typeParam V - the type of element used as the value
+ */
+export type HamtNode<K, V> = BitmapNode<K, V> | CollisionNode<K, V>;
+
+/**
+ * Records whether an update to the trie changed the number of entries
+ */
+export interface HamtChange {
+  // True if the update added or removed an entry
+  sizeChanged: boolean;
+}
+
+// The empty trie, which is shared by all empty collections
+const EMPTY_NODE: BitmapNode<any, any> = { kind: 'bitmap', bitmap: 0, children: [] };
+
+// The identifiers assigned to objects for hashing purposes. Symbols are not
+// given identifiers since a map of them would keep every symbol ever hashed
+// alive.
+const objectIds = new WeakMap<object, number>();
+let nextId = 1;
+
+/**
+ * Get the empty trie
+ *
+ * @typeParam K - the type of element used as the key
+ * @typeParam V - the type of element used as the value
+ * @returns the empty trie
+ */
+export function hamtEmpty<K, V>(): HamtNode<K, V> {
+  return EMPTY_NODE;
+}
+
+/**
+ * Compute the hash of a key. Primitive keys are hashed by value and objects by
+ * identity. Symbols are hashed by their description, so distinct symbols with
+ * the same description share a hash and are told apart as collisions.
+ *
+ * @param key - the key to hash
+ * @returns the 32-bit hash of the key
+ */
+export function hashOf(key: unknown): number {
+  switch (typeof key) {
+    case 'string':
+      return hashString(key);
+    case 'number':
+      // Treat -0 and 0 as the same key like `Map` does
+      return Number.isInteger(key) && Math.abs(key) <= 0x7fffffff ? key | 0 : hashString(String(key));
+    case 'bigint':
+      return hashString(key.toString());
+    case 'boolean':
+      return key ? 1231 : 1237;
+    case 'symbol':
+      return hashString(key.description ?? '');
+    case 'object':
+    case 'function':
+      return key === null ? 0 : idOf(key as object);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Find the entry for a key in a trie
+ *
+ * @typeParam K - the type of element used as the key
+ * @typeParam V - the type of element used as the value
+ * @param root - the root of the trie
+ * @param key - the key to find
+ * @returns the entry for the key or undefined if it is not present
+ */
+export function hamtGet<K, V>(root: HamtNode<K, V>, key: K): HamtEntry<K, V> | undefined {
+  const hash = hashOf(key);
+  let node = root;
+  for (let shift = 0; ; shift += BITS_PER_LEVEL) {
+    if (node.kind === 'collision') {
+      return node.hash === hash ? node.entries.find((entry) => sameValueZero(entry.key, key)) : undefined;
+    }
+
+    const bit = bitFor(hash, shift);
+    if ((node.bitmap & bit) === 0) {
+      return undefined;
+    }
+
+    const child = node.children[indexFor(node.bitmap, bit)];
+    if (isEntry(child)) {
+      return sameValueZero(child.key, key) ? child : undefined;
+    }
+    node = child;
+  }
+}
+
+/**
+ * Create a trie with a key set to a value
+ *
+ * @typeParam K - the type of element used as the key
+ * @typeParam V - the type of element used as the value
+ * @param root - the root of the trie
+ * @param key - the key to set
+ * @param value - the value of the key
+ * @param change - updated to record whether an entry was added
+ * @returns the root of the new trie, which is the given root if nothing changed
+ */
+export function hamtSet<K, V>(root: HamtNode<K, V>, key: K, value: V, change: HamtChange): HamtNode<K, V> {
+  return setIn(root, { key, value, hash: hashOf(key) }, 0, change);
+}
+
+/**
+ * Create a trie with a key removed
+ *
+ * @typeParam K - the type of element used as the key
+ * @typeParam V - the type of element used as the value
+ * @param root - the root of the trie
+ * @param key - the key to remove
+ * @param change - updated to record whether an entry was removed
+ * @returns the root of the new trie, which is the given root if nothing changed
+ */
+export function hamtRemove<K, V>(root: HamtNode<K, V>, key: K, change: HamtChange): HamtNode<K, V> {
+  const result = removeFrom(root, key, hashOf(key), 0, change);
+  if (result === undefined) {
+    return EMPTY_NODE;
+  }
+
+  // A lone entry collapsed all the way up needs a node to hold it
+  return isEntry(result) ? { kind: 'bitmap', bitmap: bitFor(result.hash, 0), children: [result] } : result;
+}
+
+/**
+ * Iterate the entries of a trie
+ *
+ * @typeParam K - the type of element used as the key
+ * @typeParam V - the type of element used as the value
+ * @param node - the node to iterate
+ * @returns an iterator over the entries
+ */
+export function* hamtEntries<K, V>(node: HamtNode<K, V>): IterableIterator<HamtEntry<K, V>> {
+  if (node.kind === 'collision') {
+    yield* node.entries;
+    return;
+  }
+
+  for (const child of node.children) {
+    if (isEntry(child)) {
+      yield child;
+    } else {
+      yield* hamtEntries(child);
+    }
+  }
+}
+
+/**
+ * Set an entry within a node
+ *
+ * @param node - the node to set the entry in
+ * @param entry - the entry to set
+ * @param shift - the number of hash bits consumed by the levels above
+ * @param change - updated to record whether an entry was added
+ * @returns the new node, which is the given node if nothing changed
+ */
+function setIn<K, V>(node: HamtNode<K, V>, entry: HamtEntry<K, V>, shift: number, change: HamtChange): HamtNode<K, V> {
+  if (node.kind === 'collision') {
+    // An entry with a different hash means the collision node must be pushed
+    // down beneath a new bitmap node.
+    if (node.hash !== entry.hash) {
+      const parent: BitmapNode<K, V> = { kind: 'bitmap', bitmap: bitFor(node.hash, shift), children: [node] };
+      return setIn(parent, entry, shift, change);
+    }
+
+    const index = node.entries.findIndex((existing) => sameValueZero(existing.key, entry.key));
+    if (index < 0) {
+      change.sizeChanged = true;
+      return { kind: 'collision', hash: node.hash, entries: [...node.entries, entry] };
+    }
+    if (Object.is(node.entries[index].value, entry.value)) {
+      return node;
+    }
+    return { kind: 'collision', hash: node.hash, entries: replaceAt(node.entries, index, entry) };
+  }
+
+  // If there is nothing at the entry's position then simply add it
+  const bit = bitFor(entry.hash, shift);
+  const index = indexFor(node.bitmap, bit);
+  if ((node.bitmap & bit) === 0) {
+    change.sizeChanged = true;
+    return { kind: 'bitmap', bitmap: node.bitmap | bit, children: insertAt(node.children, index, entry) };
+  }
+
+  // Otherwise replace the entry there, split it into a new node or descend
+  const child = node.children[index];
+  let replacement: HamtEntry<K, V> | HamtNode<K, V>;
+  if (isEntry(child)) {
+    if (sameValueZero(child.key, entry.key)) {
+      if (Object.is(child.value, entry.value)) {
+        return node;
+      }
+      replacement = entry;
+    } else {
+      change.sizeChanged = true;
+      replacement = mergeEntries(child, entry, shift + BITS_PER_LEVEL);
+    }
+  } else {
+    replacement = setIn(child, entry, shift + BITS_PER_LEVEL, change);
+    if (replacement === child) {
+      return node;
+    }
+  }
+
+  return { kind: 'bitmap', bitmap: node.bitmap, children: replaceAt(node.children, index, replacement) };
+}
+
+/**
+ * Remove a key from within a node. Nodes left holding a single entry are
+ * collapsed into that entry so that the trie stays compact.
+ *
+ * @param node - the node to remove the key from
+ * @param key - the key to remove
+ * @param hash - the hash of the key
+ * @param shift - the number of hash bits consumed by the levels above
+ * @param change - updated to record whether an entry was removed
+ * @returns the new node or entry replacing the node, undefined if the node is
+ * now empty or the given node if nothing changed
+ */
+function removeFrom<K, V>(
+  node: HamtNode<K, V>,
+  key: K,
+  hash: number,
+  shift: number,
+  change: HamtChange
+): HamtNode<K, V> | HamtEntry<K, V> | undefined {
+  if (node.kind === 'collision') {
+    const index = node.hash === hash ? node.entries.findIndex((entry) => sameValueZero(entry.key, key)) : -1;
+    if (index < 0) {
+      return node;
+    }
+
+    change.sizeChanged = true;
+    const entries = removeAt(node.entries, index);
+    return entries.length === 1 ? entries[0] : { kind: 'collision', hash: node.hash, entries };
+  }
+
+  const bit = bitFor(hash, shift);
+  if ((node.bitmap & bit) === 0) {
+    return node;
+  }
+
+  // Work out what replaces the child holding the key, if anything
+  const index = indexFor(node.bitmap, bit);
+  const child = node.children[index];
+  let replacement: HamtNode<K, V> | HamtEntry<K, V> | undefined;
+  if (isEntry(child)) {
+    if (!sameValueZero(child.key, key)) {
+      return node;
+    }
+    change.sizeChanged = true;
+    replacement = undefined;
+  } else {
+    replacement = removeFrom(child, key, hash, shift + BITS_PER_LEVEL, change);
+    if (replacement === child) {
+      return node;
+    }
+  }
+
+  if (replacement === undefined) {
+    // Drop the child, collapsing the node if only a single entry remains
+    const children = removeAt(node.children, index);
+    if (children.length === 0) {
+      return undefined;
+    }
+    if (children.length === 1 && isEntry(children[0]) && shift > 0) {
+      return children[0];
+    }
+    return { kind: 'bitmap', bitmap: node.bitmap & ~bit, children };
+  }
+
+  // Collapse the node into the entry if it was its only child
+  if (isEntry(replacement) && node.children.length === 1 && shift > 0) {
+    return replacement;
+  }
+  return { kind: 'bitmap', bitmap: node.bitmap, children: replaceAt(node.children, index, replacement) };
+}
+
+/**
+ * Create a node holding two entries that occupy the same position at the
+ * level above.
+ *
+ * @param first - the first entry
+ * @param second - the second entry
+ * @param shift - the number of hash bits consumed by the levels above
+ * @returns the node holding both entries
+ */
+function mergeEntries<K, V>(first: HamtEntry<K, V>, second: HamtEntry<K, V>, shift: number): HamtNode<K, V> {
+  if (first.hash === second.hash) {
+    return { kind: 'collision', hash: first.hash, entries: [first, second] };
+  }
+
+  // If the entries still share a position then push them down another level
+  const firstBit = bitFor(first.hash, shift);
+  const secondBit = bitFor(second.hash, shift);
+  if (firstBit === secondBit) {
+    return { kind: 'bitmap', bitmap: firstBit, children: [mergeEntries(first, second, shift + BITS_PER_LEVEL)] };
+  }
+
+  const firstIsLower = firstBit >>> 0 < secondBit >>> 0;
+  return { kind: 'bitmap', bitmap: firstBit | secondBit, children: firstIsLower ? [first, second] : [second, first] };
+}
+
+/**
+ * Get the bit representing the hash fragment at a given level
+ *
+ * @param hash - the hash
+ * @param shift - the number of hash bits consumed by the levels above
+ * @returns the bit for the fragment
+ */
+function bitFor(hash: number, shift: number): number {
+  return 1 << ((hash >>> shift) & LEVEL_MASK);
+}
+
+/**
+ * Get the position in a node's children of the child with a given bit
+ *
+ * @param bitmap - the bitmap of the node
+ * @param bit - the bit of the child
+ * @returns the position of the child
+ */
+function indexFor(bitmap: number, bit: number): number {
+  // Count the bits set below the child's bit
+  let bits = bitmap & (bit - 1);
+  bits = bits - ((bits >>> 1) & 0x55555555);
+  bits = (bits & 0x33333333) + ((bits >>> 2) & 0x33333333);
+  return (((bits + (bits >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+/**
+ * Determine if a child of a node is an entry rather than another node
+ *
+ * @param child - the child to check
+ * @returns true if the child is an entry
+ */
+function isEntry<K, V>(child: HamtEntry<K, V> | HamtNode<K, V>): child is HamtEntry<K, V> {
+  return !('kind' in child);
+}
+
+/**
+ * Compare two keys using the same semantics as `Map`
+ *
+ * @param a - the first key
+ * @param b - the second key
+ * @returns true if the keys are the same
+ */
+function sameValueZero(a: unknown, b: unknown): boolean {
+  return a === b || (a !== a && b !== b);
+}
+
+/**
+ * Get the identifier of an object, assigning one if it has none
+ *
+ * @param key - the object
+ * @returns the identifier
+ */
+function idOf(key: object): number {
+  let id = objectIds.get(key);
+  if (id === undefined) {
+    id = nextId++ | 0;
+    objectIds.set(key, id);
+  }
+  return id;
+}
+
+/**
+ * Compute the hash of a string
+ *
+ * @param value - the string to hash
+ * @returns the 32-bit hash
+ */
+function hashString(value: string): number {
+  let hash = 0;
+  for (let index = 0; index < value.length; ++index) {
+    hash = (Math.imul(31, hash) + value.charCodeAt(index)) | 0;
+  }
+  return hash;
+}
+
+/**
+ * Copy an array with an element inserted
+ *
+ * @param items - the array to copy
+ * @param index - the position to insert at
+ * @param item - the element to insert
+ * @returns the new array
+ */
+function insertAt<T>(items: ReadonlyArray<T>, index: number, item: T): T[] {
+  return [...items.slice(0, index), item, ...items.slice(index)];
+}
+
+/**
+ * Copy an array with an element replaced
+ *
+ * @param items - the array to copy
+ * @param index - the position of the element to replace
+ * @param item - the replacement element
+ * @returns the new array
+ */
+function replaceAt<T>(items: ReadonlyArray<T>, index: number, item: T): T[] {
+  const copy = items.slice();
+  copy[index] = item;
+  return copy;
+}
+
+/**
+ * Copy an array with an element removed
+ *
+ * @param items - the array to copy
+ * @param index - the position of the element to remove
+ * @returns the new array
+ */
+function removeAt<T>(items: ReadonlyArray<T>, index: number): T[] {
+  return [...items.slice(0, index), ...items.slice(index + 1)];
+}
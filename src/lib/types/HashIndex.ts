@@ -0,0 +1,88 @@
+import { HashStrategy } from './HashStrategy';
+
+/**
+ * Maps keys to a canonical instance of each set of equivalent keys according to
+ * a hash strategy. The hash collections store their entries against the
+ * canonical keys in the underlying native collection so that lookups using any
+ * equivalent key find them, while iteration, size and the rest of the native
+ * behaviour work unchanged.
+ *
+ * @typeParam T - the type of key
+ */
+export class HashIndex<T> {
+  // The canonical keys with each hash
+  protected readonly buckets = new Map<string | number, T[]>();
+
+  /**
+   * Constructor
+   *
+   * @typeParam T - the type of key
+   * @param strategy - the strategy determining when keys are equivalent
+   */
+  public constructor(public readonly strategy: HashStrategy<T>) {}
+
+  /**
+   * Get the canonical instance of a key
+   *
+   * @typeParam T - the type of key
+   * @param key - the key to look up
+   * @returns the canonical key if there is one, otherwise the given key
+   */
+  public canonical(key: T): T {
+    const bucket = this.buckets.get(this.strategy.hash(key));
+    return bucket?.find((existing) => this.strategy.equals(existing, key)) ?? key;
+  }
+
+  /**
+   * Get the canonical instance of a key, making the given key canonical if no
+   * equivalent key exists
+   *
+   * @typeParam T - the type of key
+   * @param key - the key to look up
+   * @returns the canonical key
+   */
+  public intern(key: T): T {
+    const hash = this.strategy.hash(key);
+    const bucket = this.buckets.get(hash);
+    if (bucket === undefined) {
+      this.buckets.set(hash, [key]);
+      return key;
+    }
+
+    for (const existing of bucket) {
+      if (this.strategy.equals(existing, key)) {
+        return existing;
+      }
+    }
+    bucket.push(key);
+    return key;
+  }
+
+  /**
+   * Remove the canonical instance of a key
+   *
+   * @typeParam T - the type of key
+   * @param key - the key to remove
+   * @returns the canonical key that was removed if there was one, otherwise
+   * the given key
+   */
+  public remove(key: T): T {
+    const hash = this.strategy.hash(key);
+    const bucket = this.buckets.get(hash);
+    const position = bucket?.findIndex((existing) => this.strategy.equals(existing, key)) ?? -1;
+    if (bucket === undefined || position < 0) {
+      return key;
+    }
+
+    const [existing] = bucket.splice(position, 1);
+    bucket.length > 0 || this.buckets.delete(hash);
+    return existing;
+  }
+
+  /**
+   * Remove all keys
+   */
+  public clear() {
+    this.buckets.clear();
+  }
+}
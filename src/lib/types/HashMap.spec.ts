@@ -0,0 +1,102 @@
+import { HashMap } from './HashMap';
+import { HashSet } from './HashSet';
+import { tupleHashStrategy } from './HashStrategy';
+
+describe('HashMap Tests', function () {
+  type UserKey = [string, number];
+
+  function roles(...entries: [UserKey, string][]): HashMap<UserKey, string> {
+    return new HashMap<UserKey, string>(tupleHashStrategy, entries);
+  }
+
+  describe('lookup', function () {
+    it('can look up equivalent keys', function () {
+      const map = roles([['acme', 1], 'admin'], [['acme', 2], 'user']);
+      expect(map.size).toEqual(2);
+      expect(map.get(['acme', 1])).toEqual('admin');
+      expect(map.has(['acme', 2])).toBe(true);
+      expect(map.has(['acme', 3])).toBe(false);
+      expect(map.get(['other', 1])).not.toBeDefined();
+      expect(map.strategy()).toBe(tupleHashStrategy);
+    });
+
+    it('should replace the value of an equivalent key', function () {
+      const original: UserKey = ['acme', 1];
+      const map = roles([original, 'admin']).set(['acme', 1], 'owner');
+      expect(map.size).toEqual(1);
+      expect(Array.from(map)).toEqual([[original, 'owner']]);
+      expect(map.keyList()[0]).toBe(original);
+    });
+
+    it('can remove equivalent keys', function () {
+      const map = roles([['acme', 1], 'admin'], [['acme', 2], 'user']);
+      expect(map.delete(['acme', 1])).toBe(true);
+      expect(map.delete(['acme', 1])).toBe(false);
+      expect(map.eject(['acme', 2])).toEqual('user');
+      expect(map.empty()).toBe(true);
+
+      map.set(['acme', 1], 'admin').clear();
+      expect(map.has(['acme', 1])).toBe(false);
+    });
+
+    it('can notify listeners of changes', function () {
+      const map = roles([['acme', 1], 'admin']);
+      const listener = jest.fn();
+      map.subscribe(listener);
+
+      map.set(['acme', 1], 'owner');
+      expect(listener).toHaveBeenLastCalledWith([
+        { type: 'set', key: ['acme', 1], oldValue: 'admin', newValue: 'owner' },
+      ]);
+      map.delete(['acme', 1]);
+      expect(listener).toHaveBeenLastCalledWith([{ type: 'delete', key: ['acme', 1], oldValue: 'owner' }]);
+    });
+  });
+
+  describe('helpers', function () {
+    it('can create key sets using the same strategy', function () {
+      const keys = roles([['acme', 1], 'admin']).keySet();
+      expect(keys).toBeInstanceOf(HashSet);
+      expect(keys.has(['acme', 1])).toBe(true);
+    });
+
+    it('can create subsets and filtered maps using the same strategy', function () {
+      const map = roles([['acme', 1], 'admin'], [['acme', 2], 'user'], [['other', 1], 'user']);
+
+      const subset = map.subset([
+        ['acme', 2],
+        ['none', 0],
+      ]);
+      expect(subset).toBeInstanceOf(HashMap);
+      expect(Array.from(subset)).toEqual([[['acme', 2], 'user']]);
+
+      const acme = map.keyFilter(([tenant]) => tenant === 'acme');
+      expect(acme.get(['acme', 2])).toEqual('user');
+      expect(acme.size).toEqual(2);
+
+      const users = map.valueFilter((role) => role === 'user');
+      expect(users.has(['other', 1])).toBe(true);
+      expect(users.has(['acme', 1])).toBe(false);
+    });
+
+    it('can merge and compare maps with equivalent keys', function () {
+      const map = roles([['acme', 1], 'admin']);
+      map.merge(roles([['acme', 1], 'user'], [['acme', 2], 'user']));
+      expect(map.size).toEqual(2);
+      expect(map.get(['acme', 1])).toEqual('admin');
+
+      expect(map.equals(roles([['acme', 2], 'user'], [['acme', 1], 'admin']))).toBe(true);
+      expect(map.diff(roles([['acme', 1], 'owner'])).changed).toEqual([
+        { key: ['acme', 1], before: 'admin', after: 'owner' },
+      ]);
+    });
+
+    it('can group values', function () {
+      const map = new HashMap<UserKey, { role: string }>(tupleHashStrategy, [
+        [['acme', 1], { role: 'admin' }],
+        [['acme', 2], { role: 'user' }],
+      ]);
+      expect(map.groupBy('role').toObject()).toEqual({ admin: [{ role: 'admin' }], user: [{ role: 'user' }] });
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { HashIndex } from './HashIndex';
+import { HashSet } from './HashSet';
+import { HashStrategy } from './HashStrategy';
+import { MapPlus } from './MapPlus';
+
+/**
+ * A `MapPlus` that compares its keys using a hash strategy rather than by
+ * reference, so that value objects and tuples such as `[tenantId, userId]` can
+ * be used as keys. The full `MapPlus` API is available, with helpers such as
+ * `subset` and `keySet` producing collections that use the same strategy.
+ *
+ * ```ts
+ * const roles = new HashMap<[string, string], Role>(tupleHashStrategy);
+ * roles.set([tenantId, userId], 'admin');
+ * roles.get([tenantId, userId]);
+ * ```
+ *
+ * When a key equivalent to one already present is set, the map keeps the
+ * original key and replaces its value. Keys must not be modified in a way that
+ * changes their hash while they are in the map.
+ *
+ * @typeParam K - the type of element used as the key in the map
+ * @typeParam V - the type of element used as the value in the map
+ */
+export class HashMap<K, V> extends MapPlus<K, V> {
+  // The canonical instance of each key in the map
+  protected readonly index: HashIndex<K>;
+
+  /**
+   * Constructor
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param strategy - the strategy determining when keys are equivalent
+   * @param entries - optional entries to start the map
+   */
+  public constructor(strategy: HashStrategy<K>, entries?: Iterable<readonly [K, V]>) {
+    super();
+    this.index = new HashIndex(strategy);
+    if (entries !== undefined) {
+      for (const [key, value] of entries) {
+        this.set(key, value);
+      }
+    }
+  }
+
+  /**
+   * Get the strategy determining when keys are equivalent
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @returns the strategy
+   */
+  public strategy(): HashStrategy<K> {
+    return this.index.strategy;
+  }
+
+  /**
+   * Set the value of the key equivalent to the one given
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param key - the key to set
+   * @param value - the value of the key
+   * @returns this instance for chaining
+   */
+  public set(key: K, value: V): this {
+    return super.set(this.index.intern(key), value);
+  }
+
+  /**
+   * Get the value of the key equivalent to the one given
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param key - the key to get
+   * @returns the value of the key or undefined if it is not present
+   */
+  public get(key: K): V | undefined {
+    return super.get(this.index.canonical(key));
+  }
+
+  /**
+   * Determine if the map contains a key equivalent to the one given
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @param key - the key to check
+   * @returns true if an equivalent key is present
+   */
+  public has(key: K): boolean {
+    return super.has(this.index.canonical(key));
+  }
+
+  /**
+   * Remove the key equivalent to the one given
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @param key - the key to remove
+   * @returns true if an equivalent key was present
+   */
+  public delete(key: K): boolean {
+    return super.delete(this.index.remove(key));
+  }
+
+  /**
+   * Remove all entries from the map
+   */
+  public clear() {
+    this.index.clear();
+    super.clear();
+  }
+
+  /**
+   * Get the keys of the map as a set that uses the same strategy
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @returns the keys of the map as a set
+   */
+  public keySet(): HashSet<K> {
+    return new HashSet(this.strategy(), this.keys());
+  }
+
+  /**
+   * Create a subset of the map that only contains the entries whose key is
+   * equivalent to one in the given collection
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param keys - the keys to keep
+   * @returns the subset, using the same strategy
+   */
+  public subset(keys: Iterable<K>): HashMap<K, V> {
+    const result = new HashMap<K, V>(this.strategy());
+    for (const key of keys) {
+      const value = this.get(key);
+      value !== undefined && result.set(this.index.canonical(key), value);
+    }
+    return result;
+  }
+
+  /**
+   * Create a map containing only those entries whose key passes the given
+   * filter
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param filter - a function returning a truthy value for any key that passes
+   * the filter
+   * @returns the filtered map, using the same strategy
+   */
+  public keyFilter(filter: (key: K) => any): HashMap<K, V> {
+    const result = new HashMap<K, V>(this.strategy());
+    for (const [key, value] of this) {
+      filter(key) && result.set(key, value);
+    }
+    return result;
+  }
+
+  /**
+   * Create a map containing only those entries whose value passes the given
+   * filter
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param filter - a function returning a truthy value for any value that
+   * passes the filter
+   * @returns the filtered map, using the same strategy
+   */
+  public valueFilter(filter: (value: V) => any): HashMap<K, V> {
+    const result = new HashMap<K, V>(this.strategy());
+    for (const [key, value] of this) {
+      filter(value) && result.set(key, value);
+    }
+    return result;
+  }
+
+  /**
+   * Conversion to JSON is not supported since its hash strategy cannot be
+   * serialised
+   *
+   * @throws Error always
+   */
+  public toJSON(): never {
+    throw new Error('Cannot convert a HashMap to JSON since its hash strategy cannot be serialised');
+  }
+}
@@ -0,0 +1,134 @@
+import { HashSet } from './HashSet';
+import { HashStrategy, tupleHashStrategy } from './HashStrategy';
+
+describe('HashSet Tests', function () {
+  type Pair = [string, number];
+
+  interface Point {
+    x: number;
+    y: number;
+  }
+
+  // A deliberately poor hash so that every point collides
+  const pointStrategy: HashStrategy<Point> = {
+    hash: () => 0,
+    equals: (a, b) => a.x === b.x && a.y === b.y,
+  };
+
+  function pairs(...values: Pair[]): HashSet<Pair> {
+    return new HashSet<Pair>(tupleHashStrategy, values);
+  }
+
+  describe('membership', function () {
+    it('can find equivalent elements', function () {
+      const set = pairs(['a', 1], ['b', 2]);
+      expect(set.size).toEqual(2);
+      expect(set.has(['a', 1])).toBe(true);
+      expect(set.has(['a', 2])).toBe(false);
+      expect(set.strategy()).toBe(tupleHashStrategy);
+    });
+
+    it('should keep the original of equivalent elements', function () {
+      const original: Pair = ['a', 1];
+      const set = pairs(original).add(['a', 1]);
+      expect(set.size).toEqual(1);
+      expect(set.toArray()[0]).toBe(original);
+    });
+
+    it('can remove equivalent elements', function () {
+      const set = pairs(['a', 1], ['b', 2]);
+      expect(set.delete(['a', 1])).toBe(true);
+      expect(set.delete(['a', 1])).toBe(false);
+      expect(set.toArray()).toEqual([['b', 2]]);
+
+      set.clear();
+      expect(set.empty()).toBe(true);
+      expect(set.has(['b', 2])).toBe(false);
+      set.add(['b', 2]);
+      expect(set.size).toEqual(1);
+    });
+
+    it('can handle colliding hashes', function () {
+      const set = new HashSet(pointStrategy, [
+        { x: 1, y: 2 },
+        { x: 2, y: 1 },
+        { x: 1, y: 2 },
+      ]);
+      expect(set.size).toEqual(2);
+      expect(set.has({ x: 2, y: 1 })).toBe(true);
+      expect(set.delete({ x: 1, y: 2 })).toBe(true);
+      expect(set.toArray()).toEqual([{ x: 2, y: 1 }]);
+    });
+
+    it('should distinguish tuples by type', function () {
+      const set = new HashSet(tupleHashStrategy, [[1], ['1'], [NaN]]);
+      expect(set.size).toEqual(3);
+      expect(set.has([NaN])).toBe(true);
+      expect(set.has([true])).toBe(false);
+    });
+  });
+
+  describe('set operations', function () {
+    it('can compute unions and intersections of equivalent elements', function () {
+      const set = pairs(['a', 1], ['b', 2]);
+      const union = set.union([
+        ['b', 2],
+        ['c', 3],
+      ]);
+      expect(union).toBeInstanceOf(HashSet);
+      expect(union.size).toEqual(3);
+
+      const intersection = set.intersection([
+        ['b', 2],
+        ['c', 3],
+      ]);
+      expect(intersection.toArray()).toEqual([['b', 2]]);
+    });
+
+    it('can compute differences of equivalent elements', function () {
+      const set = pairs(['a', 1], ['b', 2]);
+      expect(set.difference([['a', 1]]).toArray()).toEqual([['b', 2]]);
+      expect(
+        set
+          .xor([
+            ['b', 2],
+            ['c', 3],
+          ])
+          .toArray()
+      ).toEqual([
+        ['a', 1],
+        ['c', 3],
+      ]);
+    });
+
+    it('can compare with equivalent collections', function () {
+      const set = pairs(['a', 1], ['b', 2]);
+      expect(
+        set.equals([
+          ['b', 2],
+          ['a', 1],
+        ])
+      ).toBe(true);
+      expect(set.equals([['a', 1]])).toBe(false);
+    });
+
+    it('can clone with the same strategy', function () {
+      const clone = pairs(['a', 1]).clone();
+      expect(clone).toBeInstanceOf(HashSet);
+      expect(clone.has(['a', 1])).toBe(true);
+    });
+
+    it('can partition and generate subsets with the same strategy', function () {
+      const set = pairs(['a', 1], ['b', 2]);
+      const [low, high] = set.partition(([, value]) => value < 2);
+      expect(low).toBeInstanceOf(HashSet);
+      expect(low.has(['a', 1])).toBe(true);
+      expect(high.has(['b', 2])).toBe(true);
+
+      const subsets = set.powerSet().toArray();
+      expect(subsets).toHaveLength(4);
+      subsets.forEach((subset) => expect(subset).toBeInstanceOf(HashSet));
+      expect(subsets[3].has(['b', 2])).toBe(true);
+    });
+  });
+});
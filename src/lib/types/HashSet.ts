@@ -0,0 +1,132 @@
+import { HashIndex } from './HashIndex';
+import { HashStrategy } from './HashStrategy';
+import { SetPlus } from './SetPlus';
+
+/**
+ * A `SetPlus` that compares its elements using a hash strategy rather than by
+ * reference, so that value objects and tuples such as `[tenantId, userId]` can
+ * be used as elements. The full `SetPlus` API is available, with the set
+ * operations producing sets that use the same strategy.
+ *
+ * When an element equivalent to one already present is added, the set keeps
+ * the original. Elements must not be modified in a way that changes their hash
+ * while they are in the set.
+ *
+ * @typeParam T - the type of element stored in the set
+ */
+export class HashSet<T> extends SetPlus<T> {
+  // The canonical instance of each element in the set
+  protected readonly index: HashIndex<T>;
+
+  /**
+   * Constructor
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param strategy - the strategy determining when elements are equivalent
+   * @param elements - optional elements to start the set
+   */
+  public constructor(strategy: HashStrategy<T>, elements?: Iterable<T>) {
+    super();
+    this.index = new HashIndex(strategy);
+    if (elements !== undefined) {
+      for (const element of elements) {
+        this.add(element);
+      }
+    }
+  }
+
+  /**
+   * Get the strategy determining when elements are equivalent
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns the strategy
+   */
+  public strategy(): HashStrategy<T> {
+    return this.index.strategy;
+  }
+
+  /**
+   * Add an element to the set if no equivalent element is present
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param element - the element to add
+   * @returns this instance for chaining
+   */
+  public add(element: T): this {
+    return super.add(this.index.intern(element));
+  }
+
+  /**
+   * Determine if the set contains an element equivalent to the one given
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param element - the element to check
+   * @returns true if an equivalent element is present
+   */
+  public has(element: T): boolean {
+    return super.has(this.index.canonical(element));
+  }
+
+  /**
+   * Remove the element equivalent to the one given
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param element - the element to remove
+   * @returns true if an equivalent element was present
+   */
+  public delete(element: T): boolean {
+    return super.delete(this.index.remove(element));
+  }
+
+  /**
+   * Remove all elements from the set
+   */
+  public clear() {
+    this.index.clear();
+    super.clear();
+  }
+
+  /**
+   * Create a shallow clone of this set that uses the same strategy
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns a new set containing the same elements as this instance
+   */
+  public clone(): HashSet<T> {
+    return new HashSet(this.strategy(), this);
+  }
+
+  /**
+   * Given an iterable, convert it to a set that compares elements using the
+   * same strategy as this one if required
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param collection - the collection of elements to convert
+   * @returns the collection as a set
+   */
+  public asSet(collection: Iterable<T>): Set<T> {
+    return collection instanceof HashSet && collection.strategy() === this.strategy()
+      ? collection
+      : new HashSet(this.strategy(), collection);
+  }
+
+  /**
+   * Conversion to JSON is not supported since its hash strategy cannot be
+   * serialised
+   *
+   * @throws Error always
+   */
+  public toJSON(): never {
+    throw new Error('Cannot convert a HashSet to JSON since its hash strategy cannot be serialised');
+  }
+
+  /**
+   * Create an empty set that uses the same strategy as this one
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns the new set
+   */
+  protected createSet(): HashSet<T> {
+    return new HashSet(this.strategy());
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Determines when two keys are equivalent for a `HashMap` or `HashSet`. Keys
+ * that are equal must have the same hash. Keys with the same hash need not be
+ * equal, but the more keys share a hash the slower lookups become.
+ *
+ * @typeParam T - the type of key
+ */
+export interface HashStrategy<T> {
+  /**
+   * Compute the hash of a key
+   *
+   * @param key - the key to hash
+   * @returns the hash of the key
+   */
+  hash(key: T): string | number;
+
+  /**
+   * Determine if two keys are equivalent
+   *
+   * @param a - the first key
+   * @param b - the second key
+   * @returns true if the keys are equivalent
+   */
+  equals(a: T, b: T): boolean;
+}
+
+/**
+ * A strategy for tuple keys, such as `[tenantId, userId]`, where two tuples
+ * are equivalent if they have the same length and their elements are equal
+ * using the same semantics as `Map`, that is, SameValueZero.
+ */
+export const tupleHashStrategy: HashStrategy<readonly unknown[]> = {
+  hash: (key) => key.map((element) => `${typeof element}:${String(element)}`).join('|'),
+  equals: (a, b) =>
+    a.length === b.length &&
+    a.every((element, index) => element === b[index] || (Number.isNaN(element) && Number.isNaN(b[index]))),
+};
@@ -0,0 +1,148 @@
+import { IndexedMap } from './IndexedMap';
+
+interface User {
+  id: number;
+  email: string;
+  team: string;
+  manager?: number;
+}
+
+describe('IndexedMap Tests', function () {
+  const alice: User = { id: 1, email: 'alice@example.com', team: 'red' };
+  const bob: User = { id: 2, email: 'bob@example.com', team: 'blue', manager: 1 };
+  const carol: User = { id: 3, email: 'carol@example.com', team: 'red', manager: 1 };
+
+  function createUsers(...users: User[]) {
+    return new IndexedMap<number, User, 'email' | 'team' | 'domain' | 'manager'>(
+      {
+        email: { key: 'email', unique: true },
+        team: { key: 'team' },
+        domain: { key: (user) => user.email.split('@')[1] },
+        manager: { key: 'manager' },
+      },
+      users.map((user) => [user.id, user])
+    );
+  }
+
+  describe('constructor', function () {
+    it('can create an empty map', function () {
+      const users = createUsers();
+      expect(users.empty()).toEqual(true);
+      expect(users.findBy('email', alice.email)).not.toBeDefined();
+      expect(users.findAllBy('team', 'red')).toEqual([]);
+    });
+
+    it('can create a map with initial entries', function () {
+      const users = createUsers(alice, bob, carol);
+      expect(users.size).toEqual(3);
+      expect(users.findBy('email', bob.email)).toBe(bob);
+      expect(users.findAllBy('team', 'red')).toEqual([alice, carol]);
+    });
+
+    it('should not accept entries that violate a unique index', function () {
+      expect(() => createUsers(alice, { ...bob, email: alice.email })).toThrow(
+        'Index email already has an entry with key alice@example.com'
+      );
+    });
+  });
+
+  describe('findBy and findAllBy', function () {
+    it('can find entries by property', function () {
+      const users = createUsers(alice, bob, carol);
+      expect(users.findBy('email', carol.email)).toBe(carol);
+      expect(users.findBy('team', 'red')).toBe(alice);
+      expect(users.findAllBy('team', 'blue')).toEqual([bob]);
+      expect(users.findAllBy('team', 'green')).toEqual([]);
+    });
+
+    it('can find entries by key function', function () {
+      const users = createUsers(alice, bob, carol);
+      expect(users.findAllBy('domain', 'example.com')).toEqual([alice, bob, carol]);
+    });
+
+    it('should leave out values whose index key is undefined', function () {
+      const users = createUsers(alice, bob, carol);
+      expect(users.findAllBy('manager', 1)).toEqual([bob, carol]);
+      expect(users.findAllBy('manager', undefined)).toEqual([]);
+    });
+
+    it('should throw for an unknown index', function () {
+      const users = createUsers(alice);
+      expect(() => users.findBy('name' as 'email', 'alice')).toThrow('Unknown index name');
+    });
+  });
+
+  describe('set, delete and clear', function () {
+    it('can update the indexes when a value is replaced', function () {
+      const users = createUsers(alice, bob, carol);
+      const movedCarol = { ...carol, team: 'blue', email: 'carol@example.org' };
+      users.set(carol.id, movedCarol);
+
+      expect(users.findAllBy('team', 'red')).toEqual([alice]);
+      expect(users.findAllBy('team', 'blue')).toEqual([bob, movedCarol]);
+      expect(users.findBy('email', carol.email)).not.toBeDefined();
+      expect(users.findBy('email', movedCarol.email)).toBe(movedCarol);
+      expect(users.findAllBy('domain', 'example.com')).toEqual([alice, bob]);
+    });
+
+    it('can replace a value with one having the same unique key', function () {
+      const users = createUsers(alice, bob);
+      const renamedBob = { ...bob, team: 'green' };
+      users.set(bob.id, renamedBob);
+      expect(users.findBy('email', bob.email)).toBe(renamedBob);
+    });
+
+    it('should leave the map unchanged when a unique index is violated', function () {
+      const users = createUsers(alice, bob);
+      expect(() => users.set(bob.id, { ...bob, email: alice.email, team: 'green' })).toThrow();
+      expect(users.get(bob.id)).toBe(bob);
+      expect(users.findBy('email', bob.email)).toBe(bob);
+      expect(users.findAllBy('team', 'green')).toEqual([]);
+    });
+
+    it('should keep the place of an entry set again with the same index key', function () {
+      const users = createUsers(alice, carol);
+      const renamedAlice = { ...alice, email: 'alice@example.org' };
+      users.set(alice.id, renamedAlice);
+
+      expect(users.keyList()).toEqual([alice.id, carol.id]);
+      expect(users.findBy('team', 'red')).toBe(renamedAlice);
+      expect(users.findAllBy('team', 'red')).toEqual([renamedAlice, carol]);
+      expect(users.findAllBy('domain', 'example.com')).toEqual([carol]);
+      expect(users.findBy('email', alice.email)).not.toBeDefined();
+    });
+
+    it('can reindex a value modified in place by setting it again', function () {
+      const users = createUsers(alice, bob);
+      const dave: User = { id: 4, email: 'dave@example.com', team: 'red' };
+      users.set(dave.id, dave);
+
+      dave.team = 'blue';
+      users.set(dave.id, dave);
+      expect(users.findAllBy('team', 'red')).toEqual([alice]);
+      expect(users.findAllBy('team', 'blue')).toEqual([bob, dave]);
+    });
+
+    it('can delete entries from the indexes', function () {
+      const users = createUsers(alice, bob, carol);
+      expect(users.delete(alice.id)).toEqual(true);
+      expect(users.delete(alice.id)).toEqual(false);
+      expect(users.findBy('email', alice.email)).not.toBeDefined();
+      expect(users.findAllBy('team', 'red')).toEqual([carol]);
+
+      // The email is free to be used again
+      users.set(5, { ...alice, id: 5 });
+      expect(users.findBy('email', alice.email)?.id).toEqual(5);
+    });
+
+    it('can clear the indexes', function () {
+      const users = createUsers(alice, bob, carol);
+      users.clear();
+      expect(users.empty()).toEqual(true);
+      expect(users.findAllBy('domain', 'example.com')).toEqual([]);
+
+      users.set(alice.id, alice);
+      expect(users.findAllBy('domain', 'example.com')).toEqual([alice]);
+    });
+  });
+});
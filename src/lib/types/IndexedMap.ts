@@ -0,0 +1,261 @@
+import { MapPlus } from './MapPlus';
+import { MultiMap } from './MultiMap';
+import { SetPlus } from './SetPlus';
+
+/**
+ * The declaration of a secondary index on an indexed map
+ *
+ * @typeParam V - the type of element used as the value in the map
+ */
+export interface IndexedMapIndex<V> {
+  // The property of each value to index on, or a function that computes the
+  // index key of a value
+  key: keyof V | ((value: V) => unknown);
+
+  // Whether each index key can only be associated with a single entry
+  unique?: boolean;
+}
+
+/**
+ * A secondary index as maintained by the map
+ *
+ * @typeParam K - the type of element used as the key in the map
+ * @typeParam V - the type of element used as the value in the map
+ */
+interface IndexedMapIndexState<K, V> {
+  // The function computing the index key of a value
+  keyOf: (value: V) => unknown;
+
+  // Whether each index key can only be associated with a single entry
+  unique: boolean;
+
+  // The keys of the entries associated with each index key
+  entries: MultiMap<unknown, K, SetPlus<K>>;
+}
+
+/**
+ * A map that maintains secondary indexes on its values so that entries can be
+ * found by something other than their key. The indexes are declared when the
+ * map is created and kept up to date as entries are set and deleted, for
+ * example:
+ *
+ * ```ts
+ * const users = new IndexedMap<UserId, User, 'email' | 'team'>({
+ *   email: { key: 'email', unique: true },
+ *   team: { key: (user) => user.team.id },
+ * });
+ * users.set(user.id, user);
+ * users.findBy('email', 'someone@example.com');
+ * users.findAllBy('team', teamId);
+ * ```
+ *
+ * Values whose index key is undefined are left out of that index. A value that
+ * is modified in place so that its index keys change must be set again for the
+ * indexes to reflect the change.
+ *
+ * @typeParam K - the type of element used as the key in the map
+ * @typeParam V - the type of element used as the value in the map
+ * @typeParam Indexes - the names of the secondary indexes
+ */
+export class IndexedMap<K, V, Indexes extends string = string> extends MapPlus<K, V> {
+  // The secondary indexes by name
+  protected readonly indexes = new Map<Indexes, IndexedMapIndexState<K, V>>();
+
+  // The index keys each entry was indexed under, in the order of the indexes.
+  // These are kept so that an entry can be removed from the indexes even if
+  // its value has been modified since.
+  protected readonly indexKeys = new Map<K, unknown[]>();
+
+  /**
+   * Constructor
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @typeParam Indexes - the names of the secondary indexes
+   * @param indexes - the declarations of the secondary indexes by name
+   * @param entries - optional entries to start the map
+   * @throws Error if the entries violate a unique index
+   */
+  public constructor(indexes: Record<Indexes, IndexedMapIndex<V>>, entries?: Iterable<readonly [K, V]>) {
+    super();
+    for (const name of Object.keys(indexes) as Indexes[]) {
+      const { key, unique = false } = indexes[name];
+      this.indexes.set(name, {
+        keyOf: typeof key === 'function' ? key : (value: V) => value[key],
+        unique,
+        entries: MultiMap.ofSets(),
+      });
+    }
+
+    if (entries !== undefined) {
+      for (const [key, value] of entries) {
+        this.set(key, value);
+      }
+    }
+  }
+
+  /**
+   * Find the value of an entry by its key in a secondary index. If the index
+   * is not unique and there are many entries with the key, the first one added
+   * is returned.
+   *
+   * @typeParam V - the type of element used as the value in the map
+   * @typeParam Indexes - the names of the secondary indexes
+   * @param index - the name of the index
+   * @param indexKey - the key to look up in the index
+   * @returns the value found or undefined if there is none
+   * @throws Error if there is no index with the given name
+   */
+  public findBy(index: Indexes, indexKey: unknown): V | undefined {
+    const bucket = this.indexOf(index).entries.get(indexKey);
+    if (bucket === undefined) {
+      return undefined;
+    }
+    for (const key of bucket) {
+      return super.get(key);
+    }
+    return undefined;
+  }
+
+  /**
+   * Find the values of all entries with a given key in a secondary index
+   *
+   * @typeParam V - the type of element used as the value in the map
+   * @typeParam Indexes - the names of the secondary indexes
+   * @param index - the name of the index
+   * @param indexKey - the key to look up in the index
+   * @returns the values found, in the order their entries were added
+   * @throws Error if there is no index with the given name
+   */
+  public findAllBy(index: Indexes, indexKey: unknown): V[] {
+    const bucket = this.indexOf(index).entries.get(indexKey);
+    return bucket === undefined ? [] : bucket.map((key) => super.get(key) as V);
+  }
+
+  /**
+   * Set the value of a key and update the secondary indexes
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param key - the key to set
+   * @param value - the value of the key
+   * @returns this instance for chaining
+   * @throws Error if the value violates a unique index, in which case the map
+   * is left unchanged
+   */
+  public set(key: K, value: V): this {
+    // Make sure the value can be added to every unique index before changing
+    // anything
+    const indexKeys: unknown[] = [];
+    for (const [name, index] of this.indexes) {
+      const indexKey = index.keyOf(value);
+      if (index.unique && indexKey !== undefined) {
+        const bucket = index.entries.get(indexKey);
+        if (bucket !== undefined && !bucket.has(key)) {
+          throw new Error(`Index ${name} already has an entry with key ${String(indexKey)}`);
+        }
+      }
+      indexKeys.push(indexKey);
+    }
+
+    super.set(key, value);
+    this.index(key, indexKeys);
+    return this;
+  }
+
+  /**
+   * Remove a key from the map and the secondary indexes
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @param key - the key to remove
+   * @returns true if the key was present
+   */
+  public delete(key: K): boolean {
+    this.unindex(key);
+    return super.delete(key);
+  }
+
+  /**
+   * Remove all entries from the map and the secondary indexes
+   */
+  public clear() {
+    for (const index of this.indexes.values()) {
+      index.entries.clear();
+    }
+    this.indexKeys.clear();
+    super.clear();
+  }
+
+  /**
+   * Conversion to JSON is not supported since its indexes cannot be serialised
+   *
+   * @throws Error always
+   */
+  public toJSON(): never {
+    throw new Error('Cannot convert an IndexedMap to JSON since its indexes cannot be serialised');
+  }
+
+  /**
+   * Get a secondary index by name
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @typeParam Indexes - the names of the secondary indexes
+   * @param index - the name of the index
+   * @returns the index
+   * @throws Error if there is no index with the given name
+   */
+  protected indexOf(index: Indexes): IndexedMapIndexState<K, V> {
+    const state = this.indexes.get(index);
+    if (state === undefined) {
+      throw new Error(`Unknown index ${index}`);
+    }
+    return state;
+  }
+
+  /**
+   * Add an entry to the secondary indexes or, if it is already indexed, move it
+   * to its new index keys. An entry whose key in an index is unchanged keeps
+   * its place in that index.
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @param key - the key of the entry
+   * @param indexKeys - the key of the entry in each index
+   */
+  protected index(key: K, indexKeys: unknown[]) {
+    const previousKeys = this.indexKeys.get(key);
+    let position = 0;
+    for (const index of this.indexes.values()) {
+      const previousKey = previousKeys?.[position];
+      const indexKey = indexKeys[position++];
+
+      // Index keys are compared in the same way as map keys
+      if (previousKey === indexKey || (previousKey !== previousKey && indexKey !== indexKey)) {
+        continue;
+      }
+      previousKey !== undefined && index.entries.removeValue(previousKey, key);
+      indexKey !== undefined && index.entries.add(indexKey, key);
+    }
+    this.indexKeys.set(key, indexKeys);
+  }
+
+  /**
+   * Remove an entry from the secondary indexes if it is present
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @param key - the key of the entry
+   */
+  protected unindex(key: K) {
+    const indexKeys = this.indexKeys.get(key);
+    if (indexKeys === undefined) {
+      return;
+    }
+
+    let position = 0;
+    for (const index of this.indexes.values()) {
+      const indexKey = indexKeys[position++];
+      indexKey !== undefined && index.entries.removeValue(indexKey, key);
+    }
+    this.indexKeys.delete(key);
+  }
+}
@@ -1,3 +1,4 @@
+import { Deque } from './Deque';
 import { LinkedList, DoublyLinkedList } from './LinkedList';
 
 class Item {
@@ -174,6 +175,79 @@ describe('LinkedList Tests', function () {
       validateEmpty(items);
       validateIteration(items, []);
     });
+
+    it('can remove items using their handles', function () {
+      const items = new LinkedList<Item>();
+      const handleOne = items.pushHandle(one);
+      const handleTwo = items.pushHandle(two);
+      const handleThree = items.pushHandle(three);
+      expect(handleTwo.item).toBe(two);
+
+      expect(items.remove(handleTwo)).toBe(two);
+      validateNotEmpty(items, 2, one, three);
+      validateIteration(items, [one, three]);
+
+      expect(items.remove(handleThree)).toBe(three);
+      validateNotEmpty(items, 1, one, one);
+      validateIteration(items, [one]);
+
+      expect(items.remove(handleOne)).toBe(one);
+      validateEmpty(items);
+      validateIteration(items, []);
+    });
+
+    it('should reject handles that are no longer in the list', function () {
+      const items = new LinkedList<Item>();
+      const handle = items.unshiftHandle(one);
+      items.remove(handle);
+
+      expect(() => items.remove(handle)).toThrow();
+      expect(() => new LinkedList<Item>(two).moveToBack(handle)).toThrow();
+
+      const shifted = items.pushHandle(two);
+      items.shift();
+      expect(() => items.insertAfter(shifted, three)).toThrow();
+    });
+
+    it('can insert items before and after a handle', function () {
+      const items = new LinkedList<Item>();
+      const handleTwo = items.pushHandle(two);
+
+      items.insertBefore(handleTwo, one);
+      validateNotEmpty(items, 2, one, two);
+      validateIteration(items, [one, two]);
+
+      const handleFour = items.insertAfter(handleTwo, four);
+      validateNotEmpty(items, 3, one, four);
+      validateIteration(items, [one, two, four]);
+
+      items.insertBefore(handleFour, three);
+      validateNotEmpty(items, 4, one, four);
+      validateIteration(items, [one, two, three, four]);
+    });
+
+    it('can move items to the front and back using their handles', function () {
+      const items = new LinkedList<Item>();
+      const handleOne = items.pushHandle(one);
+      const handleTwo = items.pushHandle(two);
+      const handleThree = items.pushHandle(three);
+
+      items.moveToFront(handleTwo);
+      validateNotEmpty(items, 3, two, three);
+      validateIteration(items, [two, one, three]);
+
+      items.moveToBack(handleOne);
+      validateNotEmpty(items, 3, two, one);
+      validateIteration(items, [two, three, one]);
+
+      items.moveToFront(handleTwo).moveToBack(handleOne);
+      validateIteration(items, [two, three, one]);
+
+      items.moveToFront(handleOne).moveToBack(handleThree);
+      items.push(four);
+      validateNotEmpty(items, 4, one, four);
+      validateIteration(items, [one, two, three, four]);
+    });
   });
 
   describe('Doubly linked lists', function () {
@@ -395,5 +469,472 @@ describe('LinkedList Tests', function () {
       validateEmpty(items);
       validateIteration(items, []);
     });
+
+    it('can remove items using their handles', function () {
+      const items = new DoublyLinkedList<Item>();
+      const handleOne = items.pushHandle(one);
+      const handleTwo = items.pushHandle(two);
+      const handleThree = items.pushHandle(three);
+      expect(handleTwo.item).toBe(two);
+
+      expect(items.remove(handleTwo)).toBe(two);
+      validateNotEmpty(items, 2, one, three);
+      validateIteration(items, [one, three]);
+
+      expect(items.remove(handleThree)).toBe(three);
+      validateNotEmpty(items, 1, one, one);
+      validateIteration(items, [one]);
+
+      expect(items.remove(handleOne)).toBe(one);
+      validateEmpty(items);
+      validateIteration(items, []);
+    });
+
+    it('should reject handles that are no longer in the list', function () {
+      const items = new DoublyLinkedList<Item>();
+      const handle = items.unshiftHandle(one);
+      items.remove(handle);
+
+      expect(() => items.remove(handle)).toThrow();
+      expect(() => new DoublyLinkedList<Item>(two).moveToBack(handle)).toThrow();
+
+      const shifted = items.pushHandle(two);
+      items.shift();
+      expect(() => items.insertAfter(shifted, three)).toThrow();
+    });
+
+    it('can insert items before and after a handle', function () {
+      const items = new DoublyLinkedList<Item>();
+      const handleTwo = items.pushHandle(two);
+
+      items.insertBefore(handleTwo, one);
+      validateNotEmpty(items, 2, one, two);
+      validateIteration(items, [one, two]);
+
+      const handleFour = items.insertAfter(handleTwo, four);
+      validateNotEmpty(items, 3, one, four);
+      validateIteration(items, [one, two, four]);
+
+      items.insertBefore(handleFour, three);
+      validateNotEmpty(items, 4, one, four);
+      validateIteration(items, [one, two, three, four]);
+    });
+
+    it('can move items to the front and back using their handles', function () {
+      const items = new DoublyLinkedList<Item>();
+      const handleOne = items.pushHandle(one);
+      const handleTwo = items.pushHandle(two);
+      const handleThree = items.pushHandle(three);
+
+      items.moveToFront(handleTwo);
+      validateNotEmpty(items, 3, two, three);
+      validateIteration(items, [two, one, three]);
+
+      items.moveToBack(handleOne);
+      validateNotEmpty(items, 3, two, one);
+      validateIteration(items, [two, three, one]);
+
+      items.moveToFront(handleTwo).moveToBack(handleOne);
+      validateIteration(items, [two, three, one]);
+
+      items.moveToFront(handleOne).moveToBack(handleThree);
+      items.push(four);
+      validateNotEmpty(items, 4, one, four);
+      validateIteration(items, [one, two, three, four]);
+    });
+  });
+
+  describe('array-like API', function () {
+    const listTypes = [
+      ['singly', (...items: number[]) => new LinkedList<number>(...items)],
+      ['doubly', (...items: number[]) => new DoublyLinkedList<number>(...items)],
+    ] as const;
+
+    // Make sure the list is consistent in both directions when it can be
+    // iterated in reverse
+    function validateItems(items: LinkedList<number>, expected: number[]) {
+      expect(items.toArray()).toEqual(expected);
+      expect(items.length()).toEqual(expected.length);
+      expect(items.first()).toEqual(expected[0]);
+      expect(items.last()).toEqual(expected[expected.length - 1]);
+      if (items instanceof DoublyLinkedList) {
+        expect(Array.from(items.riterator())).toEqual([...expected].reverse());
+      }
+    }
+
+    listTypes.forEach(([kind, create]) => {
+      describe(`${kind} linked lists`, function () {
+        it('can get items by position', function () {
+          const items = create(10, 20, 30, 40, 50);
+          expect(items.at(0)).toEqual(10);
+          expect(items.at(3)).toEqual(40);
+          expect(items.at(4)).toEqual(50);
+          expect(items.at(-1)).toEqual(50);
+          expect(items.at(-5)).toEqual(10);
+          expect(items.at(5)).not.toBeDefined();
+          expect(items.at(-6)).not.toBeDefined();
+          expect(create().at(0)).not.toBeDefined();
+        });
+
+        it('can search for items', function () {
+          const items = create(1, 2, NaN, 2);
+          expect(items.indexOf(2)).toEqual(1);
+          expect(items.indexOf(2, 2)).toEqual(3);
+          expect(items.indexOf(2, -1)).toEqual(3);
+          expect(items.indexOf(5)).toEqual(-1);
+          expect(items.indexOf(NaN)).toEqual(-1);
+          expect(items.includes(NaN)).toEqual(true);
+          expect(items.includes(5)).toEqual(false);
+          expect(items.find((item, index) => item > 1 && index > 1)).toEqual(2);
+          expect(items.find((item) => item > 5)).not.toBeDefined();
+        });
+
+        it('can iterate and transform items', function () {
+          const items = create(1, 2, 3);
+          const seen: string[] = [];
+          items.forEach((item, index) => seen.push(`${index}:${item}`));
+          expect(seen).toEqual(['0:1', '1:2', '2:3']);
+
+          const doubled = items.map((item) => item * 2);
+          expect(doubled).toBeInstanceOf(items.constructor);
+          validateItems(doubled, [2, 4, 6]);
+
+          const odd = items.filter((item) => item % 2);
+          expect(odd).toBeInstanceOf(items.constructor);
+          validateItems(odd, [1, 3]);
+          validateItems(items, [1, 2, 3]);
+        });
+
+        it('can slice and concatenate', function () {
+          const items = create(1, 2, 3, 4);
+          validateItems(items.slice(), [1, 2, 3, 4]);
+          validateItems(items.slice(1, 3), [2, 3]);
+          validateItems(items.slice(-2), [3, 4]);
+          validateItems(items.slice(3, 1), []);
+          validateItems(items.concat([5], create(6)), [1, 2, 3, 4, 5, 6]);
+          validateItems(items, [1, 2, 3, 4]);
+        });
+
+        it('can remove items matching a predicate', function () {
+          const items = create(1, 2, 3, 4, 5, 6);
+          expect(items.removeWhere((item) => item % 2 === 0)).toEqual(3);
+          validateItems(items, [1, 3, 5]);
+          expect(items.removeWhere((_item, index) => index !== 1)).toEqual(2);
+          validateItems(items, [3]);
+          expect(items.removeWhere(() => true)).toEqual(1);
+          validateItems(items, []);
+        });
+
+        it('can splice items', function () {
+          const items = create(1, 2, 3, 4, 5);
+          validateItems(items.splice(1, 2, 7, 8, 9), [2, 3]);
+          validateItems(items, [1, 7, 8, 9, 4, 5]);
+
+          validateItems(items.splice(0, 1), [1]);
+          validateItems(items.splice(-1, 5, 10), [5]);
+          validateItems(items, [7, 8, 9, 4, 10]);
+
+          validateItems(items.splice(2), [9, 4, 10]);
+          validateItems(items, [7, 8]);
+          validateItems(items.splice(0, 0, 6), []);
+          validateItems(items, [6, 7, 8]);
+          expect(items.splice(0)).toBeInstanceOf(items.constructor);
+          validateItems(items, []);
+        });
+
+        it('should only remove everything when the delete count is omitted', function () {
+          const items = create(1, 2, 3);
+          validateItems(items.splice(1, undefined), []);
+          validateItems(items.splice(1, undefined, 4), []);
+          validateItems(items, [1, 4, 2, 3]);
+          validateItems(items.splice(2, NaN), []);
+          validateItems(items.splice(2), [2, 3]);
+          validateItems(items, [1, 4]);
+        });
+
+        it('can reverse in place', function () {
+          const items = create(1, 2, 3, 4);
+          expect(items.reverse()).toBe(items);
+          validateItems(items, [4, 3, 2, 1]);
+          items.push(0);
+          validateItems(items, [4, 3, 2, 1, 0]);
+          validateItems(create(1).reverse(), [1]);
+          validateItems(create().reverse(), []);
+        });
+
+        it('can append another list in place', function () {
+          const items = create(1, 2);
+          const other = create(3, 4);
+          expect(items.append(other)).toBe(items);
+          validateItems(items, [1, 2, 3, 4]);
+          validateItems(other, []);
+
+          other.push(5);
+          validateItems(items.append(other), [1, 2, 3, 4, 5]);
+          validateItems(items.append(create()), [1, 2, 3, 4, 5]);
+          validateItems(create().append(items), [1, 2, 3, 4, 5]);
+          expect(() => other.append(other)).toThrow('Cannot append a list to itself');
+        });
+
+        it('can clear the list', function () {
+          const items = create(1, 2, 3);
+          expect(items.clear()).toBe(items);
+          validateItems(items, []);
+          validateItems(items.push(4), [4]);
+        });
+      });
+    });
+
+    it('should transfer handles when appending', function () {
+      const items = new DoublyLinkedList<Item>(one);
+      const other = new DoublyLinkedList<Item>();
+      const handle = other.pushHandle(two);
+      other.pushHandle(three);
+
+      items.append(other);
+      expect(() => other.remove(handle)).toThrow('Handle does not refer to an item in this list');
+      items.moveToFront(handle);
+      expect(items.toArray()).toEqual([two, one, three]);
+
+      // Handles remain valid after being handed on more than once
+      const another = new DoublyLinkedList<Item>(four);
+      another.append(items);
+      expect(another.remove(handle)).toBe(two);
+      expect(another.toArray()).toEqual([four, one, three]);
+    });
+
+    it('should link up the nodes of a singly linked list appended to a doubly linked one', function () {
+      const items = new DoublyLinkedList<Item>(one);
+      const other = new LinkedList<Item>(two, three);
+      items.append(other);
+
+      expect(items.toArray()).toEqual([one, two, three]);
+      expect(Array.from(items.riterator())).toEqual([three, two, one]);
+      expect(items.pop()).toBe(three);
+      expect(items.pop()).toBe(two);
+      expect(items.toArray()).toEqual([one]);
+      expect(other.toArray()).toEqual([]);
+
+      const empty = new DoublyLinkedList<Item>().append(new LinkedList<Item>(two, three));
+      expect(Array.from(empty.riterator())).toEqual([three, two]);
+      expect(new LinkedList<Item>(four).append(empty).toArray()).toEqual([four, two, three]);
+    });
+
+    it('should invalidate handles when cleared', function () {
+      const items = new LinkedList<Item>();
+      const handle = items.pushHandle(one);
+      items.clear();
+      expect(() => items.remove(handle)).toThrow('Handle does not refer to an item in this list');
+    });
+
+    it('can notify listeners of changes', function () {
+      const items = new DoublyLinkedList<number>(1, 2, 3);
+      const listener = jest.fn();
+      items.subscribe(listener);
+
+      items.splice(1, 1, 5, 6);
+      expect(listener).toHaveBeenLastCalledWith([
+        { type: 'delete', item: 2 },
+        { type: 'add', item: 5 },
+        { type: 'add', item: 6 },
+      ]);
+      items.removeWhere((item) => item > 4);
+      expect(listener).toHaveBeenLastCalledWith([
+        { type: 'delete', item: 5 },
+        { type: 'delete', item: 6 },
+      ]);
+      items.reverse();
+      expect(listener).toHaveBeenLastCalledWith([
+        { type: 'move', item: 3 },
+        { type: 'move', item: 1 },
+      ]);
+
+      const other = new DoublyLinkedList<number>(7);
+      const otherListener = jest.fn();
+      other.subscribe(otherListener);
+      items.append(other);
+      expect(listener).toHaveBeenLastCalledWith([{ type: 'add', item: 7 }]);
+      expect(otherListener).toHaveBeenCalledWith([{ type: 'clear' }]);
+
+      items.clear();
+      expect(listener).toHaveBeenLastCalledWith([{ type: 'clear' }]);
+      expect(listener).toHaveBeenCalledTimes(5);
+    });
+  });
+
+  describe('Deque', function () {
+    function drainBothEnds(deque: Deque<number>): number[] {
+      const items: number[] = [];
+      while (!deque.empty()) {
+        items.push(deque.pop() as number);
+        deque.empty() || items.push(deque.shift() as number);
+      }
+      return items;
+    }
+
+    it('can treat both kinds of list the same way', function () {
+      const deques: Deque<number>[] = [new LinkedList<number>(), new DoublyLinkedList<number>()];
+      for (const deque of deques) {
+        deque.push(3, 4).unshift(1, 2);
+        expect(deque.length()).toEqual(4);
+        expect(deque.first()).toEqual(1);
+        expect(deque.last()).toEqual(4);
+        expect(Array.from(deque.riterator())).toEqual([4, 3, 2, 1]);
+        expect(drainBothEnds(deque)).toEqual([4, 1, 3, 2]);
+        expect(deque.pop()).not.toBeDefined();
+      }
+    });
+
+    it('can pop from a singly linked list', function () {
+      const items = new LinkedList<Item>(one, two);
+      const handle = items.pushHandle(three);
+      expect(items.pop()).toBe(three);
+      expect(() => items.remove(handle)).toThrow();
+      validateNotEmpty(items, 2, one, two);
+
+      items.push(four);
+      expect(items.pop()).toBe(four);
+      expect(items.pop()).toBe(two);
+      expect(items.pop()).toBe(one);
+      validateEmpty(items);
+    });
+
+    it('can iterate a singly linked list in reverse', function () {
+      const items = new LinkedList<Item>(one, two, three);
+      const iterator = items.riterator();
+      items.push(four);
+      expect(Array.from(iterator)).toEqual([three, two, one]);
+      expect(Array.from(items.riterator())).toEqual([four, three, two, one]);
+      expect(Array.from(new LinkedList<Item>().riterator())).toEqual([]);
+    });
+  });
+
+  describe('iterators', function () {
+    it('can peek at the next item', function () {
+      const iterator = new LinkedList<Item>(one, two)[Symbol.iterator]();
+      expect(iterator.peek()).toBe(one);
+      expect(iterator.peek()).toBe(one);
+      expect(iterator.next()).toEqual({ done: false, value: one });
+      expect(iterator.peek()).toBe(two);
+      expect(iterator.done()).toEqual(false);
+      iterator.next();
+      expect(iterator.peek()).not.toBeDefined();
+      expect(iterator.done()).toEqual(true);
+      expect(iterator.next().done).toEqual(true);
+    });
+
+    it('can restart iterating', function () {
+      const items = new DoublyLinkedList<Item>(one, two, three);
+      const forward = items[Symbol.iterator]();
+      expect(Array.from(forward)).toEqual([one, two, three]);
+      expect(Array.from(forward)).toEqual([]);
+      expect(Array.from(forward.restart())).toEqual([one, two, three]);
+
+      const reverse = items.riterator();
+      reverse.next();
+      expect(reverse.restart().peek()).toBe(three);
+      expect(Array.from(reverse)).toEqual([three, two, one]);
+
+      const singly = new LinkedList<Item>(one, two).riterator();
+      expect(Array.from(singly)).toEqual([two, one]);
+      expect(Array.from(singly.restart())).toEqual([two, one]);
+    });
+  });
+
+  describe('subscribe', function () {
+    it('can notify listeners of changes to a singly linked list', function () {
+      const items = new LinkedList<Item>(one);
+      const listener = jest.fn();
+      items.subscribe(listener);
+
+      items.push(two, three);
+      expect(listener).toHaveBeenLastCalledWith([
+        { type: 'add', item: two },
+        { type: 'add', item: three },
+      ]);
+
+      const handle = items.unshiftHandle(four);
+      expect(listener).toHaveBeenLastCalledWith([{ type: 'add', item: four }]);
+      items.moveToBack(handle);
+      expect(listener).toHaveBeenLastCalledWith([{ type: 'move', item: four }]);
+      items.remove(handle);
+      expect(listener).toHaveBeenLastCalledWith([{ type: 'delete', item: four }]);
+      items.shift();
+      expect(listener).toHaveBeenLastCalledWith([{ type: 'delete', item: one }]);
+      expect(listener).toHaveBeenCalledTimes(5);
+
+      items.unsubscribe(listener).push(one);
+      expect(listener).toHaveBeenCalledTimes(5);
+    });
+
+    it('can notify listeners of changes to a doubly linked list', function () {
+      const items = new DoublyLinkedList<Item>(one, two, three);
+      const listener = jest.fn();
+      items.subscribe(listener);
+
+      items.shift();
+      expect(listener).toHaveBeenLastCalledWith([{ type: 'delete', item: one }]);
+      items.pop();
+      expect(listener).toHaveBeenLastCalledWith([{ type: 'delete', item: three }]);
+
+      items.transaction(() => items.unshift(one).push(three));
+      expect(listener).toHaveBeenCalledTimes(3);
+      expect(listener).toHaveBeenLastCalledWith([
+        { type: 'add', item: one },
+        { type: 'add', item: three },
+      ]);
+    });
+
+    it('should see a consistent list when notified', function () {
+      const items = new DoublyLinkedList<Item>(one, two);
+      const listener = jest.fn(() => {
+        expect(items.toArray()).toEqual([two]);
+        expect(Array.from(items.riterator())).toEqual([two]);
+      });
+      items.subscribe(listener);
+      items.shift();
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('from', function () {
+    it('can create a singly linked list from an iterable', function () {
+      const items: LinkedList<Item> = LinkedList.from(new Set([one, two]));
+      expect(items).toBeInstanceOf(LinkedList);
+      expect(items.toArray()).toEqual([one, two]);
+    });
+
+    it('can create a doubly linked list from an iterable', function () {
+      const items: DoublyLinkedList<Item> = DoublyLinkedList.from([one, two]);
+      expect(items).toBeInstanceOf(DoublyLinkedList);
+      expect(items.pop()).toBe(two);
+      expect(items.toArray()).toEqual([one]);
+    });
+
+    it('can create lists too large to pass as arguments', function () {
+      const numbers = Array.from({ length: 500000 }, (_, index) => index);
+      expect(LinkedList.from(numbers).length()).toEqual(500000);
+      expect(DoublyLinkedList.from(numbers).last()).toEqual(499999);
+    });
+  });
+
+  describe('fromAsync', function () {
+    async function* stream(): AsyncGenerator<Item> {
+      yield one;
+      yield two;
+    }
+
+    it('can create a singly linked list from an async iterable', async function () {
+      const items: LinkedList<Item> = await LinkedList.fromAsync(stream());
+      expect(items).toBeInstanceOf(LinkedList);
+      expect(items.toArray()).toEqual([one, two]);
+    });
+
+    it('can create a doubly linked list from an async iterable', async function () {
+      const items: DoublyLinkedList<Item> = await DoublyLinkedList.fromAsync(stream());
+      expect(items).toBeInstanceOf(DoublyLinkedList);
+      expect(items.pop()).toBe(two);
+      expect(items.toArray()).toEqual([one]);
+    });
   });
 });
@@ -1,3 +1,24 @@
+import type { AnyIterable } from './AsyncIteration';
+import { ChangeListener, ChangeNotifier, ListChange } from './ChangeNotifier';
+import type { Deque } from './Deque';
+import { Seq } from './Seq';
+
+/**
+ * Records which list a set of nodes belongs to. Rather than each node referring
+ * to its list directly, the nodes created by a list share an owner so that
+ * ownership of all of them can be handed to another list in O(1) when they are
+ * appended to it, or revoked in O(1) when the list is cleared.
+ *
+ * @typeParam Item - the type of items handled by the list
+ */
+interface LinkedListOwner<Item> {
+  // The list that owns the nodes or undefined if they have been handed on
+  list?: LinkedList<Item>;
+
+  // The owner the nodes were handed to when appended to another list
+  next?: LinkedListOwner<Item>;
+}
+
 /**
  * A node in a linked list. Note that we use the same type of node for both
  * singly and doubly linked lists. However the previous pointer is not
@@ -9,6 +30,9 @@ interface LinkedListNode<Item> {
   // The item that the node contains
   item: Item;
 
+  // The owner of the node or undefined if it has been removed
+  owner?: LinkedListOwner<Item>;
+
   // The previous item in the list or undefined if this is the first
   prev?: LinkedListNode<Item>;
 
@@ -16,6 +40,18 @@ interface LinkedListNode<Item> {
   next?: LinkedListNode<Item>;
 }
 
+/**
+ * An opaque handle to an item in a linked list. A handle is returned when an
+ * item is added to a list and can later be given back to the list to operate
+ * on that item directly without having to search for it.
+ *
+ * @typeParam Item - the type of items handled by the list
+ */
+export interface LinkedListHandle<Item> {
+  // The item the handle refers to
+  readonly item: Item;
+}
+
 /**
  * A chain is a collection of linked nodes delineated by its first and last
  * nodes.
@@ -38,7 +74,7 @@ interface LinkedListChain<Item> {
  *
  * @typeParam Item - the type of items handled by the list
  */
-export class LinkedList<Item> implements Iterable<Item> {
+export class LinkedList<Item> implements Deque<Item> {
   // The head node of the list
   protected head?: LinkedListNode<Item>;
 
@@ -48,6 +84,12 @@ export class LinkedList<Item> implements Iterable<Item> {
   // The number of items in the list
   protected count = 0;
 
+  // Publishes the changes made to the list, created on first subscription
+  protected changes?: ChangeNotifier<ListChange<Item>>;
+
+  // The owner of the nodes created by or handed to the list
+  protected owner: LinkedListOwner<Item> = { list: this };
+
   /**
    * Constructor
    *
@@ -60,6 +102,65 @@ export class LinkedList<Item> implements Iterable<Item> {
     }
   }
 
+  /**
+   * Create a list from a collection of items of any size, unlike the
+   * constructor which is limited by the number of arguments a call can take
+   *
+   * @typeParam Item - the type of item stored in the list
+   * @param items - the items of the list
+   * @returns the list
+   */
+  public static from<Item>(items: Iterable<Item>): LinkedList<Item> {
+    return LinkedList.pushAll(new LinkedList<Item>(), items);
+  }
+
+  /**
+   * Create a list from a collection of items that may be asynchronous, such as
+   * a database cursor or stream
+   *
+   * @typeParam Item - the type of item stored in the list
+   * @param items - the items of the list
+   * @returns the list
+   */
+  public static async fromAsync<Item>(items: AnyIterable<Item>): Promise<LinkedList<Item>> {
+    return LinkedList.pushAsync(new LinkedList<Item>(), items);
+  }
+
+  /**
+   * Add the items of a collection to the end of a list one at a time
+   *
+   * @typeParam Item - the type of item stored in the list
+   * @typeParam List - the type of list
+   * @param list - the list to add the items to
+   * @param items - the items to add
+   * @returns the list
+   */
+  protected static pushAll<Item, List extends LinkedList<Item>>(list: List, items: Iterable<Item>): List {
+    for (const item of items) {
+      list.push(item);
+    }
+    return list;
+  }
+
+  /**
+   * Add the items of a collection that may be asynchronous to the end of a list
+   *
+   * @typeParam Item - the type of item stored in the list
+   * @typeParam List - the type of list
+   * @param list - the list to add the items to
+   * @param items - the items to add
+   * @returns the list
+   */
+  protected static async pushAsync<Item, List extends LinkedList<Item>>(
+    list: List,
+    items: AnyIterable<Item>
+  ): Promise<List> {
+    for await (const item of items) {
+      list.push(item);
+    }
+    return list;
+  }
+
   /**
    * Get the number of items in the list
    *
@@ -78,6 +179,45 @@ export class LinkedList<Item> implements Iterable<Item> {
     return this.count === 0;
   }
 
+  /**
+   * Add a listener to be notified of changes made to the list. Each change made
+   * outside of a transaction is delivered on its own while those made within a
+   * transaction are delivered together once it completes.
+   *
+   * @param listener - the listener to add
+   * @returns this instance to allow for chaining
+   */
+  public subscribe(listener: ChangeListener<ListChange<Item>>): this {
+    if (this.changes === undefined) {
+      this.changes = new ChangeNotifier();
+    }
+    this.changes.subscribe(listener);
+    return this;
+  }
+
+  /**
+   * Remove a previously added change listener
+   *
+   * @param listener - the listener to remove
+   * @returns this instance to allow for chaining
+   */
+  public unsubscribe(listener: ChangeListener<ListChange<Item>>): this {
+    this.changes?.unsubscribe(listener);
+    return this;
+  }
+
+  /**
+   * Execute a synchronous function as a transaction so that the changes it
+   * makes to the list are delivered to the listeners as a single change set
+   *
+   * @typeParam Result - the type of value returned by the function
+   * @param body - the function to execute
+   * @returns the value returned by the function
+   */
+  public transaction<Result>(body: () => Result): Result {
+    return this.changes === undefined ? body() : this.changes.transaction(body);
+  }
+
   /**
    * Add one or more items to the end of the list
    *
@@ -87,6 +227,7 @@ export class LinkedList<Item> implements Iterable<Item> {
    */
   public push(item: Item, ...others: Item[]): this {
     this.addChainToEnd(this.createChain(item, ...others));
+    this.notifyEach('add', item, others);
     return this;
   }
 
@@ -99,6 +240,7 @@ export class LinkedList<Item> implements Iterable<Item> {
    */
   public unshift(item: Item, ...others: Item[]): this {
     this.addChainToStart(this.createChain(item, ...others));
+    this.notifyEach('add', item, others);
     return this;
   }
 
@@ -120,10 +262,481 @@ export class LinkedList<Item> implements Iterable<Item> {
       this.tail = node.next;
     }
 
+    // The node no longer belongs to the list
+    node.next = undefined;
+    node.owner = undefined;
+
     --this.count;
+    this.changes?.notify({ type: 'delete', item: node.item });
+    return node.item;
+  }
+
+  /**
+   * Remove the tail of the list. This is O(n) for a singly linked list since
+   * the list must be walked to find the new tail, and O(1) for a doubly linked
+   * list.
+   *
+   * @returns the item removed or undefined if the list is empty
+   */
+  public pop(): Item | undefined {
+    const node = this.tail;
+    if (node === undefined) {
+      return undefined;
+    }
+
+    this.removeNode(node, this.prevOf(node));
+    return node.item;
+  }
+
+  /**
+   * Add an item to the end of the list and return a handle to it
+   *
+   * @param item - the item to be added
+   * @returns the handle for the item
+   */
+  public pushHandle(item: Item): LinkedListHandle<Item> {
+    const chain = this.createChain(item);
+    this.addChainToEnd(chain);
+    this.changes?.notify({ type: 'add', item });
+    return chain.first;
+  }
+
+  /**
+   * Add an item to the start of the list and return a handle to it
+   *
+   * @param item - the item to be added
+   * @returns the handle for the item
+   */
+  public unshiftHandle(item: Item): LinkedListHandle<Item> {
+    const chain = this.createChain(item);
+    this.addChainToStart(chain);
+    this.changes?.notify({ type: 'add', item });
+    return chain.first;
+  }
+
+  /**
+   * Insert an item immediately before the item referred to by a handle. This is
+   * O(n) for a singly linked list since the list must be walked to find the
+   * preceding item, and O(1) for a doubly linked list.
+   *
+   * @param handle - the handle of the item to insert before
+   * @param item - the item to be inserted
+   * @returns the handle for the inserted item
+   * @throws Error if the handle does not refer to an item in this list
+   */
+  public insertBefore(handle: LinkedListHandle<Item>, item: Item): LinkedListHandle<Item> {
+    const node = this.nodeOf(handle);
+    const prev = this.prevOf(node);
+    const chain = this.createChain(item);
+    if (prev === undefined) {
+      this.addChainToStart(chain);
+    } else {
+      this.insertChainAfter(prev, chain);
+    }
+    this.changes?.notify({ type: 'add', item });
+    return chain.first;
+  }
+
+  /**
+   * Insert an item immediately after the item referred to by a handle. This is
+   * O(1) for both singly and doubly linked lists.
+   *
+   * @param handle - the handle of the item to insert after
+   * @param item - the item to be inserted
+   * @returns the handle for the inserted item
+   * @throws Error if the handle does not refer to an item in this list
+   */
+  public insertAfter(handle: LinkedListHandle<Item>, item: Item): LinkedListHandle<Item> {
+    const node = this.nodeOf(handle);
+    const chain = this.createChain(item);
+    this.insertChainAfter(node, chain);
+    this.changes?.notify({ type: 'add', item });
+    return chain.first;
+  }
+
+  /**
+   * Remove the item referred to by a handle from the list. The handle is no
+   * longer valid once removed. This is O(n) for a singly linked list and O(1)
+   * for a doubly linked list.
+   *
+   * @param handle - the handle of the item to remove
+   * @returns the item removed
+   * @throws Error if the handle does not refer to an item in this list
+   */
+  public remove(handle: LinkedListHandle<Item>): Item {
+    const node = this.nodeOf(handle);
+    this.unlink(node);
+    node.owner = undefined;
+    this.changes?.notify({ type: 'delete', item: node.item });
     return node.item;
   }
 
+  /**
+   * Move the item referred to by a handle to the start of the list. This is
+   * O(n) for a singly linked list and O(1) for a doubly linked list.
+   *
+   * @param handle - the handle of the item to move
+   * @returns this instance to allow for chaining
+   * @throws Error if the handle does not refer to an item in this list
+   */
+  public moveToFront(handle: LinkedListHandle<Item>): this {
+    const node = this.nodeOf(handle);
+    if (node !== this.head) {
+      this.unlink(node);
+      this.addChainToStart({ first: node, last: node, count: 1 });
+      this.changes?.notify({ type: 'move', item: node.item });
+    }
+    return this;
+  }
+
+  /**
+   * Move the item referred to by a handle to the end of the list. This is O(n)
+   * for a singly linked list and O(1) for a doubly linked list.
+   *
+   * @param handle - the handle of the item to move
+   * @returns this instance to allow for chaining
+   * @throws Error if the handle does not refer to an item in this list
+   */
+  public moveToBack(handle: LinkedListHandle<Item>): this {
+    const node = this.nodeOf(handle);
+    if (node !== this.tail) {
+      this.unlink(node);
+      this.addChainToEnd({ first: node, last: node, count: 1 });
+      this.changes?.notify({ type: 'move', item: node.item });
+    }
+    return this;
+  }
+
+  /**
+   * Remove every item that matches a predicate. This is O(n) for both singly
+   * and doubly linked lists.
+   *
+   * @param predicate - a function returning a truthy value for any item, given
+   * with its position, that should be removed
+   * @returns the number of items removed
+   */
+  public removeWhere(predicate: (item: Item, index: number) => unknown): number {
+    return this.transaction(() => {
+      let removed = 0;
+      let index = 0;
+      let prev: LinkedListNode<Item> | undefined;
+      for (let node = this.head; node !== undefined; ) {
+        const next = node.next;
+        if (predicate(node.item, index++)) {
+          this.removeNode(node, prev);
+          ++removed;
+        } else {
+          prev = node;
+        }
+        node = next;
+      }
+      return removed;
+    });
+  }
+
+  /**
+   * Remove items from the list and insert others in their place, in the same
+   * way as `Array.prototype.splice`. A negative start counts back from the end
+   * of the list.
+   *
+   * @param start - the position to start removing items from
+   * @param args - the number of items to remove followed by the items to insert
+   * at the start position. As with arrays, all items from the start position
+   * onwards are removed only if the count is omitted, whereas an explicit
+   * undefined count removes none.
+   * @returns a new list containing the items removed
+   */
+  public splice(start: number, ...args: [deleteCount?: number, ...items: Item[]]): LinkedList<Item> {
+    const [deleteCount, ...items] = args;
+    const from = this.relativeIndex(start);
+    const deleting =
+      args.length === 0
+        ? this.count - from
+        : Math.min(Math.max(Math.trunc(deleteCount ?? 0) || 0, 0), this.count - from);
+
+    return this.transaction(() => {
+      // Remove the items following the node before the start position
+      const prev = from > 0 ? this.nodeAt(from - 1) : undefined;
+      const removed = this.createList<Item>();
+      for (let count = 0; count < deleting; ++count) {
+        const node = (prev === undefined ? this.head : prev.next) as LinkedListNode<Item>;
+        this.removeNode(node, prev);
+        removed.push(node.item);
+      }
+
+      // And insert the new items in their place
+      if (items.length > 0) {
+        const chain = this.createChain(items[0], ...items.slice(1));
+        if (prev === undefined) {
+          this.addChainToStart(chain);
+        } else {
+          this.insertChainAfter(prev, chain);
+        }
+        this.notifyAll('add', items);
+      }
+      return removed;
+    });
+  }
+
+  /**
+   * Reverse the order of the items in place. Listeners are told each item has
+   * moved.
+   *
+   * @returns this instance to allow for chaining
+   */
+  public reverse(): this {
+    if (this.count > 1) {
+      this.reverseLinks();
+      this.notifyAll('move', this);
+    }
+    return this;
+  }
+
+  /**
+   * Move all of the items of another list to the end of this list, leaving the
+   * other list empty. This is O(1) since the nodes of the other list are
+   * relinked rather than copied. Handles to the items of the other list remain
+   * valid and now refer to items in this list.
+   *
+   * @param other - the list whose items are to be moved
+   * @returns this instance to allow for chaining
+   * @throws Error if the other list is this list
+   */
+  public append(other: LinkedList<Item>): this {
+    if (other === this) {
+      throw new Error('Cannot append a list to itself');
+    }
+    if (other.head === undefined || other.tail === undefined) {
+      return this;
+    }
+
+    return this.transaction(() => {
+      this.notifyAll('add', other);
+      this.addChainToEnd({
+        first: other.head as LinkedListNode<Item>,
+        last: other.tail as LinkedListNode<Item>,
+        count: other.count,
+      });
+
+      // Hand the nodes over to this list and give the other list a new owner
+      // for any nodes it creates from now on
+      other.owner.list = undefined;
+      other.owner.next = this.owner;
+      other.owner = { list: other };
+      other.head = undefined;
+      other.tail = undefined;
+      other.count = 0;
+      other.changes?.notify({ type: 'clear' });
+      return this;
+    });
+  }
+
+  /**
+   * Remove all items from the list. This is O(1) and invalidates the handles of
+   * all items that were in the list.
+   *
+   * @returns this instance to allow for chaining
+   */
+  public clear(): this {
+    if (this.count > 0) {
+      this.owner.list = undefined;
+      this.owner = { list: this };
+      this.head = undefined;
+      this.tail = undefined;
+      this.count = 0;
+      this.changes?.notify({ type: 'clear' });
+    }
+    return this;
+  }
+
+  /**
+   * Publish a change of the same type for each of a number of items, delivering
+   * them as a single change set
+   *
+   * @param type - the type of change
+   * @param item - the first item affected
+   * @param others - the other items affected
+   */
+  protected notifyEach(type: 'add' | 'delete' | 'move', item: Item, others: Item[]) {
+    const changes = this.changes;
+    if (changes?.active()) {
+      changes.transaction(() => {
+        changes.notify({ type, item });
+        others.forEach((other) => changes.notify({ type, item: other }));
+      });
+    }
+  }
+
+  /**
+   * Publish a change of the same type for each item of a collection,
+   * delivering them as a single change set. The collection is only iterated if
+   * someone is listening.
+   *
+   * @param type - the type of change
+   * @param items - the items affected
+   */
+  protected notifyAll(type: 'add' | 'delete' | 'move', items: Iterable<Item>) {
+    const changes = this.changes;
+    if (changes?.active()) {
+      changes.transaction(() => {
+        for (const item of items) {
+          changes.notify({ type, item });
+        }
+      });
+    }
+  }
+
+  /**
+   * Remove a node from the list given the node preceding it, notifying any
+   * listeners
+   *
+   * @param node - the node to remove
+   * @param prev - the node preceding it or undefined if it is the head
+   */
+  protected removeNode(node: LinkedListNode<Item>, prev: LinkedListNode<Item> | undefined) {
+    this.unlink(node, prev);
+    node.owner = undefined;
+    this.changes?.notify({ type: 'delete', item: node.item });
+  }
+
+  /**
+   * Find the node at a position in the list by walking from the head
+   *
+   * @param index - the position of the node, which must be within the list
+   * @returns the node or undefined if the position is outside the list
+   */
+  protected nodeAt(index: number): LinkedListNode<Item> | undefined {
+    if (index < 0 || index >= this.count) {
+      return undefined;
+    }
+
+    let node = this.head;
+    for (let position = 0; position < index; ++position) {
+      node = node?.next;
+    }
+    return node;
+  }
+
+  /**
+   * Convert a position that may be negative, counting back from the end of the
+   * list, into one between zero and the length of the list inclusive, in the
+   * same way as the array methods do
+   *
+   * @param index - the position to convert
+   * @returns the equivalent position within the list
+   */
+  protected relativeIndex(index: number): number {
+    const integer = Math.trunc(index) || 0;
+    return integer < 0 ? Math.max(this.count + integer, 0) : Math.min(integer, this.count);
+  }
+
+  /**
+   * Create an empty list of the same kind as this one
+   *
+   * @typeParam Other - the type of items handled by the new list
+   * @returns the new list
+   */
+  protected createList<Other>(): LinkedList<Other> {
+    return new LinkedList<Other>();
+  }
+
+  /**
+   * Reverse the links between the nodes of the list
+   */
+  protected reverseLinks() {
+    let prev: LinkedListNode<Item> | undefined;
+    let node = this.head;
+    this.tail = node;
+    while (node !== undefined) {
+      const next = node.next;
+      node.next = prev;
+      prev = node;
+      node = next;
+    }
+    this.head = prev;
+  }
+
+  /**
+   * Convert a handle back into the node it refers to, making sure that the
+   * node is still a member of this list.
+   *
+   * @param handle - the handle to convert
+   * @returns the node for the handle
+   * @throws Error if the handle does not refer to an item in this list
+   */
+  protected nodeOf(handle: LinkedListHandle<Item>): LinkedListNode<Item> {
+    const node = handle as LinkedListNode<Item>;
+
+    // Follow the owner of the node to whichever list it was handed to, making
+    // the node refer directly to that owner to shorten the search next time
+    let owner = node.owner;
+    while (owner?.next !== undefined) {
+      owner = owner.next;
+    }
+    if (owner?.list !== this) {
+      throw new Error('Handle does not refer to an item in this list');
+    }
+    node.owner = owner;
+    return node;
+  }
+
+  /**
+   * Find the node preceding a given node in the list. Since a singly linked
+   * list has no previous pointers, this requires walking the list from the
+   * head and so is O(n).
+   *
+   * @param node - the node whose predecessor is required
+   * @returns the preceding node or undefined if the node is the head
+   */
+  protected prevOf(node: LinkedListNode<Item>): LinkedListNode<Item> | undefined {
+    let prev: LinkedListNode<Item> | undefined;
+    for (let ptr = this.head; ptr !== node; ptr = ptr?.next) {
+      prev = ptr;
+    }
+    return prev;
+  }
+
+  /**
+   * Detach a node from its neighbours, leaving the node itself still marked as
+   * belonging to the list.
+   *
+   * @param node - the node to detach
+   * @param prev - the node preceding it if already known, which saves walking
+   * the list to find it
+   */
+  protected unlink(node: LinkedListNode<Item>, prev = this.prevOf(node)) {
+    // Link the previous node to the next node, moving the head if the node is
+    // at the start of the list.
+    if (prev !== undefined) {
+      prev.next = node.next;
+    } else {
+      this.head = node.next;
+    }
+
+    // If the node was the tail then the previous node becomes the tail
+    if (this.tail === node) {
+      this.tail = prev;
+    }
+
+    node.next = undefined;
+    --this.count;
+  }
+
+  /**
+   * Insert a chain of nodes immediately after a given node in the list
+   *
+   * @param node - the node to insert the chain after
+   * @param chain - the chain to be inserted
+   */
+  protected insertChainAfter(node: LinkedListNode<Item>, chain: LinkedListChain<Item>) {
+    chain.last.next = node.next;
+    node.next = chain.first;
+    if (this.tail === node) {
+      this.tail = chain.last;
+    }
+    this.count += chain.count;
+  }
+
   /**
    * Given an array of items, convert them into a chain of nodes.
    *
@@ -134,13 +747,13 @@ export class LinkedList<Item> implements Iterable<Item> {
   protected createChain(item: Item, ...others: Item[]): LinkedListChain<Item> {
     // Create the first node in the chain
     let count = 1;
-    const first: LinkedListNode<Item> = { item };
+    const first: LinkedListNode<Item> = { item, owner: this.owner };
     let last: LinkedListNode<Item> = first;
 
     // And connect each other item
     if (others.length > 0) {
       for (const nextItem of others) {
-        last.next = { item: nextItem };
+        last.next = { item: nextItem, owner: this.owner };
         last = last.next;
         ++count;
       }
@@ -196,10 +809,26 @@ export class LinkedList<Item> implements Iterable<Item> {
    *
    * @returns the iterator
    */
-  [Symbol.iterator](): Iterator<Item> {
+  [Symbol.iterator](): LinkedListForwardIterator<Item> {
     return new LinkedListForwardIterator(this.head);
   }
 
+  /**
+   * Return a reverse iterator for the list. A singly linked list has no
+   * previous pointers so this walks the list once, building a chain of the
+   * items linked backwards, which is O(n) in both time and memory. The
+   * iterator reflects the items in the list at the time it was created.
+   *
+   * @returns the iterator
+   */
+  public riterator(): LinkedListReverseIterator<Item> {
+    let prev: LinkedListNode<Item> | undefined;
+    for (let node = this.head; node !== undefined; node = node.next) {
+      prev = { item: node.item, prev };
+    }
+    return new LinkedListReverseIterator(prev);
+  }
+
   /**
    * Return the first item in the list without removing it
    *
@@ -218,6 +847,159 @@ export class LinkedList<Item> implements Iterable<Item> {
     return this.tail?.item;
   }
 
+  /**
+   * Get the item at a position in the list. A negative position counts back
+   * from the end of the list. This is O(n) since the list must be walked to
+   * find the item.
+   *
+   * @param index - the position of the item
+   * @returns the item or undefined if the position is outside the list
+   */
+  public at(index: number): Item | undefined {
+    const position = Math.trunc(index) || 0;
+    return this.nodeAt(position < 0 ? this.count + position : position)?.item;
+  }
+
+  /**
+   * Find the position of the first occurrence of an item using strict equality
+   *
+   * @param item - the item to look for
+   * @param fromIndex - optional position to start searching from, which may be
+   * negative to count back from the end of the list
+   * @returns the position of the item or -1 if it is not found
+   */
+  public indexOf(item: Item, fromIndex = 0): number {
+    const from = this.relativeIndex(fromIndex);
+    let index = 0;
+    for (let node = this.head; node !== undefined; node = node.next, ++index) {
+      if (index >= from && node.item === item) {
+        return index;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Find the first item that matches a predicate
+   *
+   * @param predicate - a function returning a truthy value for a matching item,
+   * given with its position
+   * @returns the first matching item or undefined if there is none
+   */
+  public find(predicate: (item: Item, index: number) => unknown): Item | undefined {
+    let index = 0;
+    for (let node = this.head; node !== undefined; node = node.next) {
+      if (predicate(node.item, index++)) {
+        return node.item;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Determine if the list contains an item, using the same comparison as
+   * `Array.prototype.includes` so that `NaN` can be found
+   *
+   * @param item - the item to look for
+   * @returns true if the item is in the list
+   */
+  public includes(item: Item): boolean {
+    for (let node = this.head; node !== undefined; node = node.next) {
+      if (node.item === item || (node.item !== node.item && item !== item)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Invoke a function for each item in the list
+   *
+   * @param body - the function to invoke for each item and its position
+   */
+  public forEach(body: (item: Item, index: number) => void) {
+    let index = 0;
+    for (let node = this.head; node !== undefined; node = node.next) {
+      body(node.item, index++);
+    }
+  }
+
+  /**
+   * Transform each item in the list into a new list of the same kind
+   *
+   * @typeParam Result - the type of the transformed items
+   * @param body - the function transforming each item and its position
+   * @returns the new list
+   */
+  public map<Result>(body: (item: Item, index: number) => Result): LinkedList<Result> {
+    const result = this.createList<Result>();
+    this.forEach((item, index) => result.push(body(item, index)));
+    return result;
+  }
+
+  /**
+   * Create a new list of the same kind containing only the items that match a
+   * predicate
+   *
+   * @param predicate - a function returning a truthy value for any item, given
+   * with its position, that should be kept
+   * @returns the new list
+   */
+  public filter(predicate: (item: Item, index: number) => unknown): LinkedList<Item> {
+    const result = this.createList<Item>();
+    this.forEach((item, index) => predicate(item, index) && result.push(item));
+    return result;
+  }
+
+  /**
+   * Copy part of the list into a new list of the same kind, in the same way as
+   * `Array.prototype.slice`. Negative positions count back from the end of the
+   * list.
+   *
+   * @param start - the position of the first item to copy
+   * @param end - the position after the last item to copy
+   * @returns the new list
+   */
+  public slice(start = 0, end = this.count): LinkedList<Item> {
+    const from = this.relativeIndex(start);
+    const to = this.relativeIndex(end);
+    const result = this.createList<Item>();
+    let node = this.nodeAt(from);
+    for (let index = from; index < to && node !== undefined; ++index, node = node.next) {
+      result.push(node.item);
+    }
+    return result;
+  }
+
+  /**
+   * Create a new list of the same kind containing the items of this list
+   * followed by those of other collections. The items are copied, so this is
+   * O(n) in the total number of items and neither this list nor the
+   * collections are changed. Use `append` to move the items of another list
+   * into this one in O(1) instead.
+   *
+   * @param collections - the other collections
+   * @returns the new list
+   */
+  public concat(...collections: Iterable<Item>[]): LinkedList<Item> {
+    const result = this.slice();
+    for (const collection of collections) {
+      for (const item of collection) {
+        result.push(item);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Get a lazy sequence over the items of the list
+   *
+   * @returns the sequence
+   */
+  public seq(): Seq<Item> {
+    return new Seq(this);
+  }
+
   /**
    * Convert the list into its array equivalent
    *
@@ -256,6 +1038,30 @@ export class LinkedList<Item> implements Iterable<Item> {
  * @typeParam Item - the type of items handled by the list
  */
 export class DoublyLinkedList<Item> extends LinkedList<Item> {
+  /**
+   * Create a list from a collection of items of any size, unlike the
+   * constructor which is limited by the number of arguments a call can take
+   *
+   * @typeParam Item - the type of item stored in the list
+   * @param items - the items of the list
+   * @returns the list
+   */
+  public static from<Item>(items: Iterable<Item>): DoublyLinkedList<Item> {
+    return LinkedList.pushAll(new DoublyLinkedList<Item>(), items);
+  }
+
+  /**
+   * Create a list from a collection of items that may be asynchronous, such as
+   * a database cursor or stream
+   *
+   * @typeParam Item - the type of item stored in the list
+   * @param items - the items of the list
+   * @returns the list
+   */
+  public static async fromAsync<Item>(items: AnyIterable<Item>): Promise<DoublyLinkedList<Item>> {
+    return LinkedList.pushAsync(new DoublyLinkedList<Item>(), items);
+  }
+
   /**
    * Remove the head of the list
    *
@@ -263,41 +1069,218 @@ export class DoublyLinkedList<Item> extends LinkedList<Item> {
    */
   public shift(): Item | undefined {
     // Call the base class version to get the item. Then we need to unset the
-    // new head's previous pointer.
-    const item = super.shift();
-    if (this.head !== undefined) {
-      this.head.prev = undefined;
+    // new head's previous pointer. This is done within a transaction so that
+    // the listeners are not told of the removal until the list is consistent.
+    return this.transaction(() => {
+      const item = super.shift();
+      if (this.head !== undefined) {
+        this.head.prev = undefined;
+      }
+
+      return item;
+    });
+  }
+
+  /**
+   * Remove items from the list and insert others in their place, in the same
+   * way as `Array.prototype.splice`. A negative start counts back from the end
+   * of the list.
+   *
+   * @param start - the position to start removing items from
+   * @param args - the number of items to remove followed by the items to insert
+   * at the start position. As with arrays, all items from the start position
+   * onwards are removed only if the count is omitted, whereas an explicit
+   * undefined count removes none.
+   * @returns a new list containing the items removed
+   */
+  public splice(start: number, ...args: [deleteCount?: number, ...items: Item[]]): DoublyLinkedList<Item> {
+    return super.splice(start, ...args) as DoublyLinkedList<Item>;
+  }
+
+  /**
+   * Move all of the items of another list to the end of this list, leaving the
+   * other list empty. This is O(1) when the other list is also doubly linked.
+   * A singly linked list can be appended too, but its nodes have no previous
+   * pointers so they are linked up first, which takes O(n) in the size of the
+   * other list.
+   *
+   * @param other - the list whose items are to be moved
+   * @returns this instance to allow for chaining
+   * @throws Error if the other list is this list
+   */
+  public append(other: LinkedList<Item>): this {
+    if (other instanceof DoublyLinkedList) {
+      return super.append(other);
     }
 
-    return item;
+    // Link up the previous pointers of the nodes that were moved, the first of
+    // which was linked to the old tail when the chain was added
+    const tail = this.tail;
+    super.append(other);
+    let prev = tail;
+    for (let node = tail === undefined ? this.head : tail.next; node !== undefined; node = node.next) {
+      node.prev = prev;
+      prev = node;
+    }
+    return this;
   }
 
   /**
-   * Remove the tail of the list. This is only available in the doubly linked
-   * version since it requires the previous pointer to be able to move the tail
-   * backwards.
+   * Transform each item in the list into a new doubly linked list
    *
-   * @returns the item removed or undefined if the list is empty
+   * @typeParam Result - the type of the transformed items
+   * @param body - the function transforming each item and its position
+   * @returns the new list
    */
-  public pop(): Item | undefined {
-    // Make sure the list is not empty
-    const node = this.tail;
-    if (node === undefined) {
+  public map<Result>(body: (item: Item, index: number) => Result): DoublyLinkedList<Result> {
+    return super.map(body) as DoublyLinkedList<Result>;
+  }
+
+  /**
+   * Create a new doubly linked list containing only the items that match a
+   * predicate
+   *
+   * @param predicate - a function returning a truthy value for any item, given
+   * with its position, that should be kept
+   * @returns the new list
+   */
+  public filter(predicate: (item: Item, index: number) => unknown): DoublyLinkedList<Item> {
+    return super.filter(predicate) as DoublyLinkedList<Item>;
+  }
+
+  /**
+   * Copy part of the list into a new doubly linked list, in the same way as
+   * `Array.prototype.slice`. Negative positions count back from the end of the
+   * list.
+   *
+   * @param start - the position of the first item to copy
+   * @param end - the position after the last item to copy
+   * @returns the new list
+   */
+  public slice(start?: number, end?: number): DoublyLinkedList<Item> {
+    return super.slice(start, end) as DoublyLinkedList<Item>;
+  }
+
+  /**
+   * Create a new doubly linked list containing the items of this list followed
+   * by those of other collections. The items are copied in O(n) and the lists
+   * are left unchanged, unlike `append` which moves them in O(1).
+   *
+   * @param collections - the other collections
+   * @returns the new list
+   */
+  public concat(...collections: Iterable<Item>[]): DoublyLinkedList<Item> {
+    return super.concat(...collections) as DoublyLinkedList<Item>;
+  }
+
+  /**
+   * Find the node at a position in the list by walking from whichever end of
+   * the list is nearer
+   *
+   * @param index - the position of the node, which must be within the list
+   * @returns the node or undefined if the position is outside the list
+   */
+  protected nodeAt(index: number): LinkedListNode<Item> | undefined {
+    if (index < this.count / 2) {
+      return super.nodeAt(index);
+    }
+    if (index >= this.count) {
       return undefined;
     }
 
-    // Move the tail backward and the head if it is affected
-    this.tail = node.prev;
-    if (this.tail === undefined) {
-      // This was the last item in the list so the head is now undefined too
-      this.head = undefined;
+    let node = this.tail;
+    for (let position = this.count - 1; position > index; --position) {
+      node = node?.prev;
+    }
+    return node;
+  }
+
+  /**
+   * Create an empty doubly linked list
+   *
+   * @typeParam Other - the type of items handled by the new list
+   * @returns the new list
+   */
+  protected createList<Other>(): DoublyLinkedList<Other> {
+    return new DoublyLinkedList<Other>();
+  }
+
+  /**
+   * Reverse the links between the nodes of the list by swapping the next and
+   * previous pointers of each node
+   */
+  protected reverseLinks() {
+    // Once swapped, the previous pointer leads to the node that was next
+    for (let node = this.head; node !== undefined; node = node.prev) {
+      const next = node.next;
+      node.next = node.prev;
+      node.prev = next;
+    }
+
+    const head = this.head;
+    this.head = this.tail;
+    this.tail = head;
+  }
+
+  /**
+   * Find the node preceding a given node in the list. This is O(1) in the
+   * doubly linked version since each node has a previous pointer.
+   *
+   * @param node - the node whose predecessor is required
+   * @returns the preceding node or undefined if the node is the head
+   */
+  protected prevOf(node: LinkedListNode<Item>): LinkedListNode<Item> | undefined {
+    return node.prev;
+  }
+
+  /**
+   * Detach a node from its neighbours, leaving the node itself still marked as
+   * belonging to the list.
+   *
+   * @param node - the node to detach
+   */
+  protected unlink(node: LinkedListNode<Item>) {
+    // Link the previous node to the next node, moving the head if the node is
+    // at the start of the list.
+    if (node.prev !== undefined) {
+      node.prev.next = node.next;
+    } else {
+      this.head = node.next;
+    }
+
+    // Link the next node to the previous node, moving the tail if the node is
+    // at the end of the list.
+    if (node.next !== undefined) {
+      node.next.prev = node.prev;
     } else {
-      // The new tail has no next item
-      this.tail.next = undefined;
+      this.tail = node.prev;
     }
 
+    node.prev = undefined;
+    node.next = undefined;
     --this.count;
-    return node.item;
+  }
+
+  /**
+   * Insert a chain of nodes immediately after a given node in the list
+   *
+   * @param node - the node to insert the chain after
+   * @param chain - the chain to be inserted
+   */
+  protected insertChainAfter(node: LinkedListNode<Item>, chain: LinkedListChain<Item>) {
+    // Link the end of the chain to the node that currently follows the node,
+    // moving the tail if there is no such node.
+    chain.last.next = node.next;
+    if (node.next !== undefined) {
+      node.next.prev = chain.last;
+    } else {
+      this.tail = chain.last;
+    }
+
+    // And link the start of the chain to the node
+    chain.first.prev = node;
+    node.next = chain.first;
+    this.count += chain.count;
   }
 
   /**
@@ -310,12 +1293,12 @@ export class DoublyLinkedList<Item> extends LinkedList<Item> {
   protected createChain(item: Item, ...others: Item[]): LinkedListChain<Item> {
     // Create the first node in the chain
     let count = 1;
-    const first: LinkedListNode<Item> = { item };
+    const first: LinkedListNode<Item> = { item, owner: this.owner };
     let last: LinkedListNode<Item> = first;
 
     // And connect each other item
     for (const nextItem of others) {
-      const node: LinkedListNode<Item> = { item: nextItem, prev: last };
+      const node: LinkedListNode<Item> = { item: nextItem, prev: last, owner: this.owner };
       last.next = node;
       last = last.next;
       ++count;
@@ -372,32 +1355,35 @@ export class DoublyLinkedList<Item> extends LinkedList<Item> {
   }
 
   /**
-   * Return a reverse iterator for the list
+   * Return a reverse iterator for the list. This is O(1) in the doubly linked
+   * version since each node has a previous pointer.
    *
    * @returns the iterator
    */
-  riterator(): LinkedListReverseIterator<Item> {
+  public riterator(): LinkedListReverseIterator<Item> {
     return new LinkedListReverseIterator(this.tail);
   }
 }
 
 /**
- * A forward iterator for a linked list
+ * An iterator over the items of a linked list. As well as being a standard
+ * iterator, it can look at the next item without consuming it and can be
+ * restarted from the item it started at.
  *
  * @typeParam Item - the type of items handled by the list
  */
-class LinkedListForwardIterator<Item> {
+export abstract class LinkedListIterator<Item> implements IterableIterator<Item> {
   // The node the iterator is currently pointing to
-  private ptr: Readonly<LinkedListNode<Item>> | undefined;
+  protected ptr: Readonly<LinkedListNode<Item>> | undefined;
 
   /**
    * Constructor
    *
-   * @param node - the node to start iterating from or undefined if no node to
+   * @param start - the node to start iterating from or undefined if no node to
    * start with
    */
-  public constructor(node: Readonly<LinkedListNode<Item>> | undefined) {
-    this.ptr = node;
+  public constructor(protected readonly start: Readonly<LinkedListNode<Item>> | undefined) {
+    this.ptr = start;
   }
 
   /**
@@ -409,52 +1395,45 @@ class LinkedListForwardIterator<Item> {
     if (this.ptr === undefined) {
       return { done: true, value: undefined };
     } else {
-      // Grab the item and move the pointer forward
+      // Grab the item and move the pointer along
       const item = this.ptr.item;
-      this.ptr = this.ptr.next;
+      this.ptr = this.advance(this.ptr);
       return { done: false, value: item };
     }
   }
-}
 
-/**
- * A reverse iterator for a linked list
- *
- * @typeParam Item - the type of items handled by the list
- */
-class LinkedListReverseIterator<Item> implements Iterable<Item> {
-  // The node the iterator is currently pointing to
-  private ptr: Readonly<LinkedListNode<Item>> | undefined;
+  /**
+   * Return the item that the next call to `next()` will return without
+   * consuming it
+   *
+   * @returns the next item or undefined if the iterator is exhausted
+   */
+  public peek(): Item | undefined {
+    return this.ptr?.item;
+  }
 
   /**
-   * Constructor
+   * Called to see if the iterator has no more items
    *
-   * @param node - the node to start iterating from or undefined if no node to
-   * start with
+   * @returns true if the iterator is exhausted
    */
-  public constructor(node: Readonly<LinkedListNode<Item>> | undefined) {
-    this.ptr = node;
+  public done(): boolean {
+    return this.ptr === undefined;
   }
 
   /**
-   * Returns the next item in the list
+   * Move the iterator back to the item it started at
    *
-   * @returns the result of the interator
+   * @returns this instance to allow for chaining
    */
-  public next(): IteratorResult<Item> {
-    if (this.ptr === undefined) {
-      return { done: true, value: undefined };
-    } else {
-      // Grab the item and move the pointer backward
-      const item = this.ptr.item;
-      this.ptr = this.ptr.prev;
-      return { done: false, value: item };
-    }
+  public restart(): this {
+    this.ptr = this.start;
+    return this;
   }
 
   /**
-   * To make it possible to use this reverse iterator in `for` loops, we define
-   * an iterator for the iterator. For example:
+   * To make it possible to use the iterator in `for` loops, we define an
+   * iterator for the iterator. For example:
    *
    * ```ts
    *   for (const item of items.riterator()) {
@@ -463,7 +1442,49 @@ class LinkedListReverseIterator<Item> implements Iterable<Item> {
    *
    * @returns the iterator
    */
-  [Symbol.iterator](): Iterator<Item> {
+  [Symbol.iterator](): this {
     return this;
   }
+
+  /**
+   * Get the node that follows a node in the direction of iteration
+   *
+   * @param node - the current node
+   * @returns the following node or undefined if there is none
+   */
+  protected abstract advance(node: Readonly<LinkedListNode<Item>>): Readonly<LinkedListNode<Item>> | undefined;
+}
+
+/**
+ * A forward iterator for a linked list
+ *
+ * @typeParam Item - the type of items handled by the list
+ */
+export class LinkedListForwardIterator<Item> extends LinkedListIterator<Item> {
+  /**
+   * Get the node that follows a node in the list
+   *
+   * @param node - the current node
+   * @returns the next node or undefined if there is none
+   */
+  protected advance(node: Readonly<LinkedListNode<Item>>): Readonly<LinkedListNode<Item>> | undefined {
+    return node.next;
+  }
+}
+
+/**
+ * A reverse iterator for a linked list
+ *
+ * @typeParam Item - the type of items handled by the list
+ */
+export class LinkedListReverseIterator<Item> extends LinkedListIterator<Item> {
+  /**
+   * Get the node that precedes a node in the list
+   *
+   * @param node - the current node
+   * @returns the previous node or undefined if there is none
+   */
+  protected advance(node: Readonly<LinkedListNode<Item>>): Readonly<LinkedListNode<Item>> | undefined {
+    return node.prev;
+  }
 }
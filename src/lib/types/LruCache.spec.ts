@@ -0,0 +1,147 @@
+import { LruCache } from './LruCache';
+
+describe('LruCache Tests', function () {
+  function validateEntries<K, V>(cache: LruCache<K, V>, expected: [K, V][]) {
+    expect(Array.from(cache)).toEqual(expected);
+    expect(cache.size).toEqual(expected.length);
+    expect(cache.empty()).toEqual(expected.length === 0);
+  }
+
+  describe('constructor', function () {
+    it('can create an empty cache', function () {
+      const cache = new LruCache<string, number>({ maxEntries: 3 });
+      validateEntries(cache, []);
+      expect(cache.totalSize()).toEqual(0);
+    });
+
+    it('should reject an invalid maximum number of entries', function () {
+      expect(() => new LruCache<string, number>({ maxEntries: 0 })).toThrow();
+    });
+  });
+
+  describe('get and set', function () {
+    it('can set and get values', function () {
+      const cache = new LruCache<string, number>({ maxEntries: 3 });
+      cache.set('one', 1).set('two', 2);
+
+      expect(cache.get('one')).toEqual(1);
+      expect(cache.get('two')).toEqual(2);
+      expect(cache.get('three')).not.toBeDefined();
+      validateEntries(cache, [
+        ['one', 1],
+        ['two', 2],
+      ]);
+    });
+
+    it('should make an entry the most recently used when it is read', function () {
+      const cache = new LruCache<string, number>({ maxEntries: 3 });
+      cache.set('one', 1).set('two', 2).set('three', 3);
+
+      cache.get('one');
+      validateEntries(cache, [
+        ['two', 2],
+        ['three', 3],
+        ['one', 1],
+      ]);
+    });
+
+    it('should make an entry the most recently used when it is replaced', function () {
+      const cache = new LruCache<string, number>({ maxEntries: 3 });
+      cache.set('one', 1).set('two', 2).set('one', 10);
+
+      validateEntries(cache, [
+        ['two', 2],
+        ['one', 10],
+      ]);
+    });
+
+    it('should not affect recency when peeking or checking membership', function () {
+      const cache = new LruCache<string, number>({ maxEntries: 3 });
+      cache.set('one', 1).set('two', 2);
+
+      expect(cache.peek('one')).toEqual(1);
+      expect(cache.peek('three')).not.toBeDefined();
+      expect(cache.has('one')).toEqual(true);
+      expect(cache.has('three')).toEqual(false);
+      validateEntries(cache, [
+        ['one', 1],
+        ['two', 2],
+      ]);
+    });
+  });
+
+  describe('eviction', function () {
+    it('should evict the least recently used entry when full', function () {
+      const evicted: [string, number][] = [];
+      const cache = new LruCache<string, number>({
+        maxEntries: 2,
+        onEvict: (key, value) => evicted.push([key, value]),
+      });
+
+      cache.set('one', 1).set('two', 2);
+      cache.get('one');
+      cache.set('three', 3);
+
+      expect(evicted).toEqual([['two', 2]]);
+      validateEntries(cache, [
+        ['one', 1],
+        ['three', 3],
+      ]);
+    });
+
+    it('should evict entries until within the maximum size', function () {
+      const evicted: string[] = [];
+      const cache = new LruCache<string, string>({
+        maxEntries: 10,
+        maxSize: 10,
+        sizeOf: (value) => value.length,
+        onEvict: (key) => evicted.push(key),
+      });
+
+      cache.set('a', 'xxxx').set('b', 'xxxx');
+      expect(cache.totalSize()).toEqual(8);
+
+      cache.set('c', 'xxxxxxx');
+      expect(evicted).toEqual(['a', 'b']);
+      expect(cache.totalSize()).toEqual(7);
+      validateEntries(cache, [['c', 'xxxxxxx']]);
+    });
+
+    it('should not store an entry larger than the maximum size', function () {
+      const evicted: string[] = [];
+      const cache = new LruCache<string, string>({
+        maxEntries: 10,
+        maxSize: 5,
+        sizeOf: (value) => value.length,
+        onEvict: (key) => evicted.push(key),
+      });
+
+      cache.set('a', 'xx').set('b', 'xxxxxx');
+      expect(evicted).toEqual(['b']);
+      validateEntries(cache, [['a', 'xx']]);
+    });
+  });
+
+  describe('removal', function () {
+    it('can delete entries without calling the eviction callback', function () {
+      const onEvict = jest.fn();
+      const cache = new LruCache<string, number>({ maxEntries: 3, onEvict });
+      cache.set('one', 1).set('two', 2);
+
+      expect(cache.delete('one')).toEqual(true);
+      expect(cache.delete('one')).toEqual(false);
+      expect(onEvict).not.toHaveBeenCalled();
+      validateEntries(cache, [['two', 2]]);
+    });
+
+    it('can clear the cache', function () {
+      const cache = new LruCache<string, number>({ maxEntries: 3, sizeOf: () => 2 });
+      cache.set('one', 1).set('two', 2);
+
+      cache.clear();
+      validateEntries(cache, []);
+      expect(cache.totalSize()).toEqual(0);
+      expect(cache.keys()).toEqual([]);
+    });
+  });
+});
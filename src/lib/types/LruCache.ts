@@ -0,0 +1,257 @@
+import { DoublyLinkedList, LinkedListHandle } from './LinkedList';
+import { MapPlus } from './MapPlus';
+import { Seq } from './Seq';
+
+/**
+ * An entry stored in the cache's recency list
+ *
+ * @typeParam K - the type of element used as the key in the cache
+ * @typeParam V - the type of element used as the value in the cache
+ */
+interface LruCacheEntry<K, V> {
+  // The key of the entry
+  key: K;
+
+  // The value of the entry
+  value: V;
+
+  // The size of the entry as reported by the size function
+  size: number;
+}
+
+/**
+ * The options used to configure an LRU cache
+ *
+ * @typeParam K - the type of element used as the key in the cache
+ * @typeParam V - the type of element used as the value in the cache
+ */
+export interface LruCacheOptions<K, V> {
+  // The maximum number of entries the cache can hold
+  maxEntries: number;
+
+  // The maximum total size of all entries in the cache. Each entry counts as 1
+  // unless a size function is provided.
+  maxSize?: number;
+
+  // A function to determine the size of an entry. If not provided then each
+  // entry has a size of 1.
+  sizeOf?: (value: V, key: K) => number;
+
+  // A function called whenever an entry is evicted to make room for another
+  onEvict?: (key: K, value: V) => void;
+}
+
+/**
+ * A cache that holds a bounded number of entries, evicting the least recently
+ * used entries when it becomes full. The entries are indexed by key in a map
+ * and ordered by recency in a doubly linked list, from least recently used at
+ * the front to most recently used at the back, so that all of the get, set and
+ * evict operations are O(1).
+ *
+ * @typeParam K - the type of element used as the key in the cache
+ * @typeParam V - the type of element used as the value in the cache
+ */
+export class LruCache<K, V> implements Iterable<[K, V]> {
+  // The index of entries by their key
+  protected index: MapPlus<K, LinkedListHandle<LruCacheEntry<K, V>>> = new MapPlus();
+
+  // The entries ordered from least to most recently used
+  protected entries: DoublyLinkedList<LruCacheEntry<K, V>> = new DoublyLinkedList();
+
+  // The total size of all entries in the cache
+  protected currentSize = 0;
+
+  // The options for the cache
+  protected readonly options: Readonly<LruCacheOptions<K, V>>;
+
+  /**
+   * Constructor
+   *
+   * @typeParam K - the type of element used as the key in the cache
+   * @typeParam V - the type of element used as the value in the cache
+   * @param options - the options for the cache
+   */
+  public constructor(options: LruCacheOptions<K, V>) {
+    if (options.maxEntries < 1) {
+      throw new Error(`Invalid maximum number of entries for cache: ${options.maxEntries}`);
+    }
+    this.options = { ...options };
+  }
+
+  /**
+   * Get the number of entries in the cache
+   *
+   * @returns the number of entries in the cache
+   */
+  public get size(): number {
+    return this.index.size;
+  }
+
+  /**
+   * Get the total size of all entries in the cache
+   *
+   * @returns the total size of all entries
+   */
+  public totalSize(): number {
+    return this.currentSize;
+  }
+
+  /**
+   * Determine if the cache is empty
+   *
+   * @returns true if the cache is empty
+   */
+  public empty(): boolean {
+    return this.index.empty();
+  }
+
+  /**
+   * Determine if the cache contains a given key. This does not affect the
+   * recency of the entry.
+   *
+   * @param key - the key to check
+   * @returns true if the key is in the cache
+   */
+  public has(key: K): boolean {
+    return this.index.has(key);
+  }
+
+  /**
+   * Get the value of a key without affecting the recency of the entry
+   *
+   * @param key - the key to get
+   * @returns the value of the key or undefined if it is not in the cache
+   */
+  public peek(key: K): V | undefined {
+    return this.index.get(key)?.item.value;
+  }
+
+  /**
+   * Get the value of a key, making it the most recently used entry
+   *
+   * @param key - the key to get
+   * @returns the value of the key or undefined if it is not in the cache
+   */
+  public get(key: K): V | undefined {
+    const handle = this.index.get(key);
+    if (handle === undefined) {
+      return undefined;
+    }
+
+    this.entries.moveToBack(handle);
+    return handle.item.value;
+  }
+
+  /**
+   * Set the value of a key, making it the most recently used entry. If the
+   * cache exceeds its limits as a result, the least recently used entries are
+   * evicted until it is back within them. An entry that is too large to ever
+   * fit in the cache is not stored at all.
+   *
+   * @param key - the key to set
+   * @param value - the value of the key
+   * @returns this instance for chaining
+   */
+  public set(key: K, value: V): this {
+    const size = this.options.sizeOf?.(value, key) ?? 1;
+
+    // Replacing an existing value is treated as removing the old entry first
+    this.delete(key);
+
+    // If the entry could never fit then it is evicted straight away
+    if (this.options.maxSize !== undefined && size > this.options.maxSize) {
+      this.options.onEvict?.(key, value);
+      return this;
+    }
+
+    this.index.set(key, this.entries.pushHandle({ key, value, size }));
+    this.currentSize += size;
+    this.trim();
+    return this;
+  }
+
+  /**
+   * Remove a key from the cache. The eviction callback is not called since this
+   * is an explicit removal.
+   *
+   * @param key - the key to remove
+   * @returns true if the key was in the cache
+   */
+  public delete(key: K): boolean {
+    const handle = this.index.eject(key);
+    if (handle === undefined) {
+      return false;
+    }
+
+    this.currentSize -= this.entries.remove(handle).size;
+    return true;
+  }
+
+  /**
+   * Remove all entries from the cache
+   */
+  public clear() {
+    this.index.clear();
+    this.entries = new DoublyLinkedList();
+    this.currentSize = 0;
+  }
+
+  /**
+   * Get the keys of the cache from least to most recently used
+   *
+   * @returns the keys of the cache
+   */
+  public keys(): K[] {
+    return this.entries.toArray().map((entry) => entry.key);
+  }
+
+  /**
+   * Get the values of the cache from least to most recently used
+   *
+   * @returns the values of the cache
+   */
+  public values(): V[] {
+    return this.entries.toArray().map((entry) => entry.value);
+  }
+
+  /**
+   * Return an iterator over the entries of the cache from least to most
+   * recently used. Iterating does not affect the recency of the entries.
+   *
+   * @returns the iterator
+   */
+  public *[Symbol.iterator](): Iterator<[K, V]> {
+    for (const entry of this.entries) {
+      yield [entry.key, entry.value];
+    }
+  }
+
+  /**
+   * Get a lazy sequence over the entries of the cache from least to most
+   * recently used
+   *
+   * @typeParam K - the type of element used as the key in the cache
+   * @typeParam V - the type of element used as the value in the cache
+   * @returns the sequence
+   */
+  public seq(): Seq<[K, V]> {
+    return new Seq(this);
+  }
+
+  /**
+   * Evict the least recently used entries until the cache is within its limits
+   */
+  protected trim() {
+    const { maxEntries, maxSize } = this.options;
+    while (this.index.size > maxEntries || (maxSize !== undefined && this.currentSize > maxSize)) {
+      const entry = this.entries.shift();
+      if (entry === undefined) {
+        break;
+      }
+
+      this.index.delete(entry.key);
+      this.currentSize -= entry.size;
+      this.options.onEvict?.(entry.key, entry.value);
+    }
+  }
+}
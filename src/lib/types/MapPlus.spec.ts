@@ -1,4 +1,5 @@
 import { MapPlus, MapPlusFactory } from './MapPlus';
+import { MultiMap } from './MultiMap';
 import { SetPlus } from './SetPlus';
 
 interface Education {
@@ -793,6 +794,29 @@ describe('MapPlusFactory Tests', function () {
       };
       validateMap(byNationality, expected);
     });
+
+    it('can group items into a multimap', function () {
+      const people: Person[] = [person1, person2, person3, person4, person5, person1];
+      const target = MultiMap.ofSets<string, Person>();
+      const byNationality = MapPlusFactory.groupBy(people, 'nationality', target);
+
+      expect(byNationality).toBe(target);
+      expect(byNationality.getAll('British')).toEqual([person1, person2]);
+      expect(byNationality.getAll('Australian')).toEqual([person4, person5]);
+      expect(byNationality.valueCount()).toEqual(5);
+    });
+  });
+
+  describe('groupByFunction', function () {
+    it('can group items into a multimap', function () {
+      const people: Person[] = [person1, person2, person3, person4, person5];
+      const target = MultiMap.ofArrays<boolean, Person>();
+      const byAlive = MapPlusFactory.groupByFunction(people, (person: Person) => person.alive, target);
+
+      expect(byAlive).toBe(target);
+      expect(byAlive.getAll(true)).toEqual([person1, person2, person4]);
+      expect(byAlive.getAll(false)).toEqual([person3, person5]);
+    });
   });
 
   describe('groupPropertyBy', function () {
@@ -824,5 +848,206 @@ describe('MapPlusFactory Tests', function () {
       };
       validateMap(byNationality, expected);
     });
+
+    it('can group properties into a multimap', function () {
+      const people: Person[] = [person1, person2, person3, person4, person5];
+      const target = MultiMap.ofArrays<string, string>();
+      const byNationality = MapPlusFactory.groupPropertyBy(people, 'nationality', 'email', target);
+
+      expect(byNationality).toBe(target);
+      expect(byNationality.getAll('British')).toEqual([person1.email, person2.email]);
+      expect(byNationality.valueCount()).toEqual(5);
+    });
+  });
+
+  describe('groupPropertyByFunction', function () {
+    it('can group properties into a multimap', function () {
+      const people: Person[] = [person1, person2, person3, person4, person5];
+      const target = MultiMap.ofSets<boolean, string>();
+      const byAlive = MapPlusFactory.groupPropertyByFunction(
+        people,
+        (person: Person) => person.alive,
+        'nationality',
+        target
+      );
+
+      expect(byAlive.getAll(true)).toEqual(['British', 'Australian']);
+      expect(byAlive.getAll(false)).toEqual(['Spanish', 'Australian']);
+    });
+  });
+
+  describe('subscribe', function () {
+    it('can notify listeners of changes', function () {
+      const map = new MapPlus<string, number>([['one', 1]]);
+      const listener = jest.fn();
+      map.subscribe(listener);
+
+      map.set('two', 2);
+      expect(listener).toHaveBeenLastCalledWith([{ type: 'set', key: 'two', oldValue: undefined, newValue: 2 }]);
+      map.set('two', 22);
+      expect(listener).toHaveBeenLastCalledWith([{ type: 'set', key: 'two', oldValue: 2, newValue: 22 }]);
+      map.delete('one');
+      expect(listener).toHaveBeenLastCalledWith([{ type: 'delete', key: 'one', oldValue: 1 }]);
+      map.clear();
+      expect(listener).toHaveBeenLastCalledWith([{ type: 'clear' }]);
+      expect(listener).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not notify listeners when nothing changes', function () {
+      const map = new MapPlus<string, number>([['one', 1]]);
+      const listener = jest.fn();
+      map.subscribe(listener);
+
+      map.set('one', 1);
+      map.delete('two');
+      map.eject('two');
+      map.merge(new Map([['one', 11]]));
+      map.unsubscribe(listener).set('three', 3);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('can deliver a merge as a single change set', function () {
+      const map = new MapPlus<string, number>([['one', 1]]);
+      const listener = jest.fn();
+      map.subscribe(listener);
+
+      map.merge(
+        new Map([
+          ['one', 11],
+          ['two', 2],
+          ['three', 3],
+        ]),
+        true
+      );
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith([
+        { type: 'set', key: 'one', oldValue: 1, newValue: 11 },
+        { type: 'set', key: 'two', oldValue: undefined, newValue: 2 },
+        { type: 'set', key: 'three', oldValue: undefined, newValue: 3 },
+      ]);
+    });
+
+    it('can batch changes in a transaction', function () {
+      const map = new MapPlus<string, number>();
+      const listener = jest.fn();
+      map.subscribe(listener);
+
+      const result = map.transaction(() => map.set('one', 1).set('two', 2).eject('one'));
+      expect(result).toEqual(1);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].map((change: { type: string }) => change.type)).toEqual([
+        'set',
+        'set',
+        'delete',
+      ]);
+    });
+  });
+
+  describe('async factories', function () {
+    async function* stream<T>(...items: T[]): AsyncGenerator<T> {
+      for (const item of items) {
+        yield item;
+      }
+    }
+
+    it('can create a map from an async iterable', async function () {
+      const byEmail = await MapPlusFactory.fromAsyncIterable(
+        stream(person1, person2),
+        (person: Person) => person.email
+      );
+      expect(byEmail.keyList()).toEqual([person1.email, person2.email]);
+      expect(byEmail.get(person2.email)).toBe(person2);
+    });
+
+    it('can group an async iterable by function', async function () {
+      const people: Person[] = [person1, person2, person3, person4, person5];
+      const byNationality = await MapPlusFactory.groupByFunctionAsync(
+        stream(...people),
+        (person: Person) => person.nationality
+      );
+      expect(byNationality).toEqual(MapPlusFactory.groupByFunction(people, (person: Person) => person.nationality));
+    });
+
+    it('can group an async iterable into a multimap', async function () {
+      const target = MultiMap.ofSets<boolean, Person>();
+      const byAlive = await MapPlusFactory.groupByFunctionAsync(
+        stream(person1, person3, person1),
+        (person: Person) => person.alive,
+        target
+      );
+      expect(byAlive).toBe(target);
+      expect(byAlive.getAll(person1.alive)).toEqual([person1]);
+      expect(byAlive.valueCount()).toEqual(2);
+    });
+  });
+
+  describe('diff and patch', function () {
+    it('can find no differences between equivalent maps', function () {
+      const byEmail1 = MapPlusFactory.fromArray([person1, person2], 'email');
+      const byEmail2 = MapPlusFactory.fromArray([person2, { ...person1, hobbies: [...person1.hobbies] }], 'email');
+      const diff = byEmail1.diff(byEmail2);
+
+      expect(diff.added.empty()).toBe(true);
+      expect(diff.removed.empty()).toBe(true);
+      expect(diff.changed).toEqual([]);
+    });
+
+    it('can find added, removed and changed entries', function () {
+      const olderPerson2 = { ...person2, age: person2.age + 1 };
+      const byEmail1 = MapPlusFactory.fromArray([person1, person2, person3], 'email');
+      const byEmail2 = MapPlusFactory.fromArray([olderPerson2, person3, person4], 'email');
+      const diff = byEmail1.diff(byEmail2);
+
+      expect(diff.added.keyList()).toEqual([person4.email]);
+      expect(diff.added.get(person4.email)).toBe(person4);
+      expect(diff.removed.keyList()).toEqual([person1.email]);
+      expect(diff.removed.get(person1.email)).toBe(person1);
+      expect(diff.changed).toEqual([{ key: person2.email, before: person2, after: olderPerson2 }]);
+    });
+
+    it('can compare values using a custom function', function () {
+      const byEmail1 = MapPlusFactory.fromArray([person1, person2], 'email');
+      const byEmail2 = MapPlusFactory.fromArray([{ ...person1 }, { ...person2, age: 99 }], 'email');
+      const sameAge = (a: Person, b: Person) => a.age === b.age;
+
+      expect(byEmail1.diff(byEmail2, (a, b) => a === b).changed.length).toEqual(2);
+      expect(byEmail1.diff(byEmail2, sameAge).changed.map((change) => change.key)).toEqual([person2.email]);
+      expect(byEmail1.equals(byEmail2, sameAge)).toBe(false);
+      expect(byEmail1.equals(byEmail2, (a, b) => a.name === b.name)).toBe(true);
+    });
+
+    it('can patch a map to match another', function () {
+      const byEmail1 = MapPlusFactory.fromArray([person1, person2, person3], 'email');
+      const byEmail2 = MapPlusFactory.fromArray([{ ...person2, age: 1 }, person3, person4], 'email');
+      const listener = jest.fn();
+      byEmail1.subscribe(listener);
+
+      expect(byEmail1.patch(byEmail1.diff(byEmail2))).toBe(byEmail1);
+      expect(byEmail1.equals(byEmail2)).toBe(true);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].length).toEqual(3);
+    });
+
+    it('can apply a diff to a different map', function () {
+      const before = new MapPlus([
+        ['a', 1],
+        ['b', 2],
+      ]);
+      const after = new MapPlus([
+        ['b', 3],
+        ['c', 4],
+      ]);
+      const target = new MapPlus([
+        ['a', 1],
+        ['d', 5],
+      ]);
+
+      target.patch(before.diff(after));
+      expect(Array.from(target)).toEqual([
+        ['d', 5],
+        ['c', 4],
+        ['b', 3],
+      ]);
+    });
   });
 });
@@ -1,7 +1,54 @@
 import { isEqual } from '@jetsam/third-party/lodash';
 
+import type { AnyIterable } from './AsyncIteration';
+import { ChangeListener, ChangeNotifier, MapChange } from './ChangeNotifier';
+import type { MapPlusJson } from './CollectionJson';
+import type { MultiMap, MultiMapBucket } from './MultiMap';
+import { Seq } from './Seq';
 import { SetPlus } from './SetPlus';
 
+/**
+ * A function that determines if two values are equivalent
+ *
+ * @typeParam V - the type of values being compared
+ */
+export type ValueEquality<V> = (a: V, b: V) => boolean;
+
+/**
+ * A key whose value differs between two maps
+ *
+ * @typeParam K - the type of element used as the key in the map
+ * @typeParam V - the type of element used as the value in the map
+ */
+export interface MapPlusChangedEntry<K, V> {
+  // The key whose value changed
+  key: K;
+
+  // The value of the key in the original map
+  before: V;
+
+  // The value of the key in the other map
+  after: V;
+}
+
+/**
+ * The differences between two maps, describing how to turn the original map
+ * into the other
+ *
+ * @typeParam K - the type of element used as the key in the map
+ * @typeParam V - the type of element used as the value in the map
+ */
+export interface MapPlusDiff<K, V> {
+  // The entries only present in the other map
+  added: MapPlus<K, V>;
+
+  // The entries only present in the original map
+  removed: MapPlus<K, V>;
+
+  // The keys present in both maps but with different values
+  changed: MapPlusChangedEntry<K, V>[];
+}
+
 /**
  * An extension to the standard Map class
  *
@@ -9,6 +56,104 @@ import { SetPlus } from './SetPlus';
  * @typeParam V - the type of element used as the value in the map
  */
 export class MapPlus<K, V> extends Map<K, V> {
+  // Publishes the changes made to the map, created on first subscription
+  protected changes?: ChangeNotifier<MapChange<K, V>>;
+
+  /**
+   * Add a listener to be notified of changes made to the map. Each change made
+   * outside of a transaction is delivered on its own while those made within a
+   * transaction are delivered together once it completes.
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param listener - the listener to add
+   * @returns this instance for chaining
+   */
+  public subscribe(listener: ChangeListener<MapChange<K, V>>): this {
+    if (this.changes === undefined) {
+      this.changes = new ChangeNotifier();
+    }
+    this.changes.subscribe(listener);
+    return this;
+  }
+
+  /**
+   * Remove a previously added change listener
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param listener - the listener to remove
+   * @returns this instance for chaining
+   */
+  public unsubscribe(listener: ChangeListener<MapChange<K, V>>): this {
+    this.changes?.unsubscribe(listener);
+    return this;
+  }
+
+  /**
+   * Execute a synchronous function as a transaction so that the changes it
+   * makes to the map are delivered to the listeners as a single change set
+   *
+   * @typeParam Result - the type of value returned by the function
+   * @param body - the function to execute
+   * @returns the value returned by the function
+   */
+  public transaction<Result>(body: () => Result): Result {
+    return this.changes === undefined ? body() : this.changes.transaction(body);
+  }
+
+  /**
+   * Set the value of a key, notifying any listeners if the value changed
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param key - the key to set
+   * @param value - the value of the key
+   * @returns this instance for chaining
+   */
+  public set(key: K, value: V): this {
+    // Only describe the change if someone is listening
+    if (!this.changes?.active()) {
+      return super.set(key, value);
+    }
+
+    const existed = super.has(key);
+    const oldValue = super.get(key);
+    super.set(key, value);
+    if (!existed || !Object.is(oldValue, value)) {
+      this.changes.notify({ type: 'set', key, oldValue, newValue: value });
+    }
+    return this;
+  }
+
+  /**
+   * Remove a key from the map, notifying any listeners if it was present
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @param key - the key to remove
+   * @returns true if the key was present
+   */
+  public delete(key: K): boolean {
+    if (!this.changes?.active()) {
+      return super.delete(key);
+    }
+
+    const oldValue = super.get(key) as V;
+    const existed = super.delete(key);
+    existed && this.changes.notify({ type: 'delete', key, oldValue });
+    return existed;
+  }
+
+  /**
+   * Remove all entries from the map, notifying any listeners if it was not
+   * already empty
+   */
+  public clear() {
+    const existed = super.size > 0;
+    super.clear();
+    existed && this.changes?.notify({ type: 'clear' });
+  }
+
   /**
    * Determine if the map is empty
    *
@@ -18,6 +163,17 @@ export class MapPlus<K, V> extends Map<K, V> {
     return this.size < 1;
   }
 
+  /**
+   * Get a lazy sequence over the entries of the map
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @returns the sequence
+   */
+  public seq(): Seq<[K, V]> {
+    return new Seq(this);
+  }
+
   /**
    * Get the keys of the map as a set
    *
@@ -89,7 +245,8 @@ export class MapPlus<K, V> extends Map<K, V> {
   /**
    * Merge the contents of another map into this instance. For keys existing in
    * both instances, the value in this instance will not be overwritten unless
-   * explicitly requested.
+   * explicitly requested. Listeners are given the changes as a single change
+   * set.
    *
    * @typeParam K - the type of element used as the key in the map
    * @typeParam V - the type of element used as the value in the map
@@ -98,10 +255,12 @@ export class MapPlus<K, V> extends Map<K, V> {
    * @returns this instance for chaining
    */
   public merge(other: Map<K, V>, overwrite = false): this {
-    for (const [key, value] of other) {
-      (overwrite || !this.has(key)) && this.set(key, value);
-    }
-    return this;
+    return this.transaction(() => {
+      for (const [key, value] of other) {
+        (overwrite || !this.has(key)) && this.set(key, value);
+      }
+      return this;
+    });
   }
 
   /**
@@ -243,15 +402,31 @@ export class MapPlus<K, V> extends Map<K, V> {
     return obj;
   }
 
+  /**
+   * Convert the map into its JSON equivalent. The entries are kept as key/value
+   * pairs so that keys which are not strings survive the round trip, and the
+   * result is tagged so that `CollectionJson.reviver` can rebuild the map.
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @returns the JSON equivalent
+   */
+  public toJSON(): MapPlusJson {
+    return { $type: 'MapPlus', entries: Array.from(this) };
+  }
+
   /**
    * Determine if this instances equals another instance, both keys and values.
+   * Values are compared deeply unless a different means of comparing them is
+   * given.
    *
    * @typeParam K - the type of element used as the key in the map
    * @typeParam V - the type of element used as the value in the map
    * @param other - the other instance
+   * @param equals - the function used to compare values
    * @returns true if the two instances are equal
    */
-  public equals(other: Map<K, V>): boolean {
+  public equals(other: Map<K, V>, equals: ValueEquality<V> = isEqual): boolean {
     // First make sure they have the same set of keys
     if (!this.keySet().equals(other.keys())) {
       return false;
@@ -259,13 +434,63 @@ export class MapPlus<K, V> extends Map<K, V> {
 
     // Make sure all of the values are equal
     for (const [key, value] of this) {
-      if (!isEqual(value, other.get(key))) {
+      if (!equals(value, other.get(key) as V)) {
         return false;
       }
     }
 
     return true;
   }
+
+  /**
+   * Compute the differences between this instance and another. Values are
+   * compared deeply unless a different means of comparing them is given.
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param other - the other instance
+   * @param equals - the function used to compare values
+   * @returns the changes that would turn this instance into the other
+   */
+  public diff(other: Map<K, V>, equals: ValueEquality<V> = isEqual): MapPlusDiff<K, V> {
+    const result: MapPlusDiff<K, V> = { added: new MapPlus(), removed: new MapPlus(), changed: [] };
+    for (const [key, before] of this) {
+      if (!other.has(key)) {
+        result.removed.set(key, before);
+      } else {
+        const after = other.get(key) as V;
+        equals(before, after) || result.changed.push({ key, before, after });
+      }
+    }
+    for (const [key, after] of other) {
+      this.has(key) || result.added.set(key, after);
+    }
+    return result;
+  }
+
+  /**
+   * Apply the differences computed by {@link diff} to this instance. Listeners
+   * are given the changes as a single change set.
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param diff - the differences to apply
+   * @returns this instance for chaining
+   */
+  public patch(diff: MapPlusDiff<K, V>): this {
+    return this.transaction(() => {
+      for (const key of diff.removed.keys()) {
+        this.delete(key);
+      }
+      for (const [key, value] of diff.added) {
+        this.set(key, value);
+      }
+      for (const { key, after } of diff.changed) {
+        this.set(key, after);
+      }
+      return this;
+    });
+  }
 }
 
 /**
@@ -334,6 +559,29 @@ export class MapPlusFactory {
     return result;
   }
 
+  /**
+   * Create an instance from a collection of items that may be asynchronous,
+   * such as a database cursor or stream, using a function to generate the key
+   * of each item. The generated keys are expected to be unique across the
+   * items.
+   *
+   * @typeParam ItemType - the type of items in the collection
+   * @typeParam KeyGenerator - the type of function generating the keys
+   * @param items - the items to insert into the map
+   * @param generator - the key generator function
+   * @returns a map instance containing the items keyed on the generated keys
+   */
+  public static async fromAsyncIterable<ItemType, KeyGenerator extends (item: ItemType) => any>(
+    items: AnyIterable<ItemType>,
+    generator: KeyGenerator
+  ): Promise<MapPlus<ReturnType<KeyGenerator>, ItemType>> {
+    const result: MapPlus<ReturnType<KeyGenerator>, ItemType> = new MapPlus();
+    for await (const item of items) {
+      result.set(generator(item), item);
+    }
+    return result;
+  }
+
   /**
    * Given an array of tuples, where a tuple is stored as an object with two
    * properties, convert the tuples into a map by specifying the name of the key
@@ -373,13 +621,32 @@ export class MapPlusFactory {
    * @typeParam KeyGenerator - the type of function generating the keys
    * @param items - the items to insert into the map
    * @param generator - the key generator function
+   * @param target - an optional multimap to add the items to rather than
+   * creating a new map
    * @returns a map instance containing the items grouped by the values of the
-   * generated keys
+   * generated keys, or the target multimap if one was given
    */
   public static groupByFunction<ItemType extends Record<string, any>, KeyGenerator extends (item: ItemType) => any>(
     items: ItemType[],
     generator: KeyGenerator
-  ): MapPlus<ReturnType<KeyGenerator>, ItemType[]> {
+  ): MapPlus<ReturnType<KeyGenerator>, ItemType[]>;
+  public static groupByFunction<
+    ItemType extends Record<string, any>,
+    KeyGenerator extends (item: ItemType) => any,
+    Target extends MultiMap<ReturnType<KeyGenerator>, ItemType, MultiMapBucket<ItemType>>
+  >(items: ItemType[], generator: KeyGenerator, target: Target): Target;
+  public static groupByFunction<ItemType extends Record<string, any>, KeyGenerator extends (item: ItemType) => any>(
+    items: ItemType[],
+    generator: KeyGenerator,
+    target?: MultiMap<ReturnType<KeyGenerator>, ItemType, MultiMapBucket<ItemType>>
+  ): MapPlus<ReturnType<KeyGenerator>, ItemType[] | MultiMapBucket<ItemType>> {
+    if (target !== undefined) {
+      for (const item of items) {
+        target.add(generator(item), item);
+      }
+      return target;
+    }
+
     const result: MapPlus<ReturnType<KeyGenerator>, ItemType[]> = new MapPlus();
     for (const item of items) {
       const key = generator(item);
@@ -393,6 +660,57 @@ export class MapPlusFactory {
     return result;
   }
 
+  /**
+   * The asynchronous version of {@link groupByFunction} that accepts a
+   * collection of items that may be asynchronous, such as a database cursor or
+   * stream, grouping the items as they arrive.
+   *
+   * @typeParam ItemType - the type of items in the collection
+   * @typeParam KeyGenerator - the type of function generating the keys
+   * @param items - the items to insert into the map
+   * @param generator - the key generator function
+   * @param target - an optional multimap to add the items to rather than
+   * creating a new map
+   * @returns a map instance containing the items grouped by the values of the
+   * generated keys, or the target multimap if one was given
+   */
+  public static async groupByFunctionAsync<
+    ItemType extends Record<string, any>,
+    KeyGenerator extends (item: ItemType) => any
+  >(items: AnyIterable<ItemType>, generator: KeyGenerator): Promise<MapPlus<ReturnType<KeyGenerator>, ItemType[]>>;
+  public static async groupByFunctionAsync<
+    ItemType extends Record<string, any>,
+    KeyGenerator extends (item: ItemType) => any,
+    Target extends MultiMap<ReturnType<KeyGenerator>, ItemType, MultiMapBucket<ItemType>>
+  >(items: AnyIterable<ItemType>, generator: KeyGenerator, target: Target): Promise<Target>;
+  public static async groupByFunctionAsync<
+    ItemType extends Record<string, any>,
+    KeyGenerator extends (item: ItemType) => any
+  >(
+    items: AnyIterable<ItemType>,
+    generator: KeyGenerator,
+    target?: MultiMap<ReturnType<KeyGenerator>, ItemType, MultiMapBucket<ItemType>>
+  ): Promise<MapPlus<ReturnType<KeyGenerator>, ItemType[] | MultiMapBucket<ItemType>>> {
+    if (target !== undefined) {
+      for await (const item of items) {
+        target.add(generator(item), item);
+      }
+      return target;
+    }
+
+    const result: MapPlus<ReturnType<KeyGenerator>, ItemType[]> = new MapPlus();
+    for await (const item of items) {
+      const key = generator(item);
+      const group = result.get(key);
+      if (group === undefined) {
+        result.set(key, [item]);
+      } else {
+        group.push(item);
+      }
+    }
+    return result;
+  }
+
   /**
    * Given an array of items and the name of a property, create an instance
    * containing a key for each value of the specified property, with each key
@@ -402,14 +720,29 @@ export class MapPlusFactory {
    * @typeParam Property - the property in the values to use as the key
    * @param items - the items to insert into the map
    * @param property - the name of the property to use as the key
+   * @param target - an optional multimap to add the items to rather than
+   * creating a new map
    * @returns a map instance containing the items grouped by the values of the
-   * specified key
+   * specified key, or the target multimap if one was given
    */
   public static groupBy<ItemType extends Record<string, any>, Property extends keyof ItemType>(
     items: ItemType[],
     property: Property
-  ): MapPlus<ItemType[Property], ItemType[]> {
-    return this.groupByFunction(items, (item: ItemType) => item[property]);
+  ): MapPlus<ItemType[Property], ItemType[]>;
+  public static groupBy<
+    ItemType extends Record<string, any>,
+    Property extends keyof ItemType,
+    Target extends MultiMap<ItemType[Property], ItemType, MultiMapBucket<ItemType>>
+  >(items: ItemType[], property: Property, target: Target): Target;
+  public static groupBy<ItemType extends Record<string, any>, Property extends keyof ItemType>(
+    items: ItemType[],
+    property: Property,
+    target?: MultiMap<ItemType[Property], ItemType, MultiMapBucket<ItemType>>
+  ): MapPlus<ItemType[Property], ItemType[] | MultiMapBucket<ItemType>> {
+    const generator = (item: ItemType) => item[property];
+    return target === undefined
+      ? this.groupByFunction(items, generator)
+      : this.groupByFunction(items, generator, target);
   }
 
   /**
@@ -446,8 +779,10 @@ export class MapPlusFactory {
    * @param items - the items to insert into the map
    * @param generator - the key generator function
    * @param property - the property to include in the result
+   * @param target - an optional multimap to add the properties to rather than
+   * creating a new map
    * @returns a map instance containing the properties grouped by the values of
-   * the generated keys
+   * the generated keys, or the target multimap if one was given
    */
   public static groupPropertyByFunction<
     ItemType extends Record<string, any>,
@@ -457,7 +792,30 @@ export class MapPlusFactory {
     items: ItemType[],
     generator: KeyGenerator,
     property: Property
-  ): MapPlus<ReturnType<KeyGenerator>, ItemType[Property][]> {
+  ): MapPlus<ReturnType<KeyGenerator>, ItemType[Property][]>;
+  public static groupPropertyByFunction<
+    ItemType extends Record<string, any>,
+    KeyGenerator extends (item: ItemType) => any,
+    Property extends keyof ItemType,
+    Target extends MultiMap<ReturnType<KeyGenerator>, ItemType[Property], MultiMapBucket<ItemType[Property]>>
+  >(items: ItemType[], generator: KeyGenerator, property: Property, target: Target): Target;
+  public static groupPropertyByFunction<
+    ItemType extends Record<string, any>,
+    KeyGenerator extends (item: ItemType) => any,
+    Property extends keyof ItemType
+  >(
+    items: ItemType[],
+    generator: KeyGenerator,
+    property: Property,
+    target?: MultiMap<ReturnType<KeyGenerator>, ItemType[Property], MultiMapBucket<ItemType[Property]>>
+  ): MapPlus<ReturnType<KeyGenerator>, ItemType[Property][] | MultiMapBucket<ItemType[Property]>> {
+    if (target !== undefined) {
+      for (const item of items) {
+        target.add(generator(item), item[property]);
+      }
+      return target;
+    }
+
     const result: MapPlus<ReturnType<KeyGenerator>, ItemType[Property][]> = new MapPlus();
     for (const item of items) {
       const key = generator(item);
@@ -502,8 +860,10 @@ export class MapPlusFactory {
    * @param items - the items to insert into the map
    * @param keyProperty - the property to use as the key
    * @param valueProperty - the property to include in the result
+   * @param target - an optional multimap to add the properties to rather than
+   * creating a new map
    * @returns a map instance containing the properties grouped by the values of
-   * the keys
+   * the keys, or the target multimap if one was given
    */
   public static groupPropertyBy<
     ItemType extends Record<string, any>,
@@ -513,7 +873,26 @@ export class MapPlusFactory {
     items: ItemType[],
     keyProperty: KeyProperty,
     valueProperty: ValueProperty
-  ): MapPlus<ItemType[KeyProperty], ItemType[ValueProperty][]> {
-    return this.groupPropertyByFunction(items, (item: ItemType) => item[keyProperty], valueProperty);
+  ): MapPlus<ItemType[KeyProperty], ItemType[ValueProperty][]>;
+  public static groupPropertyBy<
+    ItemType extends Record<string, any>,
+    KeyProperty extends keyof ItemType,
+    ValueProperty extends keyof ItemType,
+    Target extends MultiMap<ItemType[KeyProperty], ItemType[ValueProperty], MultiMapBucket<ItemType[ValueProperty]>>
+  >(items: ItemType[], keyProperty: KeyProperty, valueProperty: ValueProperty, target: Target): Target;
+  public static groupPropertyBy<
+    ItemType extends Record<string, any>,
+    KeyProperty extends keyof ItemType,
+    ValueProperty extends keyof ItemType
+  >(
+    items: ItemType[],
+    keyProperty: KeyProperty,
+    valueProperty: ValueProperty,
+    target?: MultiMap<ItemType[KeyProperty], ItemType[ValueProperty], MultiMapBucket<ItemType[ValueProperty]>>
+  ): MapPlus<ItemType[KeyProperty], ItemType[ValueProperty][] | MultiMapBucket<ItemType[ValueProperty]>> {
+    const generator = (item: ItemType) => item[keyProperty];
+    return target === undefined
+      ? this.groupPropertyByFunction(items, generator, valueProperty)
+      : this.groupPropertyByFunction(items, generator, valueProperty, target);
   }
 }
@@ -0,0 +1,81 @@
+import { MultiMap } from './MultiMap';
+import { SetPlus } from './SetPlus';
+
+describe('MultiMap Tests', function () {
+  describe('array buckets', function () {
+    it('can add values to keys', function () {
+      const map = MultiMap.ofArrays<string, number>();
+      map.add('odd', 1).add('odd', 3).add('even', 2).add('odd', 1);
+
+      expect(map.bucketType).toEqual('array');
+      expect(map.get('odd')).toEqual([1, 3, 1]);
+      expect(map.getAll('even')).toEqual([2]);
+      expect(map.getAll('none')).toEqual([]);
+      expect(map.size).toEqual(2);
+      expect(map.valueCount()).toEqual(4);
+    });
+
+    it('can add many values to a key', function () {
+      const map = MultiMap.ofArrays<string, number>();
+      map.addAll('odd', [1, 3, 5]);
+
+      expect(map.getAll('odd')).toEqual([1, 3, 5]);
+      expect(map.hasValue('odd', 3)).toEqual(true);
+      expect(map.hasValue('odd', 2)).toEqual(false);
+      expect(map.hasValue('even', 2)).toEqual(false);
+    });
+
+    it('should remove only the first occurrence of a value', function () {
+      const map = MultiMap.ofArrays<string, number>();
+      map.addAll('odd', [1, 3, 1]);
+
+      expect(map.removeValue('odd', 1)).toEqual(true);
+      expect(map.getAll('odd')).toEqual([3, 1]);
+      expect(map.removeValue('odd', 5)).toEqual(false);
+      expect(map.removeValue('even', 2)).toEqual(false);
+    });
+
+    it('should remove keys once they have no values', function () {
+      const map = MultiMap.ofArrays<string, number>();
+      map.add('odd', 1).add('even', 2);
+
+      map.removeValue('odd', 1);
+      expect(map.has('odd')).toEqual(false);
+      expect(map.keyList()).toEqual(['even']);
+      expect(map.valueCount()).toEqual(1);
+    });
+
+    it('should return a copy of the values', function () {
+      const map = MultiMap.ofArrays<string, number>();
+      map.add('odd', 1);
+
+      map.getAll('odd').push(3);
+      expect(map.getAll('odd')).toEqual([1]);
+    });
+  });
+
+  describe('set buckets', function () {
+    it('should only keep unique values', function () {
+      const map = MultiMap.ofSets<string, number>();
+      map.add('odd', 1).add('odd', 3).add('odd', 1).add('even', 2);
+
+      expect(map.bucketType).toEqual('set');
+      expect(map.get('odd')).toBeInstanceOf(SetPlus);
+      expect(map.get('odd')?.equals([1, 3])).toEqual(true);
+      expect(map.getAll('odd')).toEqual([1, 3]);
+      expect(map.valueCount()).toEqual(3);
+      expect(map.hasValue('odd', 3)).toEqual(true);
+    });
+
+    it('should remove keys once they have no values', function () {
+      const map = MultiMap.ofSets<string, number>();
+      map.addAll('odd', [1, 3]);
+
+      expect(map.removeValue('odd', 1)).toEqual(true);
+      expect(map.removeValue('odd', 1)).toEqual(false);
+      expect(map.has('odd')).toEqual(true);
+      expect(map.removeValue('odd', 3)).toEqual(true);
+      expect(map.empty()).toEqual(true);
+    });
+  });
+});
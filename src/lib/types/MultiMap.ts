@@ -0,0 +1,226 @@
+import type { MultiMapJson } from './CollectionJson';
+import { MapPlus } from './MapPlus';
+import { SetPlus } from './SetPlus';
+
+/**
+ * The types of bucket a multimap can hold its values in. Array buckets keep
+ * every value added, including duplicates, in the order they were added. Set
+ * buckets only keep unique values.
+ */
+export type MultiMapBucketType = 'array' | 'set';
+
+/**
+ * The collection holding the values of a key in a multimap
+ *
+ * @typeParam V - the type of element used as the value in the map
+ */
+export type MultiMapBucket<V> = V[] | SetPlus<V>;
+
+/**
+ * A map that associates each key with a collection of values. Values are added
+ * to and removed from a key individually, with the key being removed once it
+ * has no values left.
+ *
+ * The type of bucket is chosen when the map is created, using `ofArrays` or
+ * `ofSets`, and determines the `Bucket` type parameter, for example:
+ *
+ * ```ts
+ * const tagsByPost = MultiMap.ofSets<PostId, string>();
+ * tagsByPost.add(postId, 'typescript');
+ * ```
+ *
+ * @typeParam K - the type of element used as the key in the map
+ * @typeParam V - the type of element used as the value in the map
+ * @typeParam Bucket - the type of collection holding the values of each key
+ */
+export class MultiMap<K, V, Bucket extends MultiMapBucket<V> = V[]> extends MapPlus<K, Bucket> {
+  /**
+   * Constructor, which is only called by the factory methods so that the type
+   * of bucket always matches the `Bucket` type parameter
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @typeParam Bucket - the type of collection holding the values of each key
+   * @param bucketType - the type of bucket to hold the values of each key in
+   */
+  protected constructor(public readonly bucketType: MultiMapBucketType) {
+    super();
+  }
+
+  /**
+   * Create a multimap that holds the values of each key in an array, keeping
+   * duplicates in the order they were added
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @returns the new multimap
+   */
+  public static ofArrays<K, V>(): MultiMap<K, V, V[]> {
+    return new MultiMap<K, V, V[]>('array');
+  }
+
+  /**
+   * Create a multimap that holds the values of each key in a set, keeping only
+   * unique values
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @returns the new multimap
+   */
+  public static ofSets<K, V>(): MultiMap<K, V, SetPlus<V>> {
+    return new MultiMap<K, V, SetPlus<V>>('set');
+  }
+
+  /**
+   * Add a value to a key
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param key - the key to add the value to
+   * @param value - the value to add
+   * @returns this instance for chaining
+   */
+  public add(key: K, value: V): this {
+    const bucket = this.bucketFor(key);
+    if (bucket instanceof SetPlus) {
+      bucket.add(value);
+    } else {
+      bucket.push(value);
+    }
+    return this;
+  }
+
+  /**
+   * Add a collection of values to a key
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param key - the key to add the values to
+   * @param values - the values to add
+   * @returns this instance for chaining
+   */
+  public addAll(key: K, values: Iterable<V>): this {
+    for (const value of values) {
+      this.add(key, value);
+    }
+    return this;
+  }
+
+  /**
+   * Remove a value from a key. For array buckets, only the first occurrence of
+   * the value is removed. If the key has no values left then it is removed
+   * from the map.
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param key - the key to remove the value from
+   * @param value - the value to remove
+   * @returns true if the value was present
+   */
+  public removeValue(key: K, value: V): boolean {
+    const bucket = this.get(key);
+    if (bucket === undefined) {
+      return false;
+    }
+
+    let removed: boolean;
+    if (bucket instanceof SetPlus) {
+      removed = bucket.delete(value);
+    } else {
+      const index = bucket.indexOf(value);
+      removed = index >= 0 && bucket.splice(index, 1).length > 0;
+    }
+
+    // Clean up the key once its bucket is empty
+    MultiMap.bucketSize(bucket) < 1 && this.delete(key);
+    return removed;
+  }
+
+  /**
+   * Determine if a key has a given value
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param key - the key to check
+   * @param value - the value to look for
+   * @returns true if the key has the value
+   */
+  public hasValue(key: K, value: V): boolean {
+    const bucket = this.get(key);
+    return bucket !== undefined && (bucket instanceof SetPlus ? bucket.has(value) : bucket.includes(value));
+  }
+
+  /**
+   * Get all of the values of a key as an array
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param key - the key to get the values of
+   * @returns a new array containing the values of the key, which is empty if
+   * the key is not present
+   */
+  public getAll(key: K): V[] {
+    const bucket = this.get(key);
+    return bucket === undefined ? [] : Array.from(bucket);
+  }
+
+  /**
+   * Get the total number of values across all keys. This is O(n) in the number
+   * of keys.
+   *
+   * @returns the total number of values
+   */
+  public valueCount(): number {
+    let count = 0;
+    for (const bucket of this.values()) {
+      count += MultiMap.bucketSize(bucket);
+    }
+    return count;
+  }
+
+  /**
+   * Convert the map into its JSON equivalent, tagged so that
+   * `CollectionJson.reviver` can rebuild the map with the same type of bucket
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @returns the JSON equivalent
+   */
+  public toJSON(): MultiMapJson {
+    return {
+      $type: 'MultiMap',
+      bucketType: this.bucketType,
+      entries: Array.from(this, ([key, bucket]): [K, V[]] => [key, Array.from(bucket)]),
+    };
+  }
+
+  /**
+   * Get the bucket for a key, creating an empty one if the key is not present
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @param key - the key to get the bucket for
+   * @returns the bucket for the key
+   */
+  protected bucketFor(key: K): Bucket {
+    const bucket = this.get(key);
+    if (bucket !== undefined) {
+      return bucket;
+    }
+
+    // The factory methods guarantee that the bucket type matches Bucket
+    const created = (this.bucketType === 'set' ? new SetPlus<V>() : []) as Bucket;
+    this.set(key, created);
+    return created;
+  }
+
+  /**
+   * Get the number of values in a bucket
+   *
+   * @typeParam V - the type of element used as the value in the map
+   * @param bucket - the bucket
+   * @returns the number of values in the bucket
+   */
+  protected static bucketSize<V>(bucket: MultiMapBucket<V>): number {
+    return bucket instanceof SetPlus ? bucket.size : bucket.length;
+  }
+}
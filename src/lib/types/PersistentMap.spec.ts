@@ -0,0 +1,147 @@
+import { PersistentMap } from './PersistentMap';
+
+describe('PersistentMap Tests', function () {
+  describe('construction', function () {
+    it('can create an empty map', function () {
+      const map = PersistentMap.empty<string, number>();
+
+      expect(map.size).toEqual(0);
+      expect(map.empty()).toEqual(true);
+      expect(Array.from(map)).toEqual([]);
+    });
+
+    it('can create a map from entries', function () {
+      const map = PersistentMap.from([
+        ['one', 1],
+        ['two', 2],
+        ['one', 10],
+      ]);
+
+      expect(map.size).toEqual(2);
+      expect(map.toObject()).toEqual({ one: 10, two: 2 });
+    });
+  });
+
+  describe('with and without', function () {
+    it('should leave the original map unchanged', function () {
+      const original = PersistentMap.from([['one', 1]]);
+      const added = original.with('two', 2);
+      const replaced = added.with('one', 10);
+      const removed = replaced.without('two');
+
+      expect(original.toObject()).toEqual({ one: 1 });
+      expect(added.toObject()).toEqual({ one: 1, two: 2 });
+      expect(replaced.toObject()).toEqual({ one: 10, two: 2 });
+      expect(removed.toObject()).toEqual({ one: 10 });
+      expect([original.size, added.size, replaced.size, removed.size]).toEqual([1, 2, 2, 1]);
+    });
+
+    it('should return the same instance when nothing changes', function () {
+      const map = PersistentMap.from([['one', 1]]);
+
+      expect(map.with('one', 1)).toBe(map);
+      expect(map.without('two')).toBe(map);
+    });
+
+    it('can handle keys whose hashes collide', function () {
+      // These strings have the same hash
+      const map = PersistentMap.empty<string, number>().with('Aa', 1).with('BB', 2);
+
+      expect(map.size).toEqual(2);
+      expect(map.get('Aa')).toEqual(1);
+      expect(map.get('BB')).toEqual(2);
+      expect(map.without('Aa').get('BB')).toEqual(2);
+      expect(map.without('Aa').without('BB').empty()).toEqual(true);
+    });
+
+    it('can handle keys of many types', function () {
+      const object = {};
+      const symbol = Symbol('key');
+      const keys: unknown[] = [0, -1, 1.5, NaN, 'key', true, null, undefined, object, symbol, BigInt(10)];
+      const map = PersistentMap.from(keys.map((key, index) => [key, index] as const));
+
+      expect(map.size).toEqual(keys.length);
+      keys.forEach((key, index) => expect(map.get(key)).toEqual(index));
+      expect(map.get(-0)).toEqual(0);
+      expect(map.get({})).not.toBeDefined();
+    });
+
+    it('can tell apart symbols with the same description', function () {
+      const first = Symbol('key');
+      const second = Symbol('key');
+      const map = PersistentMap.from<unknown, number>([
+        [first, 1],
+        [second, 2],
+        [Symbol.for('key'), 3],
+        ['key', 4],
+      ]);
+
+      expect(map.size).toEqual(4);
+      expect(map.get(first)).toEqual(1);
+      expect(map.get(second)).toEqual(2);
+      expect(map.get(Symbol.for('key'))).toEqual(3);
+      expect(map.get(Symbol('key'))).not.toBeDefined();
+      expect(map.without(first).get(second)).toEqual(2);
+    });
+
+    it('should match a native map across many operations', function () {
+      let map = PersistentMap.empty<number, number>();
+      const expected = new Map<number, number>();
+      for (let step = 0; step < 5000; ++step) {
+        const key = (step * 7919) % 1543;
+        if (step % 3 === 2) {
+          map = map.without(key);
+          expected.delete(key);
+        } else {
+          map = map.with(key, step);
+          expected.set(key, step);
+        }
+      }
+
+      expect(map.size).toEqual(expected.size);
+      expect(new Map(map)).toEqual(expected);
+      for (const [key, value] of expected) {
+        expect(map.get(key)).toEqual(value);
+      }
+    });
+  });
+
+  describe('helpers', function () {
+    it('can merge maps', function () {
+      const map = PersistentMap.from([
+        ['one', 1],
+        ['two', 2],
+      ]);
+      const other = new Map([
+        ['two', 20],
+        ['three', 30],
+      ]);
+
+      expect(map.merge(other).toObject()).toEqual({ one: 1, two: 2, three: 30 });
+      expect(map.merge(other, true).toObject()).toEqual({ one: 1, two: 20, three: 30 });
+    });
+
+    it('should keep the first value of a repeated key unless overwriting', function () {
+      const map = PersistentMap.from([['one', 1]]);
+      const other: [string, number][] = [
+        ['two', 2],
+        ['two', 20],
+      ];
+
+      expect(map.merge(other).toObject()).toEqual({ one: 1, two: 2 });
+      expect(map.merge(other, true).toObject()).toEqual({ one: 1, two: 20 });
+    });
+
+    it('can convert the map', function () {
+      const map = PersistentMap.from([
+        ['one', 1],
+        ['two', 2],
+      ]);
+
+      expect(map.keySet().equals(['one', 'two'])).toEqual(true);
+      expect(Array.from(map.values()).sort()).toEqual([1, 2]);
+      expect(map.toMapPlus().set('three', 3).size).toEqual(3);
+      expect(map.size).toEqual(2);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { HamtChange, HamtNode, hamtEmpty, hamtEntries, hamtGet, hamtRemove, hamtSet } from './Hamt';
+import { MapPlus } from './MapPlus';
+import { Seq } from './Seq';
+import { SetPlus } from './SetPlus';
+
+/**
+ * An immutable map. Operations that would modify the map instead return a new
+ * map that shares most of its structure with the original, so creating a
+ * modified copy is O(log n) rather than O(n). This makes instances safe to
+ * share between modules without defensive copying.
+ *
+ * @typeParam K - the type of element used as the key in the map
+ * @typeParam V - the type of element used as the value in the map
+ */
+export class PersistentMap<K, V> implements Iterable<[K, V]> {
+  /**
+   * Constructor
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param root - the root of the trie holding the entries
+   * @param size - the number of entries in the map
+   */
+  protected constructor(protected readonly root: HamtNode<K, V>, public readonly size: number) {}
+
+  /**
+   * Get an empty map
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @returns the empty map
+   */
+  public static empty<K, V>(): PersistentMap<K, V> {
+    return new PersistentMap(hamtEmpty(), 0);
+  }
+
+  /**
+   * Create a map containing the given entries
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param entries - the entries of the map
+   * @returns the map
+   */
+  public static from<K, V>(entries: Iterable<readonly [K, V]>): PersistentMap<K, V> {
+    return PersistentMap.empty<K, V>().withAll(entries);
+  }
+
+  /**
+   * Determine if the map is empty
+   *
+   * @returns true if the map is empty
+   */
+  public empty(): boolean {
+    return this.size < 1;
+  }
+
+  /**
+   * Get the value of a key
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param key - the key to get
+   * @returns the value of the key or undefined if it is not present
+   */
+  public get(key: K): V | undefined {
+    return hamtGet(this.root, key)?.value;
+  }
+
+  /**
+   * Determine if the map contains a key
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @param key - the key to check
+   * @returns true if the key is present
+   */
+  public has(key: K): boolean {
+    return hamtGet(this.root, key) !== undefined;
+  }
+
+  /**
+   * Create a map with a key set to a value
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param key - the key to set
+   * @param value - the value of the key
+   * @returns the new map, or this instance if the key already had the value
+   */
+  public with(key: K, value: V): PersistentMap<K, V> {
+    const change: HamtChange = { sizeChanged: false };
+    const root = hamtSet(this.root, key, value, change);
+    return root === this.root ? this : new PersistentMap(root, this.size + (change.sizeChanged ? 1 : 0));
+  }
+
+  /**
+   * Create a map with many keys set to values
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param entries - the entries to set
+   * @returns the new map, or this instance if nothing changed
+   */
+  public withAll(entries: Iterable<readonly [K, V]>): PersistentMap<K, V> {
+    const change: HamtChange = { sizeChanged: false };
+    let root = this.root;
+    let size = this.size;
+    for (const [key, value] of entries) {
+      change.sizeChanged = false;
+      root = hamtSet(root, key, value, change);
+      change.sizeChanged && ++size;
+    }
+    return root === this.root ? this : new PersistentMap(root, size);
+  }
+
+  /**
+   * Create a map without a key
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param key - the key to remove
+   * @returns the new map, or this instance if the key was not present
+   */
+  public without(key: K): PersistentMap<K, V> {
+    const change: HamtChange = { sizeChanged: false };
+    const root = hamtRemove(this.root, key, change);
+    return change.sizeChanged ? new PersistentMap(root, this.size - 1) : this;
+  }
+
+  /**
+   * Create a map containing the entries of this map and another. For keys
+   * existing in both, the value in this instance is kept unless explicitly
+   * requested.
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param other - the other map
+   * @param overwrite - whether to take the values of the other map
+   * @returns the new map
+   */
+  public merge(other: Iterable<readonly [K, V]>, overwrite = false): PersistentMap<K, V> {
+    let result: PersistentMap<K, V> = this;
+    for (const [key, value] of other) {
+      if (overwrite || !result.has(key)) {
+        result = result.with(key, value);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Return an iterator over the entries of the map
+   *
+   * @returns the iterator
+   */
+  public *entries(): IterableIterator<[K, V]> {
+    for (const entry of hamtEntries(this.root)) {
+      yield [entry.key, entry.value];
+    }
+  }
+
+  /**
+   * Return an iterator over the keys of the map
+   *
+   * @returns the iterator
+   */
+  public *keys(): IterableIterator<K> {
+    for (const entry of hamtEntries(this.root)) {
+      yield entry.key;
+    }
+  }
+
+  /**
+   * Return an iterator over the values of the map
+   *
+   * @returns the iterator
+   */
+  public *values(): IterableIterator<V> {
+    for (const entry of hamtEntries(this.root)) {
+      yield entry.value;
+    }
+  }
+
+  /**
+   * Return an iterator over the entries of the map
+   *
+   * @returns the iterator
+   */
+  [Symbol.iterator](): Iterator<[K, V]> {
+    return this.entries();
+  }
+
+  /**
+   * Get a lazy sequence over the entries of the map
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @returns the sequence
+   */
+  public seq(): Seq<[K, V]> {
+    return new Seq(this);
+  }
+
+  /**
+   * Get the keys of the map as a set
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @returns the keys of the map as a set
+   */
+  public keySet(): SetPlus<K> {
+    return new SetPlus(this.keys());
+  }
+
+  /**
+   * Convert the map into a mutable `MapPlus`
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @returns an equivalent mutable map
+   */
+  public toMapPlus(): MapPlus<K, V> {
+    return new MapPlus(this.entries());
+  }
+
+  /**
+   * Convert the map into an object
+   *
+   * @typeParam ObjectKeyType - the type of keys to use in the resulting object
+   * @typeParam V - the type of element used as the value in the map
+   * @returns an equivalent object
+   */
+  public toObject<ObjectKeyType extends keyof any>(): Record<ObjectKeyType, V> {
+    return this.toMapPlus().toObject();
+  }
+}
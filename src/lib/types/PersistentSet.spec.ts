@@ -0,0 +1,55 @@
+import { PersistentSet } from './PersistentSet';
+
+describe('PersistentSet Tests', function () {
+  describe('with and without', function () {
+    it('should leave the original set unchanged', function () {
+      const original = PersistentSet.from(['red', 'green']);
+      const added = original.with('blue');
+      const removed = added.without('red');
+
+      expect(original.equals(['red', 'green'])).toEqual(true);
+      expect(added.equals(['red', 'green', 'blue'])).toEqual(true);
+      expect(removed.equals(['green', 'blue'])).toEqual(true);
+      expect([original.size, added.size, removed.size]).toEqual([2, 3, 2]);
+    });
+
+    it('should return the same instance when nothing changes', function () {
+      const set = PersistentSet.from(['red']);
+
+      expect(set.with('red')).toBe(set);
+      expect(set.without('blue')).toBe(set);
+    });
+  });
+
+  describe('set operations', function () {
+    const colours = PersistentSet.from(['red', 'green', 'blue']);
+
+    it('can compute the union', function () {
+      expect(
+        colours.union(['black'], new Set(['white', 'red'])).equals(['red', 'green', 'blue', 'black', 'white'])
+      ).toBe(true);
+      expect(colours.union()).toBe(colours);
+    });
+
+    it('can compute the intersection', function () {
+      expect(colours.intersection(['red', 'blue', 'pink'], PersistentSet.from(['blue'])).equals(['blue'])).toBe(true);
+      expect(colours.intersection(['pink']).empty()).toBe(true);
+    });
+
+    it('can compute the difference', function () {
+      expect(colours.difference(['red'], ['pink', 'green']).equals(['blue'])).toBe(true);
+      expect(colours.equals(['red', 'green', 'blue'])).toBe(true);
+    });
+  });
+
+  describe('conversion', function () {
+    it('can convert the set', function () {
+      const set = PersistentSet.from([3, 1, 2]);
+
+      expect(set.toArray().sort()).toEqual([1, 2, 3]);
+      expect(set.toSetPlus().add(4).size).toEqual(4);
+      expect(set.size).toEqual(3);
+      expect(PersistentSet.from([1]).toString()).toEqual('{1}');
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import { HamtChange, HamtNode, hamtEmpty, hamtEntries, hamtGet, hamtRemove, hamtSet } from './Hamt';
+import { Seq } from './Seq';
+import { SetPlus } from './SetPlus';
+
+/**
+ * An immutable set. Operations that would modify the set instead return a new
+ * set that shares most of its structure with the original, so creating a
+ * modified copy is O(log n) rather than O(n). The set operations likewise
+ * build their results from the existing structure rather than copying every
+ * element.
+ *
+ * @typeParam T - the type of element stored in the set
+ */
+export class PersistentSet<T> implements Iterable<T> {
+  /**
+   * Constructor
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param root - the root of the trie holding the elements
+   * @param size - the number of elements in the set
+   */
+  protected constructor(protected readonly root: HamtNode<T, true>, public readonly size: number) {}
+
+  /**
+   * Get an empty set
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns the empty set
+   */
+  public static empty<T>(): PersistentSet<T> {
+    return new PersistentSet(hamtEmpty(), 0);
+  }
+
+  /**
+   * Create a set containing the given elements
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param elements - the elements of the set
+   * @returns the set
+   */
+  public static from<T>(elements: Iterable<T>): PersistentSet<T> {
+    return PersistentSet.empty<T>().withAll(elements);
+  }
+
+  /**
+   * Determine if this is the empty set
+   *
+   * @returns true if the set is empty
+   */
+  public empty(): boolean {
+    return this.size < 1;
+  }
+
+  /**
+   * Determine if the set contains an element
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param element - the element to check
+   * @returns true if the element is present
+   */
+  public has(element: T): boolean {
+    return hamtGet(this.root, element) !== undefined;
+  }
+
+  /**
+   * Create a set with an element added
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param element - the element to add
+   * @returns the new set, or this instance if the element was already present
+   */
+  public with(element: T): PersistentSet<T> {
+    return this.withAll([element]);
+  }
+
+  /**
+   * Create a set with many elements added
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param elements - the elements to add
+   * @returns the new set, or this instance if nothing changed
+   */
+  public withAll(elements: Iterable<T>): PersistentSet<T> {
+    const change: HamtChange = { sizeChanged: false };
+    let root = this.root;
+    let size = this.size;
+    for (const element of elements) {
+      change.sizeChanged = false;
+      root = hamtSet(root, element, true, change);
+      change.sizeChanged && ++size;
+    }
+    return root === this.root ? this : new PersistentSet(root, size);
+  }
+
+  /**
+   * Create a set with an element removed
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param element - the element to remove
+   * @returns the new set, or this instance if the element was not present
+   */
+  public without(element: T): PersistentSet<T> {
+    return this.withoutAll([element]);
+  }
+
+  /**
+   * Create a set with many elements removed
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param elements - the elements to remove
+   * @returns the new set, or this instance if nothing changed
+   */
+  public withoutAll(elements: Iterable<T>): PersistentSet<T> {
+    const change: HamtChange = { sizeChanged: false };
+    let root = this.root;
+    let size = this.size;
+    for (const element of elements) {
+      change.sizeChanged = false;
+      root = hamtRemove(root, element, change);
+      change.sizeChanged && --size;
+    }
+    return root === this.root ? this : new PersistentSet(root, size);
+  }
+
+  /**
+   * Compute the union of this set with a list of other collections. Formally,
+   * `result = this ∪ A ∪ B ∪ C`.
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param collections - the other collections
+   * @returns the union of this set with the other collections
+   */
+  public union(...collections: Iterable<T>[]): PersistentSet<T> {
+    return collections.reduce<PersistentSet<T>>((result, collection) => result.withAll(collection), this);
+  }
+
+  /**
+   * Compute the intersection of this set with a list of other collections.
+   * Formally, `result = this ∩ A ∩ B ∩ C`.
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param collections - the other collections
+   * @returns the intersection of this set with the other collections
+   */
+  public intersection(...collections: Iterable<T>[]): PersistentSet<T> {
+    let result: PersistentSet<T> = this;
+    for (const collection of collections) {
+      // Convert the collection to something that can be tested for membership
+      // if necessary and remove the elements that are not in it.
+      const other = collection instanceof Set || collection instanceof PersistentSet ? collection : new Set(collection);
+      const missing: T[] = [];
+      for (const element of result) {
+        other.has(element) || missing.push(element);
+      }
+      result = result.withoutAll(missing);
+    }
+    return result;
+  }
+
+  /**
+   * Compute the difference of this set with a list of other collections.
+   * Formally, `result = this - A - B - C`.
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param collections - the other collections
+   * @returns the difference of this set with the other collections
+   */
+  public difference(...collections: Iterable<T>[]): PersistentSet<T> {
+    return collections.reduce<PersistentSet<T>>((result, collection) => result.withoutAll(collection), this);
+  }
+
+  /**
+   * Determine if this set is equivalent to another collection
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param collection - the other collection
+   * @returns true if this set is equivalent to the given collection
+   */
+  public equals(collection: Iterable<T>): boolean {
+    const other = new Set(collection);
+    if (other.size !== this.size) {
+      return false;
+    }
+    for (const element of other) {
+      if (!this.has(element)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Return an iterator over the elements of the set
+   *
+   * @returns the iterator
+   */
+  public *[Symbol.iterator](): Iterator<T> {
+    for (const entry of hamtEntries(this.root)) {
+      yield entry.key;
+    }
+  }
+
+  /**
+   * Get a lazy sequence over the elements of the set
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns the sequence
+   */
+  public seq(): Seq<T> {
+    return new Seq(this);
+  }
+
+  /**
+   * Create an array containing all elements in the set
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns this instance as an array
+   */
+  public toArray(): T[] {
+    return Array.from(this);
+  }
+
+  /**
+   * Convert the set into a mutable `SetPlus`
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns an equivalent mutable set
+   */
+  public toSetPlus(): SetPlus<T> {
+    return new SetPlus(this);
+  }
+
+  /**
+   * Convert the set to its string representation
+   *
+   * @returns the set as a string
+   */
+  public toString(): string {
+    return `{${this.toArray().join(',')}}`;
+  }
+}
@@ -0,0 +1,112 @@
+import { PriorityQueue } from './PriorityQueue';
+
+interface Task {
+  name: string;
+  priority: number;
+}
+
+describe('PriorityQueue Tests', function () {
+  const byPriority = (a: Task, b: Task) => a.priority - b.priority;
+
+  function drain<T>(queue: PriorityQueue<T>): T[] {
+    const items: T[] = [];
+    while (!queue.empty()) {
+      items.push(queue.pop() as T);
+    }
+    return items;
+  }
+
+  describe('constructor', function () {
+    it('can create an empty queue', function () {
+      const queue = new PriorityQueue<number>();
+
+      expect(queue.empty()).toEqual(true);
+      expect(queue.length()).toEqual(0);
+      expect(queue.peek()).not.toBeDefined();
+      expect(queue.pop()).not.toBeDefined();
+    });
+
+    it('can create a queue from an iterable', function () {
+      const queue = new PriorityQueue(undefined, new Set([5, 3, 8, 1, 9, 2, 7]));
+
+      expect(queue.length()).toEqual(7);
+      expect(queue.peek()).toEqual(1);
+      expect(drain(queue)).toEqual([1, 2, 3, 5, 7, 8, 9]);
+    });
+
+    it('can order items using a comparator', function () {
+      const queue = new PriorityQueue<number>((a, b) => b - a, [5, 3, 8, 1]);
+      expect(drain(queue)).toEqual([8, 5, 3, 1]);
+    });
+  });
+
+  describe('push and pop', function () {
+    it('should pop items in priority order', function () {
+      const queue = new PriorityQueue<number>();
+      queue.push(4, 1, 3).push(2);
+
+      expect(queue.length()).toEqual(4);
+      expect(queue.pop()).toEqual(1);
+      queue.push(0);
+      expect(drain(queue)).toEqual([0, 2, 3, 4]);
+    });
+
+    it('should order many random items', function () {
+      const items = Array.from({ length: 200 }, (_, index) => (index * 7919) % 211);
+      const queue = new PriorityQueue<number>();
+      items.forEach((item) => queue.push(item));
+
+      expect(drain(queue)).toEqual([...items].sort((a, b) => a - b));
+    });
+  });
+
+  describe('handles', function () {
+    it('can update the priority of an item', function () {
+      const queue = new PriorityQueue<Task>(byPriority);
+      const low = queue.pushHandle({ name: 'low', priority: 10 });
+      queue.push({ name: 'mid', priority: 5 }, { name: 'high', priority: 1 });
+
+      queue.update(low, { name: 'low', priority: 0 });
+      expect(queue.peek()?.name).toEqual('low');
+
+      (low.item as Task).priority = 20;
+      queue.update(low);
+      expect(drain(queue).map((task) => task.name)).toEqual(['high', 'mid', 'low']);
+    });
+
+    it('can remove an arbitrary item', function () {
+      const queue = new PriorityQueue<number>();
+      const handles = [5, 3, 8, 1, 9].map((item) => queue.pushHandle(item));
+
+      expect(queue.remove(handles[2])).toEqual(8);
+      expect(queue.remove(handles[3])).toEqual(1);
+      expect(drain(queue)).toEqual([3, 5, 9]);
+    });
+
+    it('should reject handles that are no longer in the queue', function () {
+      const queue = new PriorityQueue<number>();
+      const handle = queue.pushHandle(1);
+      queue.pop();
+
+      expect(() => queue.remove(handle)).toThrow();
+      expect(() => new PriorityQueue<number>(undefined, [1]).update(handle)).toThrow();
+
+      const cleared = queue.pushHandle(2);
+      queue.clear();
+      expect(queue.empty()).toEqual(true);
+      expect(() => queue.remove(cleared)).toThrow();
+    });
+  });
+
+  describe('conversion', function () {
+    it('can convert the queue without removing items', function () {
+      const queue = new PriorityQueue<number>(undefined, [3, 1, 2]);
+
+      expect(queue.toArray()).toEqual([1, 2, 3]);
+      expect(queue.toJSON()).toEqual([1, 2, 3]);
+      expect(queue.toString()).toEqual('1,2,3');
+      expect(Array.from(queue)).toEqual([1, 2, 3]);
+      expect(queue.length()).toEqual(3);
+    });
+  });
+});
@@ -0,0 +1,329 @@
+import { Seq } from './Seq';
+
+/**
+ * A function that compares two items, returning a negative number if the first
+ * item comes before the second, a positive number if it comes after and zero if
+ * they are equivalent.
+ *
+ * @typeParam T - the type of items being compared
+ */
+export type Comparator<T> = (a: T, b: T) => number;
+
+/**
+ * A comparator that orders items using their natural ordering, that is, the
+ * `<` and `>` operators.
+ *
+ * @typeParam T - the type of items being compared
+ * @param a - the first item
+ * @param b - the second item
+ * @returns the relative order of the two items
+ */
+export function naturalOrder<T>(a: T, b: T): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * An opaque handle to an item in a priority queue. A handle is returned when an
+ * item is added to a queue and can later be given back to the queue to update
+ * or remove that item.
+ *
+ * @typeParam T - the type of items handled by the queue
+ */
+export interface PriorityQueueHandle<T> {
+  // The item the handle refers to
+  readonly item: T;
+}
+
+/**
+ * A node in the heap backing a priority queue
+ *
+ * @typeParam T - the type of items handled by the queue
+ */
+interface PriorityQueueNode<T> {
+  // The item that the node contains
+  item: T;
+
+  // The position of the node in the heap or -1 if it has been removed
+  index: number;
+}
+
+/**
+ * A priority queue implemented as a binary heap. The item that the comparator
+ * orders first is always at the front of the queue.
+ *
+ * @typeParam T - the type of items handled by the queue
+ */
+export class PriorityQueue<T> implements Iterable<T> {
+  // The nodes of the queue arranged as a binary heap
+  protected heap: PriorityQueueNode<T>[] = [];
+
+  /**
+   * Constructor. Any initial items are arranged into a heap in O(n).
+   *
+   * @typeParam T - the type of items handled by the queue
+   * @param comparator - the function that orders the items
+   * @param items - optional items to start the queue
+   */
+  public constructor(protected readonly comparator: Comparator<T> = naturalOrder, items?: Iterable<T>) {
+    if (items !== undefined) {
+      for (const item of items) {
+        this.heap.push({ item, index: this.heap.length });
+      }
+      for (let index = (this.heap.length >> 1) - 1; index >= 0; --index) {
+        this.siftDown(index);
+      }
+    }
+  }
+
+  /**
+   * Get the number of items in the queue
+   *
+   * @returns the number of items in the queue
+   */
+  public length(): number {
+    return this.heap.length;
+  }
+
+  /**
+   * Called to see if the queue is empty
+   *
+   * @returns true if the queue is empty
+   */
+  public empty(): boolean {
+    return this.heap.length === 0;
+  }
+
+  /**
+   * Add one or more items to the queue
+   *
+   * @param item - the first item to be added
+   * @param others - the other items to add
+   * @returns this instance to allow for chaining
+   */
+  public push(item: T, ...others: T[]): this {
+    this.pushHandle(item);
+    for (const other of others) {
+      this.pushHandle(other);
+    }
+    return this;
+  }
+
+  /**
+   * Add an item to the queue and return a handle to it
+   *
+   * @param item - the item to be added
+   * @returns the handle for the item
+   */
+  public pushHandle(item: T): PriorityQueueHandle<T> {
+    const node: PriorityQueueNode<T> = { item, index: this.heap.length };
+    this.heap.push(node);
+    this.siftUp(node.index);
+    return node;
+  }
+
+  /**
+   * Remove the item at the front of the queue
+   *
+   * @returns the item removed or undefined if the queue is empty
+   */
+  public pop(): T | undefined {
+    return this.heap.length > 0 ? this.removeAt(0) : undefined;
+  }
+
+  /**
+   * Return the item at the front of the queue without removing it
+   *
+   * @returns the front item or undefined if the queue is empty
+   */
+  public peek(): T | undefined {
+    return this.heap[0]?.item;
+  }
+
+  /**
+   * Reposition the item referred to by a handle after its priority has
+   * changed, optionally replacing it with a new item.
+   *
+   * @param handle - the handle of the item to update
+   * @param item - the replacement item, if any
+   * @returns this instance to allow for chaining
+   * @throws Error if the handle does not refer to an item in this queue
+   */
+  public update(handle: PriorityQueueHandle<T>, item?: T): this {
+    const node = this.nodeOf(handle);
+    if (item !== undefined) {
+      node.item = item;
+    }
+
+    // The item may need to move either way depending on how it changed
+    this.siftUp(node.index);
+    this.siftDown(node.index);
+    return this;
+  }
+
+  /**
+   * Remove the item referred to by a handle from the queue. The handle is no
+   * longer valid once removed.
+   *
+   * @param handle - the handle of the item to remove
+   * @returns the item removed
+   * @throws Error if the handle does not refer to an item in this queue
+   */
+  public remove(handle: PriorityQueueHandle<T>): T {
+    return this.removeAt(this.nodeOf(handle).index);
+  }
+
+  /**
+   * Remove all items from the queue
+   */
+  public clear() {
+    for (const node of this.heap) {
+      node.index = -1;
+    }
+    this.heap = [];
+  }
+
+  /**
+   * Return an iterator that visits the items in priority order without
+   * removing them from the queue.
+   *
+   * @returns the iterator
+   */
+  [Symbol.iterator](): Iterator<T> {
+    return this.toArray()[Symbol.iterator]();
+  }
+
+  /**
+   * Get a lazy sequence over the items in priority order
+   *
+   * @typeParam T - the type of items handled by the queue
+   * @returns the sequence
+   */
+  public seq(): Seq<T> {
+    return new Seq(this);
+  }
+
+  /**
+   * Convert the queue into an array of its items in priority order
+   *
+   * @returns the queue as an array
+   */
+  public toArray(): T[] {
+    return this.heap.map((node) => node.item).sort(this.comparator);
+  }
+
+  /**
+   * Convert the queue into its string representation
+   *
+   * @returns the string representation of the queue
+   */
+  public toString(): string {
+    return this.toArray().toString();
+  }
+
+  /**
+   * Convert the queue into its JSON equivalent
+   *
+   * @returns the JSON equivalent
+   */
+  public toJSON(): T[] {
+    return this.toArray();
+  }
+
+  /**
+   * Convert a handle back into the node it refers to, making sure that the
+   * node is still a member of this queue.
+   *
+   * @param handle - the handle to convert
+   * @returns the node for the handle
+   * @throws Error if the handle does not refer to an item in this queue
+   */
+  protected nodeOf(handle: PriorityQueueHandle<T>): PriorityQueueNode<T> {
+    const node = handle as PriorityQueueNode<T>;
+    if (this.heap[node.index] !== node) {
+      throw new Error('Handle does not refer to an item in this queue');
+    }
+    return node;
+  }
+
+  /**
+   * Remove the node at a given position in the heap
+   *
+   * @param index - the position of the node to remove
+   * @returns the item of the removed node
+   */
+  protected removeAt(index: number): T {
+    // Replace the node with the last node in the heap and then restore the
+    // heap property from that position.
+    const node = this.heap[index];
+    const last = this.heap.pop() as PriorityQueueNode<T>;
+    if (last !== node) {
+      this.place(last, index);
+      this.siftUp(index);
+      this.siftDown(index);
+    }
+
+    node.index = -1;
+    return node.item;
+  }
+
+  /**
+   * Move a node up the heap until its parent comes before it
+   *
+   * @param index - the position of the node to move
+   */
+  protected siftUp(index: number) {
+    const node = this.heap[index];
+    while (index > 0) {
+      const parentIndex = (index - 1) >> 1;
+      const parent = this.heap[parentIndex];
+      if (this.comparator(node.item, parent.item) >= 0) {
+        break;
+      }
+
+      this.place(parent, index);
+      index = parentIndex;
+    }
+    this.place(node, index);
+  }
+
+  /**
+   * Move a node down the heap until it comes before both of its children
+   *
+   * @param index - the position of the node to move
+   */
+  protected siftDown(index: number) {
+    const node = this.heap[index];
+    const length = this.heap.length;
+    for (;;) {
+      // Find the child that comes first, if any
+      let childIndex = 2 * index + 1;
+      if (childIndex >= length) {
+        break;
+      }
+      if (childIndex + 1 < length && this.comparator(this.heap[childIndex + 1].item, this.heap[childIndex].item) < 0) {
+        ++childIndex;
+      }
+
+      // Stop once the node comes before its first child
+      const child = this.heap[childIndex];
+      if (this.comparator(child.item, node.item) >= 0) {
+        break;
+      }
+
+      this.place(child, index);
+      index = childIndex;
+    }
+    this.place(node, index);
+  }
+
+  /**
+   * Place a node at a given position in the heap
+   *
+   * @param node - the node to place
+   * @param index - the position for the node
+   */
+  protected place(node: PriorityQueueNode<T>, index: number) {
+    this.heap[index] = node;
+    node.index = index;
+  }
+}
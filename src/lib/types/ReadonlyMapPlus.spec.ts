@@ -0,0 +1,63 @@
+import { MapPlus } from './MapPlus';
+import { ReadonlyMapPlus } from './ReadonlyMapPlus';
+
+describe('ReadonlyMapPlus Tests', function () {
+  const entries: [string, number][] = [
+    ['one', 1],
+    ['two', 2],
+  ];
+
+  it('can be created with entries', function () {
+    const map = new ReadonlyMapPlus(entries);
+
+    expect(map.size).toEqual(2);
+    expect(map.get('one')).toEqual(1);
+    expect(map.toObject()).toEqual({ one: 1, two: 2 });
+  });
+
+  it('should show changes made to the underlying map', function () {
+    const source = new Map(entries);
+    const map = new ReadonlyMapPlus(source);
+
+    source.set('three', 3);
+    source.delete('one');
+    expect(map.size).toEqual(2);
+    expect(map.has('one')).toEqual(false);
+    expect(map.get('three')).toEqual(3);
+    expect(map.keyList()).toEqual(['two', 'three']);
+    expect(map.toObject()).toEqual({ two: 2, three: 3 });
+    expect(map.equals(source)).toEqual(true);
+
+    source.clear();
+    expect(map.empty()).toEqual(true);
+  });
+
+  it('should copy entries that are not a map', function () {
+    const copied = [...entries];
+    const map = new ReadonlyMapPlus(copied);
+
+    copied.push(['three', 3]);
+    expect(map.size).toEqual(2);
+    expect(new ReadonlyMapPlus().empty()).toEqual(true);
+  });
+
+  it('should throw when modified', function () {
+    const map = new ReadonlyMapPlus(entries);
+
+    expect(() => map.set('three', 3)).toThrow();
+    expect(() => map.delete('one')).toThrow();
+    expect(() => map.clear()).toThrow();
+    expect(() => map.merge(new MapPlus([['three', 3]]))).toThrow();
+    expect(() => map.eject('one')).toThrow('Cannot modify a read-only map');
+    expect(map.toObject()).toEqual({ one: 1, two: 2 });
+  });
+
+  it('should return mutable maps from the helpers', function () {
+    const map = new ReadonlyMapPlus(entries);
+    const subset = map.subset(['one']);
+
+    expect(subset).not.toBeInstanceOf(ReadonlyMapPlus);
+    subset.set('three', 3);
+    expect(subset.toObject()).toEqual({ one: 1, three: 3 });
+  });
+});
@@ -0,0 +1,160 @@
+import type { MapPlusJson } from './CollectionJson';
+import { MapPlus } from './MapPlus';
+
+/**
+ * A read-only view of a map. Reads are delegated to the underlying map so any
+ * changes made to it show through the view, while any attempt to modify the
+ * view, either directly or through a helper such as `merge` or `eject`, throws
+ * an error. The non-mutating helpers, such as `subset` or `keyFilter`, continue
+ * to work and return ordinary mutable maps.
+ *
+ * Passing a map gives a view of that map, which lets a module share a lookup
+ * table without others being able to change it. Passing any other iterable of
+ * entries gives a view of a private copy, so its contents are fixed.
+ *
+ * @typeParam K - the type of element used as the key in the map
+ * @typeParam V - the type of element used as the value in the map
+ */
+export class ReadonlyMapPlus<K, V> extends MapPlus<K, V> {
+  // The map whose contents are being viewed
+  protected readonly source: ReadonlyMap<K, V>;
+
+  /**
+   * Constructor
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param source - the map to view or the entries of the map
+   */
+  public constructor(source?: ReadonlyMap<K, V> | Iterable<readonly [K, V]>) {
+    super();
+    this.source = source instanceof Map ? source : new Map(source ?? []);
+  }
+
+  /**
+   * Get the number of entries in the underlying map
+   *
+   * @returns the number of entries
+   */
+  public get size(): number {
+    return this.source.size;
+  }
+
+  /**
+   * Get the value of a key
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param key - the key to get
+   * @returns the value of the key or undefined if it is not present
+   */
+  public get(key: K): V | undefined {
+    return this.source.get(key);
+  }
+
+  /**
+   * Determine if the map contains a key
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @param key - the key to check
+   * @returns true if the key is present
+   */
+  public has(key: K): boolean {
+    return this.source.has(key);
+  }
+
+  /**
+   * Not supported since the map is read-only
+   *
+   * @throws Error always
+   */
+  public set(_key: K, _value: V): this {
+    throw new Error('Cannot modify a read-only map');
+  }
+
+  /**
+   * Not supported since the map is read-only
+   *
+   * @throws Error always
+   */
+  public delete(_key: K): boolean {
+    throw new Error('Cannot modify a read-only map');
+  }
+
+  /**
+   * Not supported since the map is read-only
+   *
+   * @throws Error always
+   */
+  public clear() {
+    throw new Error('Cannot modify a read-only map');
+  }
+
+  /**
+   * Iterate over the entries of the map
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @returns an iterator over the entries
+   */
+  public [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.source.entries();
+  }
+
+  /**
+   * Iterate over the entries of the map
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @returns an iterator over the entries
+   */
+  public entries(): IterableIterator<[K, V]> {
+    return this.source.entries();
+  }
+
+  /**
+   * Iterate over the keys of the map
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @returns an iterator over the keys
+   */
+  public keys(): IterableIterator<K> {
+    return this.source.keys();
+  }
+
+  /**
+   * Iterate over the values of the map
+   *
+   * @typeParam V - the type of element used as the value in the map
+   * @returns an iterator over the values
+   */
+  public values(): IterableIterator<V> {
+    return this.source.values();
+  }
+
+  /**
+   * Invoke a function for each entry of the map
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param body - the function to invoke
+   * @param thisArg - optional value to use as `this` when invoking the function
+   */
+  public forEach(body: (value: V, key: K, map: Map<K, V>) => void, thisArg?: any) {
+    for (const [key, value] of this.source) {
+      body.call(thisArg, value, key, this);
+    }
+  }
+
+  /**
+   * Convert the map into its JSON equivalent, tagged so that
+   * `CollectionJson.reviver` can rebuild it as a read-only map
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @returns the JSON equivalent
+   */
+  public toJSON(): MapPlusJson {
+    return { $type: 'ReadonlyMapPlus', entries: Array.from(this) };
+  }
+}
@@ -0,0 +1,58 @@
+import { ReadonlySetPlus } from './ReadonlySetPlus';
+
+describe('ReadonlySetPlus Tests', function () {
+  it('can be created with elements', function () {
+    const set = new ReadonlySetPlus(['red', 'green']);
+
+    expect(set.size).toEqual(2);
+    expect(set.has('red')).toEqual(true);
+  });
+
+  it('should show changes made to the underlying set', function () {
+    const source = new Set(['red', 'green']);
+    const set = new ReadonlySetPlus(source);
+
+    source.add('blue');
+    source.delete('red');
+    expect(set.size).toEqual(2);
+    expect(set.has('red')).toEqual(false);
+    expect(set.has('blue')).toEqual(true);
+    expect(Array.from(set)).toEqual(['green', 'blue']);
+    expect(set.equals(['green', 'blue'])).toEqual(true);
+    expect(set.isSubsetOf(['green', 'blue', 'pink'])).toEqual(true);
+
+    source.clear();
+    expect(set.empty()).toEqual(true);
+  });
+
+  it('should copy elements that are not a set', function () {
+    const elements = ['red', 'green'];
+    const set = new ReadonlySetPlus(elements);
+
+    elements.push('blue');
+    expect(set.size).toEqual(2);
+    expect(new ReadonlySetPlus().empty()).toEqual(true);
+  });
+
+  it('should throw when modified', function () {
+    const set = new ReadonlySetPlus(['red', 'green']);
+
+    expect(() => set.add('blue')).toThrow();
+    expect(() => set.delete('red')).toThrow();
+    expect(() => set.clear()).toThrow();
+    expect(() => set.unionInPlace(['blue'])).toThrow();
+    expect(() => set.intersectionInPlace(['red'])).toThrow();
+    expect(() => set.differenceInPlace(['red'])).toThrow();
+    expect(() => set.xorInPlace(['blue'])).toThrow('Cannot modify a read-only set');
+    expect(set.equals(['red', 'green'])).toEqual(true);
+  });
+
+  it('should return mutable sets from the set operations', function () {
+    const set = new ReadonlySetPlus(['red', 'green']);
+    const union = set.union(['blue']);
+
+    expect(union).not.toBeInstanceOf(ReadonlySetPlus);
+    union.add('pink');
+    expect(union.equals(['red', 'green', 'blue', 'pink'])).toEqual(true);
+  });
+});
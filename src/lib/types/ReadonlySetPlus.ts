@@ -0,0 +1,144 @@
+import type { SequenceJson } from './CollectionJson';
+import { SetPlus } from './SetPlus';
+
+/**
+ * A read-only view of a set. Reads are delegated to the underlying set so any
+ * changes made to it show through the view, while any attempt to modify the
+ * view, either directly or through a helper such as `unionInPlace`, throws an
+ * error. The set operations that return new sets, such as `union` or
+ * `intersection`, continue to work and return ordinary mutable sets.
+ *
+ * Passing a set gives a view of that set, which lets a module share a lookup
+ * table without others being able to change it. Passing any other iterable
+ * gives a view of a private copy, so its elements are fixed.
+ *
+ * @typeParam T - the type of element stored in the set
+ */
+export class ReadonlySetPlus<T> extends SetPlus<T> {
+  // The set whose elements are being viewed
+  protected readonly source: ReadonlySet<T>;
+
+  /**
+   * Constructor
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param source - the set to view or the elements of the set
+   */
+  public constructor(source?: ReadonlySet<T> | Iterable<T>) {
+    super();
+    this.source = source instanceof Set ? source : new Set(source ?? []);
+  }
+
+  /**
+   * Get the number of elements in the underlying set
+   *
+   * @returns the number of elements
+   */
+  public get size(): number {
+    return this.source.size;
+  }
+
+  /**
+   * Determine if the set contains an element
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param element - the element to check
+   * @returns true if the element is present
+   */
+  public has(element: T): boolean {
+    return this.source.has(element);
+  }
+
+  /**
+   * Not supported since the set is read-only
+   *
+   * @throws Error always
+   */
+  public add(_element: T): this {
+    throw new Error('Cannot modify a read-only set');
+  }
+
+  /**
+   * Not supported since the set is read-only
+   *
+   * @throws Error always
+   */
+  public delete(_element: T): boolean {
+    throw new Error('Cannot modify a read-only set');
+  }
+
+  /**
+   * Not supported since the set is read-only
+   *
+   * @throws Error always
+   */
+  public clear() {
+    throw new Error('Cannot modify a read-only set');
+  }
+
+  /**
+   * Iterate over the elements of the set
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns an iterator over the elements
+   */
+  public [Symbol.iterator](): IterableIterator<T> {
+    return this.source.values();
+  }
+
+  /**
+   * Iterate over the elements of the set
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns an iterator over the elements
+   */
+  public values(): IterableIterator<T> {
+    return this.source.values();
+  }
+
+  /**
+   * Iterate over the elements of the set. This is the same as `values()` and
+   * exists for compatibility with `Map`.
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns an iterator over the elements
+   */
+  public keys(): IterableIterator<T> {
+    return this.source.values();
+  }
+
+  /**
+   * Iterate over the elements of the set as `[element, element]` pairs for
+   * compatibility with `Map`
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns an iterator over the pairs
+   */
+  public entries(): IterableIterator<[T, T]> {
+    return this.source.entries();
+  }
+
+  /**
+   * Invoke a function for each element of the set
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param body - the function to invoke
+   * @param thisArg - optional value to use as `this` when invoking the function
+   */
+  public forEach(body: (value: T, value2: T, set: Set<T>) => void, thisArg?: any) {
+    for (const element of this.source) {
+      body.call(thisArg, element, element, this);
+    }
+  }
+
+  /**
+   * Convert the set into its JSON equivalent, tagged so that
+   * `CollectionJson.reviver` can rebuild it as a read-only set
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns the JSON equivalent
+   */
+  public toJSON(): SequenceJson {
+    return { $type: 'ReadonlySetPlus', items: this.toArray() };
+  }
+}
@@ -0,0 +1,129 @@
+import { CollectionJson } from './CollectionJson';
+import { Deque } from './Deque';
+import { RingBuffer } from './RingBuffer';
+
+describe('RingBuffer Tests', function () {
+  function validateItems<T>(buffer: RingBuffer<T>, expected: T[]) {
+    expect(buffer.toArray()).toEqual(expected);
+    expect(Array.from(buffer.riterator())).toEqual([...expected].reverse());
+    expect(buffer.length()).toEqual(expected.length);
+    expect(buffer.empty()).toEqual(expected.length === 0);
+    expect(buffer.full()).toEqual(expected.length === buffer.capacity());
+    expect(buffer.first()).toEqual(expected[0]);
+    expect(buffer.last()).toEqual(expected[expected.length - 1]);
+  }
+
+  describe('constructor', function () {
+    it('can create an empty buffer', function () {
+      const buffer = new RingBuffer<number>({ capacity: 3 });
+      validateItems(buffer, []);
+      expect(buffer.capacity()).toEqual(3);
+      expect(buffer.overflow()).toEqual('overwrite');
+      expect(buffer.shift()).not.toBeDefined();
+      expect(buffer.pop()).not.toBeDefined();
+    });
+
+    it('can create a buffer from an iterable', function () {
+      validateItems(new RingBuffer({ capacity: 3 }, [1, 2]), [1, 2]);
+      validateItems(new RingBuffer({ capacity: 3 }, [1, 2, 3, 4, 5]), [3, 4, 5]);
+    });
+
+    it('should reject an invalid capacity', function () {
+      expect(() => new RingBuffer({ capacity: 0 })).toThrow('Invalid capacity for ring buffer: 0');
+      expect(() => new RingBuffer({ capacity: 1.5 })).toThrow();
+    });
+  });
+
+  describe('deque operations', function () {
+    it('can add and remove at both ends', function () {
+      const buffer = new RingBuffer<number>({ capacity: 4 });
+      buffer.push(3, 4).unshift(1, 2);
+      validateItems(buffer, [1, 2, 3, 4]);
+      expect(buffer.shift()).toEqual(1);
+      expect(buffer.pop()).toEqual(4);
+      validateItems(buffer, [2, 3]);
+
+      // Wrap around the end of the slots several times
+      for (let item = 4; item < 20; ++item) {
+        buffer.push(item);
+        buffer.shift();
+      }
+      validateItems(buffer, [18, 19]);
+      buffer.unshift(17).unshift(16);
+      validateItems(buffer, [16, 17, 18, 19]);
+    });
+
+    it('can be used as a deque', function () {
+      const deque: Deque<string> = new RingBuffer<string>({ capacity: 2 });
+      deque.push('a').unshift('b');
+      expect(Array.from(deque)).toEqual(['b', 'a']);
+    });
+
+    it('can get items by position', function () {
+      const buffer = new RingBuffer({ capacity: 4 }, [1, 2, 3, 4, 5, 6]);
+      expect(buffer.at(0)).toEqual(3);
+      expect(buffer.at(3)).toEqual(6);
+      expect(buffer.at(-1)).toEqual(6);
+      expect(buffer.at(-4)).toEqual(3);
+      expect(buffer.at(4)).not.toBeDefined();
+      expect(buffer.at(-5)).not.toBeDefined();
+    });
+
+    it('can be cleared', function () {
+      const buffer = new RingBuffer({ capacity: 3 }, [1, 2, 3]);
+      expect(buffer.clear()).toBe(buffer);
+      validateItems(buffer, []);
+      validateItems(buffer.push(4), [4]);
+    });
+  });
+
+  describe('overflow', function () {
+    it('can overwrite the item at the opposite end', function () {
+      const buffer = new RingBuffer({ capacity: 3 }, [1, 2, 3]);
+      validateItems(buffer.push(4), [2, 3, 4]);
+      validateItems(buffer.unshift(1), [1, 2, 3]);
+      validateItems(buffer.push(4, 5, 6, 7), [5, 6, 7]);
+    });
+
+    it('can reject new items', function () {
+      const buffer = new RingBuffer({ capacity: 3, overflow: 'reject' }, [1, 2, 3, 4]);
+      validateItems(buffer, [1, 2, 3]);
+      validateItems(buffer.push(4).unshift(0), [1, 2, 3]);
+      buffer.shift();
+      validateItems(buffer.push(4, 5), [2, 3, 4]);
+    });
+
+    it('can throw when full', function () {
+      const buffer = new RingBuffer({ capacity: 3, overflow: 'throw' }, [1, 2]);
+      expect(() => buffer.push(3, 4)).toThrow('Ring buffer is full: capacity 3');
+      validateItems(buffer, [1, 2]);
+      buffer.unshift(0);
+      expect(() => buffer.unshift(-1)).toThrow('Ring buffer is full: capacity 3');
+      validateItems(buffer, [0, 1, 2]);
+    });
+  });
+
+  describe('conversion', function () {
+    it('can create a sequence', function () {
+      const buffer = new RingBuffer({ capacity: 3 }, [1, 2, 3, 4]);
+      expect(
+        buffer
+          .seq()
+          .map((item) => item * 2)
+          .toArray()
+      ).toEqual([4, 6, 8]);
+      expect(buffer.toString()).toEqual('2,3,4');
+    });
+
+    it('can round trip through JSON', function () {
+      const buffer = new RingBuffer({ capacity: 3, overflow: 'reject' }, ['a', 'b']);
+      expect(buffer.toJSON()).toEqual({ $type: 'RingBuffer', capacity: 3, overflow: 'reject', items: ['a', 'b'] });
+
+      const revived = JSON.parse(JSON.stringify({ buffer }), CollectionJson.reviver).buffer;
+      expect(revived).toBeInstanceOf(RingBuffer);
+      expect(revived.capacity()).toEqual(3);
+      expect(revived.overflow()).toEqual('reject');
+      validateItems(revived, ['a', 'b']);
+    });
+  });
+});
@@ -0,0 +1,363 @@
+import type { RingBufferJson } from './CollectionJson';
+import type { Deque } from './Deque';
+import { Seq } from './Seq';
+
+/**
+ * What a ring buffer does when an item is added while it is full:
+ *
+ * - `overwrite` discards the item at the opposite end to make room, so pushing
+ *   discards the first item and unshifting discards the last
+ * - `reject` discards the new item, leaving the buffer unchanged
+ * - `throw` throws an error, leaving the buffer unchanged
+ */
+export type RingBufferOverflow = 'overwrite' | 'reject' | 'throw';
+
+/**
+ * The options used to configure a ring buffer
+ */
+export interface RingBufferOptions {
+  // The maximum number of items the buffer can hold
+  capacity: number;
+
+  // What to do when an item is added while the buffer is full, defaulting to
+  // overwrite
+  overflow?: RingBufferOverflow;
+}
+
+// The default options for a ring buffer
+const DEFAULT_OPTIONS: Readonly<Required<Omit<RingBufferOptions, 'capacity'>>> = {
+  overflow: 'overwrite',
+};
+
+/**
+ * A deque with a fixed capacity, backed by an array that is allocated once
+ * when the buffer is created. Items are added and removed at either end in
+ * O(1) and can be accessed by position in O(1) without allocating anything, so
+ * the buffer suits keeping the last N of something, such as log lines, metric
+ * samples or retry attempts.
+ *
+ * ```ts
+ * const recent = new RingBuffer<string>({ capacity: 100 });
+ * recent.push(line);
+ * ```
+ *
+ * @typeParam T - the type of items in the buffer
+ */
+export class RingBuffer<T> implements Deque<T> {
+  // The slots holding the items, with unused slots left undefined so that
+  // removed items can be garbage collected
+  protected readonly slots: (T | undefined)[];
+
+  // The slot holding the first item
+  protected start = 0;
+
+  // The number of items in the buffer
+  protected count = 0;
+
+  // The options for the buffer
+  protected readonly options: Readonly<Required<RingBufferOptions>>;
+
+  /**
+   * Constructor
+   *
+   * @typeParam T - the type of items in the buffer
+   * @param options - the options for the buffer
+   * @param items - optional items to add to the buffer, subject to its
+   * overflow policy
+   * @throws Error if the capacity is not a positive integer or the items
+   * overflow a buffer whose policy is to throw
+   */
+  public constructor(options: RingBufferOptions, items?: Iterable<T>) {
+    if (!Number.isInteger(options.capacity) || options.capacity < 1) {
+      throw new Error(`Invalid capacity for ring buffer: ${options.capacity}`);
+    }
+
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.slots = new Array(options.capacity).fill(undefined);
+    if (items !== undefined) {
+      for (const item of items) {
+        this.push(item);
+      }
+    }
+  }
+
+  /**
+   * Get the number of items in the buffer
+   *
+   * @returns the number of items in the buffer
+   */
+  public length(): number {
+    return this.count;
+  }
+
+  /**
+   * Get the maximum number of items the buffer can hold
+   *
+   * @returns the capacity of the buffer
+   */
+  public capacity(): number {
+    return this.options.capacity;
+  }
+
+  /**
+   * Get what the buffer does when an item is added while it is full
+   *
+   * @returns the overflow policy
+   */
+  public overflow(): RingBufferOverflow {
+    return this.options.overflow;
+  }
+
+  /**
+   * Called to see if the buffer is empty
+   *
+   * @returns true if the buffer is empty
+   */
+  public empty(): boolean {
+    return this.count === 0;
+  }
+
+  /**
+   * Called to see if the buffer is full
+   *
+   * @returns true if the buffer is full
+   */
+  public full(): boolean {
+    return this.count === this.options.capacity;
+  }
+
+  /**
+   * Add one or more items to the end of the buffer. If the buffer becomes full,
+   * the remaining items are handled according to its overflow policy.
+   *
+   * @param item - the first item to be added
+   * @param others - the other items to add
+   * @returns this instance to allow for chaining
+   * @throws Error if the items do not fit and the overflow policy is to throw,
+   * in which case none of them are added
+   */
+  public push(item: T, ...others: T[]): this {
+    this.assertRoom(1 + others.length);
+    this.pushOne(item);
+    others.forEach((other) => this.pushOne(other));
+    return this;
+  }
+
+  /**
+   * Add one or more items to the start of the buffer, in the same order as
+   * `LinkedList.unshift`. If the buffer becomes full, the remaining items are
+   * handled according to its overflow policy.
+   *
+   * @param item - the first item to be added
+   * @param others - the other items to add
+   * @returns this instance to allow for chaining
+   * @throws Error if the items do not fit and the overflow policy is to throw,
+   * in which case none of them are added
+   */
+  public unshift(item: T, ...others: T[]): this {
+    this.assertRoom(1 + others.length);
+    for (let index = others.length - 1; index >= 0; --index) {
+      this.unshiftOne(others[index]);
+    }
+    this.unshiftOne(item);
+    return this;
+  }
+
+  /**
+   * Remove the first item in the buffer
+   *
+   * @returns the item removed or undefined if the buffer is empty
+   */
+  public shift(): T | undefined {
+    if (this.count === 0) {
+      return undefined;
+    }
+
+    const item = this.slots[this.start];
+    this.slots[this.start] = undefined;
+    this.start = this.slotOf(1);
+    --this.count;
+    return item;
+  }
+
+  /**
+   * Remove the last item in the buffer
+   *
+   * @returns the item removed or undefined if the buffer is empty
+   */
+  public pop(): T | undefined {
+    if (this.count === 0) {
+      return undefined;
+    }
+
+    const slot = this.slotOf(this.count - 1);
+    const item = this.slots[slot];
+    this.slots[slot] = undefined;
+    --this.count;
+    return item;
+  }
+
+  /**
+   * Return the first item in the buffer without removing it
+   *
+   * @returns the first item or undefined if the buffer is empty
+   */
+  public first(): T | undefined {
+    return this.at(0);
+  }
+
+  /**
+   * Return the last item in the buffer without removing it
+   *
+   * @returns the last item or undefined if the buffer is empty
+   */
+  public last(): T | undefined {
+    return this.at(-1);
+  }
+
+  /**
+   * Get the item at a position in the buffer. A negative position counts back
+   * from the end of the buffer.
+   *
+   * @param index - the position of the item
+   * @returns the item or undefined if the position is outside the buffer
+   */
+  public at(index: number): T | undefined {
+    const integer = Math.trunc(index) || 0;
+    const position = integer < 0 ? this.count + integer : integer;
+    return position < 0 || position >= this.count ? undefined : this.slots[this.slotOf(position)];
+  }
+
+  /**
+   * Remove all items from the buffer
+   *
+   * @returns this instance to allow for chaining
+   */
+  public clear(): this {
+    this.slots.fill(undefined);
+    this.start = 0;
+    this.count = 0;
+    return this;
+  }
+
+  /**
+   * Return an iterator over the items from the first to the last
+   *
+   * @returns the iterator
+   */
+  public *[Symbol.iterator](): IterableIterator<T> {
+    for (let position = 0; position < this.count; ++position) {
+      yield this.slots[this.slotOf(position)] as T;
+    }
+  }
+
+  /**
+   * Return an iterator over the items from the last to the first
+   *
+   * @returns the iterator
+   */
+  public *riterator(): IterableIterator<T> {
+    for (let position = this.count - 1; position >= 0; --position) {
+      yield this.slots[this.slotOf(position)] as T;
+    }
+  }
+
+  /**
+   * Get a lazy sequence over the items of the buffer
+   *
+   * @returns the sequence
+   */
+  public seq(): Seq<T> {
+    return new Seq(this);
+  }
+
+  /**
+   * Convert the buffer into its array equivalent
+   *
+   * @returns the buffer as an array
+   */
+  public toArray(): T[] {
+    return Array.from(this);
+  }
+
+  /**
+   * Convert the buffer into its string representation
+   *
+   * @returns the string representation of the buffer
+   */
+  public toString(): string {
+    return this.toArray().toString();
+  }
+
+  /**
+   * Convert the buffer into its JSON equivalent, tagged so that
+   * `CollectionJson.reviver` can rebuild the buffer with the same options
+   *
+   * @returns the JSON equivalent
+   */
+  public toJSON(): RingBufferJson {
+    return { $type: 'RingBuffer', ...this.options, items: this.toArray() };
+  }
+
+  /**
+   * Add an item to the end of the buffer, applying the overflow policy if it
+   * is full
+   *
+   * @param item - the item to be added
+   */
+  protected pushOne(item: T) {
+    if (this.full()) {
+      if (this.options.overflow === 'reject') {
+        return;
+      }
+      this.shift();
+    }
+
+    this.slots[this.slotOf(this.count)] = item;
+    ++this.count;
+  }
+
+  /**
+   * Add an item to the start of the buffer, applying the overflow policy if it
+   * is full
+   *
+   * @param item - the item to be added
+   */
+  protected unshiftOne(item: T) {
+    if (this.full()) {
+      if (this.options.overflow === 'reject') {
+        return;
+      }
+      this.pop();
+    }
+
+    this.start = this.slotOf(-1);
+    this.slots[this.start] = item;
+    ++this.count;
+  }
+
+  /**
+   * Make sure there is room for a number of items if the overflow policy is to
+   * throw
+   *
+   * @param required - the number of items to be added
+   * @throws Error if the items do not fit and the overflow policy is to throw
+   */
+  protected assertRoom(required: number) {
+    if (this.options.overflow === 'throw' && this.count + required > this.options.capacity) {
+      throw new Error(`Ring buffer is full: capacity ${this.options.capacity}`);
+    }
+  }
+
+  /**
+   * Get the slot for a position relative to the first item
+   *
+   * @param position - the position, which may be -1 for the slot before the
+   * first item
+   * @returns the slot for the position
+   */
+  protected slotOf(position: number): number {
+    const { capacity } = this.options;
+    return (((this.start + position) % capacity) + capacity) % capacity;
+  }
+}
@@ -0,0 +1,153 @@
+import { LinkedList } from './LinkedList';
+import { LruCache } from './LruCache';
+import { MapPlus } from './MapPlus';
+import { PersistentMap } from './PersistentMap';
+import { PersistentSet } from './PersistentSet';
+import { PriorityQueue } from './PriorityQueue';
+import { Seq } from './Seq';
+import { SetPlus } from './SetPlus';
+
+describe('Seq Tests', function () {
+  function* naturals(): Generator<number> {
+    for (let value = 0; ; ++value) {
+      yield value;
+    }
+  }
+
+  describe('operations', function () {
+    it('can map and filter', function () {
+      const seq = new Seq([1, 2, 3, 4, 5]).filter((value) => value % 2).map((value) => `#${value}`);
+      expect(seq.toArray()).toEqual(['#1', '#3', '#5']);
+    });
+
+    it('can flatMap', function () {
+      const seq = new Seq(['ab', 'cde']).flatMap((word) => word);
+      expect(seq.toArray()).toEqual(['a', 'b', 'c', 'd', 'e']);
+    });
+
+    it('can take and drop', function () {
+      expect(new Seq(naturals()).drop(2).take(3).toArray()).toEqual([2, 3, 4]);
+      expect(new Seq([1, 2]).take(5).toArray()).toEqual([1, 2]);
+      expect(new Seq([1, 2]).take(0).toArray()).toEqual([]);
+      expect(new Seq([1, 2]).drop(5).toArray()).toEqual([]);
+    });
+
+    it('should not pull more items than taken', function () {
+      const seen: number[] = [];
+      const seq = new Seq(naturals())
+        .map((value) => {
+          seen.push(value);
+          return value;
+        })
+        .take(2);
+      expect(seq.toArray()).toEqual([0, 1]);
+      expect(seen).toEqual([0, 1]);
+    });
+
+    it('can takeWhile', function () {
+      expect(new Seq(naturals()).takeWhile((value) => value < 4).toArray()).toEqual([0, 1, 2, 3]);
+      expect(new Seq([5, 1]).takeWhile((value) => value < 4).toArray()).toEqual([]);
+    });
+
+    it('can chunk', function () {
+      expect(new Seq([1, 2, 3, 4, 5]).chunk(2).toArray()).toEqual([[1, 2], [3, 4], [5]]);
+      expect(new Seq([1, 2, 3, 4]).chunk(2).toArray()).toEqual([
+        [1, 2],
+        [3, 4],
+      ]);
+      expect(new Seq([]).chunk(2).toArray()).toEqual([]);
+      expect(() => new Seq([1]).chunk(0)).toThrow();
+    });
+
+    it('can zip', function () {
+      expect(new Seq(['a', 'b', 'c']).zip(naturals()).toArray()).toEqual([
+        ['a', 0],
+        ['b', 1],
+        ['c', 2],
+      ]);
+      expect(new Seq(naturals()).zip(['a']).toArray()).toEqual([[0, 'a']]);
+    });
+
+    it('can enumerate', function () {
+      expect(new Seq(['a', 'b']).enumerate().toArray()).toEqual([
+        [0, 'a'],
+        [1, 'b'],
+      ]);
+    });
+
+    it('can remove duplicates', function () {
+      expect(new Seq([1, 2, 1, 3, 2]).distinct().toArray()).toEqual([1, 2, 3]);
+      expect(new Seq(['apple', 'avocado', 'banana']).distinct((word) => word[0]).toArray()).toEqual([
+        'apple',
+        'banana',
+      ]);
+    });
+
+    it('can reduce', function () {
+      expect(new Seq([1, 2, 3]).reduce((sum, value) => sum + value)).toEqual(6);
+      expect(new Seq([1, 2, 3]).reduce((text, value) => text + value, '')).toEqual('123');
+      expect(new Seq<number>([]).reduce((sum, value) => sum + value, 0)).toEqual(0);
+      expect(() => new Seq<number>([]).reduce((sum, value) => sum + value)).toThrow(
+        'Cannot reduce an empty sequence without an initial value'
+      );
+    });
+
+    it('can be iterated many times', function () {
+      const seq = new Seq([1, 2, 3]).map((value) => value * 2);
+      expect(seq.toArray()).toEqual([2, 4, 6]);
+      expect(Array.from(seq)).toEqual([2, 4, 6]);
+    });
+  });
+
+  describe('terminals', function () {
+    it('can create a set', function () {
+      const set = new Seq([1, 2, 2, 3]).toSetPlus();
+      expect(set).toBeInstanceOf(SetPlus);
+      expect(set.toArray()).toEqual([1, 2, 3]);
+    });
+
+    it('can create a map', function () {
+      const map = new Seq(['a', 'b']).enumerate().toMapPlus();
+      expect(map).toBeInstanceOf(MapPlus);
+      expect(map.get(1)).toEqual('b');
+    });
+
+    it('can create a linked list', function () {
+      const list = new Seq([1, 2, 3]).toLinkedList();
+      expect(list).toBeInstanceOf(LinkedList);
+      expect(list.toArray()).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('seq', function () {
+    it('can be created from each collection', function () {
+      const map = new MapPlus([
+        ['a', 1],
+        ['b', 2],
+      ]);
+      expect(
+        map
+          .seq()
+          .map(([key, value]) => key + value)
+          .toArray()
+      ).toEqual(['a1', 'b2']);
+      expect(new SetPlus([1, 2]).seq().toArray()).toEqual([1, 2]);
+      expect(new LinkedList(1, 2).seq().toArray()).toEqual([1, 2]);
+      expect(new PriorityQueue<number>(undefined, [3, 1, 2]).seq().toArray()).toEqual([1, 2, 3]);
+      expect(PersistentSet.from([1]).seq().toArray()).toEqual([1]);
+      expect(
+        PersistentMap.from([['a', 1]])
+          .seq()
+          .toArray()
+      ).toEqual([['a', 1]]);
+      expect(new LruCache<string, number>({ maxEntries: 2 }).set('a', 1).seq().toArray()).toEqual([['a', 1]]);
+    });
+
+    it('should reflect changes made to the collection', function () {
+      const set = new SetPlus([1]);
+      const seq = set.seq().map((value) => value * 10);
+      set.add(2);
+      expect(seq.toArray()).toEqual([10, 20]);
+    });
+  });
+});
@@ -0,0 +1,346 @@
+import { LinkedList } from './LinkedList';
+import { MapPlus } from './MapPlus';
+import { SetPlus } from './SetPlus';
+
+/**
+ * A lazy sequence over an iterable. Each operation returns a new sequence that
+ * does no work until it is iterated, at which point items are pulled through
+ * the whole chain of operations one at a time without building any
+ * intermediate collections. A sequence can be iterated many times provided
+ * that its source can be.
+ *
+ * ```ts
+ * const emails = users
+ *   .seq()
+ *   .filter(([, user]) => user.active)
+ *   .map(([, user]) => user.email)
+ *   .take(10)
+ *   .toSetPlus();
+ * ```
+ *
+ * @typeParam T - the type of items in the sequence
+ */
+export class Seq<T> implements Iterable<T> {
+  /**
+   * Constructor
+   *
+   * @typeParam T - the type of items in the sequence
+   * @param source - the iterable providing the items
+   */
+  public constructor(protected readonly source: Iterable<T>) {}
+
+  /**
+   * Return an iterator over the items of the sequence
+   *
+   * @returns the iterator
+   */
+  [Symbol.iterator](): Iterator<T> {
+    return this.source[Symbol.iterator]();
+  }
+
+  /**
+   * Transform each item of the sequence
+   *
+   * @typeParam T - the type of items in the sequence
+   * @typeParam Result - the type of items in the resulting sequence
+   * @param body - the function transforming each item
+   * @returns the sequence of transformed items
+   */
+  public map<Result>(body: (item: T) => Result): Seq<Result> {
+    const source = this.source;
+    return Seq.generate(function* () {
+      for (const item of source) {
+        yield body(item);
+      }
+    });
+  }
+
+  /**
+   * Keep only the items of the sequence that pass a filter
+   *
+   * @typeParam T - the type of items in the sequence
+   * @param filter - a function returning a truthy value for any item that
+   * passes the filter
+   * @returns the sequence of items passing the filter
+   */
+  public filter(filter: (item: T) => any): Seq<T> {
+    const source = this.source;
+    return Seq.generate(function* () {
+      for (const item of source) {
+        if (filter(item)) {
+          yield item;
+        }
+      }
+    });
+  }
+
+  /**
+   * Transform each item of the sequence into any number of items
+   *
+   * @typeParam T - the type of items in the sequence
+   * @typeParam Result - the type of items in the resulting sequence
+   * @param body - the function transforming each item into an iterable
+   * @returns the sequence of items from each of the iterables in turn
+   */
+  public flatMap<Result>(body: (item: T) => Iterable<Result>): Seq<Result> {
+    const source = this.source;
+    return Seq.generate(function* () {
+      for (const item of source) {
+        yield* body(item);
+      }
+    });
+  }
+
+  /**
+   * Keep only the first few items of the sequence. The source is not iterated
+   * any further than required, so this can be used on infinite sequences.
+   *
+   * @typeParam T - the type of items in the sequence
+   * @param count - the maximum number of items to keep
+   * @returns the sequence of the first items
+   */
+  public take(count: number): Seq<T> {
+    const source = this.source;
+    return Seq.generate(function* () {
+      if (count < 1) {
+        return;
+      }
+
+      let taken = 0;
+      for (const item of source) {
+        yield item;
+        if (++taken >= count) {
+          return;
+        }
+      }
+    });
+  }
+
+  /**
+   * Skip the first few items of the sequence
+   *
+   * @typeParam T - the type of items in the sequence
+   * @param count - the number of items to skip
+   * @returns the sequence of the remaining items
+   */
+  public drop(count: number): Seq<T> {
+    const source = this.source;
+    return Seq.generate(function* () {
+      let skipped = 0;
+      for (const item of source) {
+        if (skipped < count) {
+          ++skipped;
+        } else {
+          yield item;
+        }
+      }
+    });
+  }
+
+  /**
+   * Keep the items at the start of the sequence for as long as they pass a
+   * filter
+   *
+   * @typeParam T - the type of items in the sequence
+   * @param filter - a function returning a truthy value for any item that
+   * passes the filter
+   * @returns the sequence of items up to but excluding the first that fails
+   */
+  public takeWhile(filter: (item: T) => any): Seq<T> {
+    const source = this.source;
+    return Seq.generate(function* () {
+      for (const item of source) {
+        if (!filter(item)) {
+          return;
+        }
+        yield item;
+      }
+    });
+  }
+
+  /**
+   * Group the items of the sequence into arrays of a given size. The last
+   * chunk holds whatever items remain and so may be smaller.
+   *
+   * @typeParam T - the type of items in the sequence
+   * @param size - the number of items in each chunk
+   * @returns the sequence of chunks
+   * @throws Error if the size is less than one
+   */
+  public chunk(size: number): Seq<T[]> {
+    if (size < 1) {
+      throw new Error(`Chunk size must be at least 1: ${size}`);
+    }
+
+    const source = this.source;
+    return Seq.generate(function* () {
+      let chunk: T[] = [];
+      for (const item of source) {
+        chunk.push(item);
+        if (chunk.length >= size) {
+          yield chunk;
+          chunk = [];
+        }
+      }
+      if (chunk.length > 0) {
+        yield chunk;
+      }
+    });
+  }
+
+  /**
+   * Pair each item of the sequence with the item at the same position in
+   * another iterable. The resulting sequence ends when either runs out.
+   *
+   * @typeParam T - the type of items in the sequence
+   * @typeParam Other - the type of items in the other iterable
+   * @param other - the other iterable
+   * @returns the sequence of pairs
+   */
+  public zip<Other>(other: Iterable<Other>): Seq<[T, Other]> {
+    const source = this.source;
+    return Seq.generate(function* () {
+      const iterator = other[Symbol.iterator]();
+      try {
+        for (const item of source) {
+          const next = iterator.next();
+          if (next.done) {
+            return;
+          }
+          yield [item, next.value] as [T, Other];
+        }
+      } finally {
+        iterator.return?.();
+      }
+    });
+  }
+
+  /**
+   * Pair each item of the sequence with its position, starting from zero
+   *
+   * @typeParam T - the type of items in the sequence
+   * @returns the sequence of positions and items
+   */
+  public enumerate(): Seq<[number, T]> {
+    const source = this.source;
+    return Seq.generate(function* () {
+      let position = 0;
+      for (const item of source) {
+        yield [position++, item] as [number, T];
+      }
+    });
+  }
+
+  /**
+   * Remove duplicate items from the sequence, keeping the first of each. Items
+   * are compared by identity unless a function is given to compute the key to
+   * compare them by.
+   *
+   * @typeParam T - the type of items in the sequence
+   * @param keyOf - optional function computing the key of each item
+   * @returns the sequence of unique items
+   */
+  public distinct(keyOf: (item: T) => unknown = (item) => item): Seq<T> {
+    const source = this.source;
+    return Seq.generate(function* () {
+      const seen = new Set<unknown>();
+      for (const item of source) {
+        const key = keyOf(item);
+        if (!seen.has(key)) {
+          seen.add(key);
+          yield item;
+        }
+      }
+    });
+  }
+
+  /**
+   * Combine the items of the sequence into a single value. Without an initial
+   * value, the first item is used as the initial value.
+   *
+   * @typeParam T - the type of items in the sequence
+   * @typeParam Result - the type of the combined value
+   * @param body - the function combining the value so far with the next item
+   * @param initial - the initial value
+   * @returns the combined value
+   * @throws Error if the sequence is empty and there is no initial value
+   */
+  public reduce(body: (result: T, item: T) => T): T;
+  public reduce<Result>(body: (result: Result, item: T) => Result, initial: Result): Result;
+  public reduce<Result>(body: (result: Result, item: T) => Result, ...initial: [Result?]): Result {
+    const iterator = this.source[Symbol.iterator]();
+    let result: Result;
+    if (initial.length > 0) {
+      result = initial[0] as Result;
+    } else {
+      const first = iterator.next();
+      if (first.done) {
+        iterator.return?.();
+        throw new Error('Cannot reduce an empty sequence without an initial value');
+      }
+      result = first.value as unknown as Result;
+    }
+
+    for (let next = iterator.next(); !next.done; next = iterator.next()) {
+      result = body(result, next.value);
+    }
+    return result;
+  }
+
+  /**
+   * Create an array containing the items of the sequence
+   *
+   * @typeParam T - the type of items in the sequence
+   * @returns the items as an array
+   */
+  public toArray(): T[] {
+    return Array.from(this.source);
+  }
+
+  /**
+   * Create a set containing the items of the sequence
+   *
+   * @typeParam T - the type of items in the sequence
+   * @returns the items as a set
+   */
+  public toSetPlus(): SetPlus<T> {
+    return new SetPlus(this.source);
+  }
+
+  /**
+   * Create a map from a sequence of key/value pairs
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @returns the pairs as a map
+   */
+  public toMapPlus<K, V>(this: Seq<readonly [K, V]>): MapPlus<K, V> {
+    return new MapPlus(this.source);
+  }
+
+  /**
+   * Create a linked list containing the items of the sequence
+   *
+   * @typeParam T - the type of items in the sequence
+   * @returns the items as a linked list
+   */
+  public toLinkedList(): LinkedList<T> {
+    const list = new LinkedList<T>();
+    for (const item of this.source) {
+      list.push(item);
+    }
+    return list;
+  }
+
+  /**
+   * Create a sequence whose items are provided by a generator function. The
+   * function is called each time the sequence is iterated.
+   *
+   * @typeParam T - the type of items in the sequence
+   * @param generator - the generator function
+   * @returns the sequence
+   */
+  protected static generate<T>(generator: () => Iterator<T>): Seq<T> {
+    return new Seq({ [Symbol.iterator]: generator });
+  }
+}
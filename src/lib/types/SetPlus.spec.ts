@@ -313,6 +313,142 @@ describe('SetPlus Tests', function () {
     });
   });
 
+  describe('intersectionInPlace', function () {
+    it('can keep only the common elements', function () {
+      const result = new SetPlus(set5);
+      result.intersectionInPlace(set4, elements2);
+      validateElements(result, elements2);
+    });
+
+    it('can handle sets with no intersection', function () {
+      const result = new SetPlus(set3);
+      expect(result.intersectionInPlace(set1)).toBe(result);
+      validateElements(result, []);
+    });
+  });
+
+  describe('differenceInPlace', function () {
+    it('can remove the elements of other collections', function () {
+      const result = new SetPlus(set5);
+      result.differenceInPlace(set1, elements3);
+      validateElements(result, ['white', 'yellow', 'purple']);
+    });
+
+    it('can handle difference with itself', function () {
+      const result = new SetPlus(set3);
+      result.differenceInPlace(result);
+      validateElements(result, []);
+    });
+  });
+
+  describe('xorInPlace', function () {
+    it('should match xor', function () {
+      const result = new SetPlus(set2);
+      result.xorInPlace(set4, elements5);
+      validateElements(result, set2.xor(set4, elements5).toArray());
+    });
+
+    it('can accept iterators', function () {
+      const result = new SetPlus(set2);
+      result.xorInPlace(set3.values());
+      validateElements(result, [...elements2, ...elements3]);
+    });
+
+    it('can deliver the changes as a single change set', function () {
+      const result = new SetPlus(set2);
+      const listener = jest.fn();
+      result.subscribe(listener).xorInPlace(['white', 'red']);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith([
+        { type: 'add', element: 'red' },
+        { type: 'delete', element: 'white' },
+      ]);
+    });
+  });
+
+  describe('relations', function () {
+    it('can determine subsets', function () {
+      expect(set1.isSubsetOf(set2)).toEqual(true);
+      expect(set2.isSubsetOf(set2)).toEqual(true);
+      expect(set0.isSubsetOf(set3)).toEqual(true);
+      expect(set2.isSubsetOf(set1)).toEqual(false);
+      expect(set3.isSubsetOf(elements5)).toEqual(false);
+      expect(set2.isSubsetOf(elements4)).toEqual(true);
+    });
+
+    it('can determine proper subsets', function () {
+      expect(set1.isProperSubsetOf(set2)).toEqual(true);
+      expect(set2.isProperSubsetOf(set2)).toEqual(false);
+      expect(set2.isProperSubsetOf(['white', 'black', 'black'])).toEqual(false);
+    });
+
+    it('can determine supersets', function () {
+      expect(set4.isSupersetOf(set2)).toEqual(true);
+      expect(set4.isSupersetOf(set0)).toEqual(true);
+      expect(set2.isSupersetOf(elements4)).toEqual(false);
+    });
+
+    it('should stop at the first missing element', function () {
+      const visited: string[] = [];
+      function* required(): Generator<string> {
+        for (const element of elements3) {
+          visited.push(element);
+          yield element;
+        }
+      }
+      expect(set5.isSupersetOf(required())).toEqual(false);
+      expect(visited).toEqual(['red']);
+    });
+
+    it('can determine disjoint sets', function () {
+      expect(set1.isDisjointFrom(set3)).toEqual(true);
+      expect(set0.isDisjointFrom(set3)).toEqual(true);
+      expect(set3.isDisjointFrom(elements5)).toEqual(false);
+    });
+  });
+
+  describe('cartesianProduct', function () {
+    it('can pair every element', function () {
+      expect(set2.cartesianProduct([1, 2, 1]).toArray()).toEqual([
+        ['black', 1],
+        ['black', 2],
+        ['white', 1],
+        ['white', 2],
+      ]);
+      expect(set2.cartesianProduct([]).empty()).toEqual(true);
+    });
+  });
+
+  describe('powerSet', function () {
+    it('can generate every subset', function () {
+      const subsets = set3.powerSet().map((subset) => subset.toArray().sort().join(','));
+      expect(subsets.toArray().sort()).toEqual(
+        ['', 'red', 'green', 'blue', 'green,red', 'blue,red', 'blue,green', 'blue,green,red'].sort()
+      );
+      expect(set0.powerSet().toArray()).toEqual([new SetPlus()]);
+    });
+
+    it('should generate the subsets lazily', function () {
+      const subsets = set5.powerSet().take(2).toArray();
+      expect(subsets.map((subset) => subset.toArray())).toEqual([[], ['black']]);
+    });
+
+    it('should refuse sets that are too large', function () {
+      expect(() => set5.powerSet({ maxSize: 4 })).toThrow(
+        'Cannot create the power set of a set with more than 4 elements: 5'
+      );
+      expect(() => new SetPlus(Array.from({ length: 21 }, (_, index) => index)).powerSet()).toThrow();
+    });
+  });
+
+  describe('partition', function () {
+    it('can split the elements using a predicate', function () {
+      const [short, long] = set5.partition((element) => element.length < 6);
+      validateElements(short, ['black', 'white', 'blue']);
+      validateElements(long, ['yellow', 'purple']);
+    });
+  });
+
   describe('map', function () {
     const transform = (element: string): string => element.toUpperCase();
 
@@ -371,4 +507,58 @@ describe('SetPlus Tests', function () {
       }
     });
   });
+
+  describe('subscribe', function () {
+    it('can notify listeners of changes', function () {
+      const set = new SetPlus(elements2);
+      const listener = jest.fn();
+      set.subscribe(listener);
+
+      set.add('grey');
+      expect(listener).toHaveBeenLastCalledWith([{ type: 'add', element: 'grey' }]);
+      set.delete('black');
+      expect(listener).toHaveBeenLastCalledWith([{ type: 'delete', element: 'black' }]);
+      set.clear();
+      expect(listener).toHaveBeenLastCalledWith([{ type: 'clear' }]);
+      expect(listener).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not notify listeners when nothing changes', function () {
+      const set = new SetPlus(elements2);
+      const listener = jest.fn();
+      set.subscribe(listener);
+
+      set.add('black');
+      set.delete('pink');
+      set.unionInPlace(elements1);
+      set.unsubscribe(listener).add('pink');
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('can deliver a union as a single change set', function () {
+      const set = new SetPlus(elements2);
+      const listener = jest.fn();
+      set.subscribe(listener);
+
+      set.unionInPlace(elements3, elements4);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(
+        ['red', 'green', 'blue', 'grey', 'pink'].map((element) => ({ type: 'add', element }))
+      );
+    });
+  });
+
+  describe('fromAsync', function () {
+    it('can create a set from an async iterable', async function () {
+      async function* stream(): AsyncGenerator<string> {
+        for (const element of [...elements5, ...elements1]) {
+          yield element;
+        }
+      }
+
+      const set = await SetPlus.fromAsync(stream());
+      expect(set).toBeInstanceOf(SetPlus);
+      validateElements(set, elements5);
+    });
+  });
 });
@@ -1,3 +1,23 @@
+import type { AnyIterable } from './AsyncIteration';
+import { ChangeListener, ChangeNotifier, SetChange } from './ChangeNotifier';
+import type { SequenceJson } from './CollectionJson';
+import { Seq } from './Seq';
+
+/**
+ * The options for creating a power set
+ */
+export interface PowerSetOptions {
+  // The maximum number of elements the set may have. A set of n elements has
+  // 2^n subsets so this guards against accidentally enumerating far more
+  // subsets than intended.
+  maxSize?: number;
+}
+
+// The default options for creating a power set
+const DEFAULT_POWER_SET_OPTIONS: Readonly<Required<PowerSetOptions>> = {
+  maxSize: 20,
+};
+
 /**
  * An extension to the standard Set class that provides fundamental set
  * operations.
@@ -5,6 +25,108 @@
  * @typeParam T - the type of element stored in the set
  */
 export class SetPlus<T> extends Set<T> {
+  // Publishes the changes made to the set, created on first subscription
+  protected changes?: ChangeNotifier<SetChange<T>>;
+
+  /**
+   * Create a set from a collection of elements that may be asynchronous, such
+   * as a database cursor or stream
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param elements - the elements of the set
+   * @returns the set
+   */
+  public static async fromAsync<T>(elements: AnyIterable<T>): Promise<SetPlus<T>> {
+    const result = new SetPlus<T>();
+    for await (const element of elements) {
+      result.add(element);
+    }
+    return result;
+  }
+
+  /**
+   * Add a listener to be notified of changes made to the set. Each change made
+   * outside of a transaction is delivered on its own while those made within a
+   * transaction are delivered together once it completes.
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param listener - the listener to add
+   * @returns this instance for chaining
+   */
+  public subscribe(listener: ChangeListener<SetChange<T>>): this {
+    if (this.changes === undefined) {
+      this.changes = new ChangeNotifier();
+    }
+    this.changes.subscribe(listener);
+    return this;
+  }
+
+  /**
+   * Remove a previously added change listener
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param listener - the listener to remove
+   * @returns this instance for chaining
+   */
+  public unsubscribe(listener: ChangeListener<SetChange<T>>): this {
+    this.changes?.unsubscribe(listener);
+    return this;
+  }
+
+  /**
+   * Execute a synchronous function as a transaction so that the changes it
+   * makes to the set are delivered to the listeners as a single change set
+   *
+   * @typeParam Result - the type of value returned by the function
+   * @param body - the function to execute
+   * @returns the value returned by the function
+   */
+  public transaction<Result>(body: () => Result): Result {
+    return this.changes === undefined ? body() : this.changes.transaction(body);
+  }
+
+  /**
+   * Add an element to the set, notifying any listeners if it was not already
+   * present
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param element - the element to add
+   * @returns this instance for chaining
+   */
+  public add(element: T): this {
+    // Only describe the change if someone is listening
+    if (!this.changes?.active() || super.has(element)) {
+      return super.add(element);
+    }
+
+    super.add(element);
+    this.changes.notify({ type: 'add', element });
+    return this;
+  }
+
+  /**
+   * Remove an element from the set, notifying any listeners if it was present
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param element - the element to remove
+   * @returns true if the element was present
+   */
+  public delete(element: T): boolean {
+    const existed = super.delete(element);
+    existed && this.changes?.notify({ type: 'delete', element });
+    return existed;
+  }
+
+  /**
+   * Remove all elements from the set, notifying any listeners if it was not
+   * already empty
+   */
+  public clear() {
+    const existed = super.size > 0;
+    super.clear();
+    existed && this.changes?.notify({ type: 'clear' });
+  }
+
   /**
    * Determine if this is the empty set
    *
@@ -38,19 +160,22 @@ export class SetPlus<T> extends Set<T> {
 
   /**
    * Make this set the union of itself with a list of other collections.
-   * Formally, `this = this ∪ A ∪ B ∪ C`.
+   * Formally, `this = this ∪ A ∪ B ∪ C`. Listeners are given the elements
+   * added as a single change set.
    *
    * @typeParam T - the type of element stored in the set
    * @param collections - the other collections
    * @returns this instance for chaining
    */
   public unionInPlace(...collections: Iterable<T>[]): this {
-    for (const collection of collections) {
-      for (const element of collection) {
-        this.add(element);
+    return this.transaction(() => {
+      for (const collection of collections) {
+        for (const element of collection) {
+          this.add(element);
+        }
       }
-    }
-    return this;
+      return this;
+    });
   }
 
   /**
@@ -85,6 +210,27 @@ export class SetPlus<T> extends Set<T> {
     return result;
   }
 
+  /**
+   * Make this set the intersection of itself with a list of other collections.
+   * Formally, `this = this ∩ A ∩ B ∩ C`. Listeners are given the elements
+   * removed as a single change set.
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param collections - the other collections
+   * @returns this instance for chaining
+   */
+  public intersectionInPlace(...collections: Iterable<T>[]): this {
+    return this.transaction(() => {
+      for (const collection of collections) {
+        const otherSet = this.asSet(collection);
+        for (const element of this) {
+          otherSet.has(element) || this.delete(element);
+        }
+      }
+      return this;
+    });
+  }
+
   /**
    * Compute the difference of this set with a list of other collections and
    * return the result as a new set. The difference is a set containing all
@@ -114,6 +260,26 @@ export class SetPlus<T> extends Set<T> {
     return result;
   }
 
+  /**
+   * Make this set the difference of itself with a list of other collections.
+   * Formally, `this = this - A - B - C`. Listeners are given the elements
+   * removed as a single change set.
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param collections - the other collections
+   * @returns this instance for chaining
+   */
+  public differenceInPlace(...collections: Iterable<T>[]): this {
+    return this.transaction(() => {
+      for (const collection of collections) {
+        for (const element of collection) {
+          this.delete(element);
+        }
+      }
+      return this;
+    });
+  }
+
   /**
    * Compute the symmetric difference of this set with a list of other
    * collections and return the result as a new set. The symmetric difference is
@@ -137,6 +303,24 @@ export class SetPlus<T> extends Set<T> {
     return this.union(...collectionsCopy).difference(this.intersection(...collectionsCopy));
   }
 
+  /**
+   * Make this set the symmetric difference of itself with a list of other
+   * collections. Formally, `this = this ∆ A ∆ B ∆ C`, computed in the same way
+   * as `xor`. Listeners are given the elements added and removed as a single
+   * change set.
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param collections - the other collections
+   * @returns this instance for chaining
+   */
+  public xorInPlace(...collections: Iterable<T>[]): this {
+    // The collections are iterated twice so copy them in case they are
+    // iterators that would be exhausted by their first use
+    const collectionsCopy: T[][] = collections.map((collection) => Array.from(collection));
+    const intersection = this.intersection(...collectionsCopy);
+    return this.transaction(() => this.unionInPlace(...collectionsCopy).differenceInPlace(intersection));
+  }
+
   /**
    * Determine if this set is equivalent to another collection
    *
@@ -149,6 +333,136 @@ export class SetPlus<T> extends Set<T> {
     return this.xor(collection).empty();
   }
 
+  /**
+   * Determine if every element of this set is in another collection. Formally,
+   * `this ⊆ A`.
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param collection - the other collection
+   * @returns true if this set is a subset of the other collection
+   */
+  public isSubsetOf(collection: Iterable<T>): boolean {
+    const otherSet = this.asSet(collection);
+    if (this.size > otherSet.size) {
+      return false;
+    }
+
+    for (const element of this) {
+      if (!otherSet.has(element)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Determine if every element of this set is in another collection and the
+   * other collection has elements that are not in this set. Formally,
+   * `this ⊂ A`.
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param collection - the other collection
+   * @returns true if this set is a proper subset of the other collection
+   */
+  public isProperSubsetOf(collection: Iterable<T>): boolean {
+    const otherSet = this.asSet(collection);
+    return this.size < otherSet.size && this.isSubsetOf(otherSet);
+  }
+
+  /**
+   * Determine if every element of another collection is in this set.
+   * Formally, `this ⊇ A`.
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param collection - the other collection
+   * @returns true if this set is a superset of the other collection
+   */
+  public isSupersetOf(collection: Iterable<T>): boolean {
+    for (const element of collection) {
+      if (!this.has(element)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Determine if this set has no elements in common with another collection.
+   * Formally, `this ∩ A = ∅`.
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param collection - the other collection
+   * @returns true if the set and the collection are disjoint
+   */
+  public isDisjointFrom(collection: Iterable<T>): boolean {
+    for (const element of collection) {
+      if (this.has(element)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Compute the cartesian product of this set with another collection, that
+   * is, every pair of an element of this set with an element of the other.
+   * Formally, `result = this × A`.
+   *
+   * @typeParam T - the type of element stored in the set
+   * @typeParam U - the type of element in the other collection
+   * @param collection - the other collection
+   * @returns the set of pairs
+   */
+  public cartesianProduct<U>(collection: Iterable<U>): SetPlus<[T, U]> {
+    const others = Array.from(new Set(collection));
+    const result = new SetPlus<[T, U]>();
+    for (const element of this) {
+      for (const other of others) {
+        result.add([element, other]);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Get a lazy sequence of every subset of this set, including the empty set
+   * and the set itself. The subsets are computed from the elements present
+   * when this is called, one at a time as the sequence is iterated.
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param options - the power set options
+   * @returns the sequence of subsets
+   * @throws Error if the set has more elements than allowed by the options
+   */
+  public powerSet(options?: PowerSetOptions): Seq<SetPlus<T>> {
+    const { maxSize } = { ...DEFAULT_POWER_SET_OPTIONS, ...options };
+    if (this.size > maxSize) {
+      throw new Error(`Cannot create the power set of a set with more than ${maxSize} elements: ${this.size}`);
+    }
+
+    const elements = this.toArray();
+    return new Seq({ [Symbol.iterator]: () => this.subsets(elements) });
+  }
+
+  /**
+   * Split the set into those elements that pass a predicate and those that do
+   * not
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param predicate - a function returning a truthy value for any element that
+   * passes
+   * @returns a pair of sets, the first containing the elements that pass and
+   * the second those that do not
+   */
+  public partition(predicate: (element: T) => any): [SetPlus<T>, SetPlus<T>] {
+    const passed = this.createSet();
+    const failed = this.createSet();
+    for (const element of this) {
+      (predicate(element) ? passed : failed).add(element);
+    }
+    return [passed, failed];
+  }
+
   /**
    * Called to invoke a given function for each element in the set
    *
@@ -165,6 +479,16 @@ export class SetPlus<T> extends Set<T> {
     return result;
   }
 
+  /**
+   * Get a lazy sequence over the elements of the set
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns the sequence
+   */
+  public seq(): Seq<T> {
+    return new Seq(this);
+  }
+
   /**
    * Create an array containing all elements in the set
    *
@@ -184,6 +508,17 @@ export class SetPlus<T> extends Set<T> {
     return `{${this.toArray().join(',')}}`;
   }
 
+  /**
+   * Convert the set into its JSON equivalent, tagged so that
+   * `CollectionJson.reviver` can rebuild the set
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns the JSON equivalent
+   */
+  public toJSON(): SequenceJson {
+    return { $type: 'SetPlus', items: this.toArray() };
+  }
+
   /**
    * Given an iterable, convert it to a set instance if required. Note, that the
    * returned set is only guaranteed to be an instance of *Set* and not
@@ -196,4 +531,42 @@ export class SetPlus<T> extends Set<T> {
   public asSet(collection: Iterable<T>): Set<T> {
     return collection instanceof Set ? collection : new Set<T>(collection);
   }
+
+  /**
+   * Create an empty set of the same kind as this one, such as one that
+   * compares elements in the same way, to hold the results of an operation
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns the new set
+   */
+  protected createSet(): SetPlus<T> {
+    return new SetPlus<T>();
+  }
+
+  /**
+   * Generate every subset of a list of elements by counting in binary, with
+   * each bit indicating whether the element at that position is included
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param elements - the elements of the set
+   * @returns an iterator over the subsets
+   */
+  protected *subsets(elements: T[]): IterableIterator<SetPlus<T>> {
+    const included: boolean[] = elements.map(() => false);
+    for (;;) {
+      const subset = this.createSet();
+      elements.forEach((element, position) => included[position] && subset.add(element));
+      yield subset;
+
+      // Move to the next combination, finishing once every bit has carried
+      let position = 0;
+      while (position < included.length && included[position]) {
+        included[position++] = false;
+      }
+      if (position === included.length) {
+        return;
+      }
+      included[position] = true;
+    }
+  }
 }
@@ -0,0 +1,297 @@
+import { Comparator } from './PriorityQueue';
+
+// The maximum number of levels in a skip list, enough for 2^32 keys
+const MAX_LEVEL = 32;
+
+/**
+ * A node in a skip list
+ *
+ * @typeParam T - the type of key
+ */
+interface SkipListNode<T> {
+  // The key that the node contains
+  readonly key: T;
+
+  // The next node at each level that the node is part of
+  readonly next: (SkipListNode<T> | undefined)[];
+}
+
+/**
+ * A skip list of keys ordered by a comparator, used to keep the keys of the
+ * sorted collections in order. The sorted collections store their entries
+ * against the canonical keys in the underlying native collection, in the same
+ * way as the hash collections, and use the skip list for ordering and range
+ * queries. Lookups, insertions and removals take O(log n) on average.
+ *
+ * Nodes are never unlinked from their successors when removed so an iteration
+ * in progress continues correctly if the key it is positioned on is removed.
+ *
+ * @typeParam T - the type of key
+ */
+export class SkipList<T> implements Iterable<T> {
+  // The sentinel node preceding the first key at every level
+  protected head: SkipListNode<T> = SkipList.sentinel();
+
+  // The number of levels currently in use
+  protected levels = 1;
+
+  /**
+   * Constructor
+   *
+   * @typeParam T - the type of key
+   * @param comparator - the function that orders the keys
+   */
+  public constructor(public readonly comparator: Comparator<T>) {}
+
+  /**
+   * Get the canonical instance of a key
+   *
+   * @typeParam T - the type of key
+   * @param key - the key to look up
+   * @returns the equivalent key in the list if there is one, otherwise the
+   * given key
+   */
+  public canonical(key: T): T {
+    const node = this.seek(key, false).next[0];
+    return node !== undefined && this.comparator(node.key, key) === 0 ? node.key : key;
+  }
+
+  /**
+   * Get the canonical instance of a key, adding the given key to the list if
+   * no equivalent key exists
+   *
+   * @typeParam T - the type of key
+   * @param key - the key to look up
+   * @returns the canonical key
+   */
+  public intern(key: T): T {
+    const predecessors = this.predecessors(key);
+    const existing = predecessors[0].next[0];
+    if (existing !== undefined && this.comparator(existing.key, key) === 0) {
+      return existing.key;
+    }
+
+    const node: SkipListNode<T> = { key, next: [] };
+    const levels = SkipList.randomLevels();
+    for (let level = 0; level < levels; ++level) {
+      const predecessor = predecessors[level] ?? this.head;
+      node.next[level] = predecessor.next[level];
+      predecessor.next[level] = node;
+    }
+    this.levels = Math.max(this.levels, levels);
+    return key;
+  }
+
+  /**
+   * Remove the equivalent of a key from the list
+   *
+   * @typeParam T - the type of key
+   * @param key - the key to remove
+   * @returns the canonical key that was removed if there was one, otherwise
+   * the given key
+   */
+  public remove(key: T): T {
+    const predecessors = this.predecessors(key);
+    const node = predecessors[0].next[0];
+    if (node === undefined || this.comparator(node.key, key) !== 0) {
+      return key;
+    }
+
+    for (let level = 0; level < node.next.length; ++level) {
+      predecessors[level].next[level] = node.next[level];
+    }
+    while (this.levels > 1 && this.head.next[this.levels - 1] === undefined) {
+      --this.levels;
+    }
+    return node.key;
+  }
+
+  /**
+   * Remove all keys from the list
+   */
+  public clear() {
+    this.head = SkipList.sentinel();
+    this.levels = 1;
+  }
+
+  /**
+   * Get the first key in the list
+   *
+   * @typeParam T - the type of key
+   * @returns the first key or undefined if the list is empty
+   */
+  public first(): T | undefined {
+    return this.head.next[0]?.key;
+  }
+
+  /**
+   * Get the last key in the list
+   *
+   * @typeParam T - the type of key
+   * @returns the last key or undefined if the list is empty
+   */
+  public last(): T | undefined {
+    let node = this.head;
+    for (let level = this.levels - 1; level >= 0; --level) {
+      for (let next = node.next[level]; next !== undefined; next = node.next[level]) {
+        node = next;
+      }
+    }
+    return node === this.head ? undefined : node.key;
+  }
+
+  /**
+   * Get the greatest key that is less than or equal to the one given
+   *
+   * @typeParam T - the type of key
+   * @param key - the key to search for
+   * @returns the matching key or undefined if there is none
+   */
+  public floor(key: T): T | undefined {
+    return this.keyOf(this.seek(key, true));
+  }
+
+  /**
+   * Get the least key that is greater than or equal to the one given
+   *
+   * @typeParam T - the type of key
+   * @param key - the key to search for
+   * @returns the matching key or undefined if there is none
+   */
+  public ceiling(key: T): T | undefined {
+    return this.seek(key, false).next[0]?.key;
+  }
+
+  /**
+   * Get the greatest key that is strictly less than the one given
+   *
+   * @typeParam T - the type of key
+   * @param key - the key to search for
+   * @returns the matching key or undefined if there is none
+   */
+  public lower(key: T): T | undefined {
+    return this.keyOf(this.seek(key, false));
+  }
+
+  /**
+   * Get the least key that is strictly greater than the one given
+   *
+   * @typeParam T - the type of key
+   * @param key - the key to search for
+   * @returns the matching key or undefined if there is none
+   */
+  public higher(key: T): T | undefined {
+    return this.seek(key, true).next[0]?.key;
+  }
+
+  /**
+   * Iterate over the keys in order from one key up to another. The lower bound
+   * is always included.
+   *
+   * @typeParam T - the type of key
+   * @param from - the lower bound of the range
+   * @param to - the upper bound of the range
+   * @param inclusive - true to include a key equivalent to the upper bound
+   * @returns an iterator over the keys within the range
+   */
+  public *range(from: T, to: T, inclusive: boolean): IterableIterator<T> {
+    for (let node = this.seek(from, false).next[0]; node !== undefined; node = node.next[0]) {
+      const order = this.comparator(node.key, to);
+      if (order > 0 || (order === 0 && !inclusive)) {
+        return;
+      }
+      yield node.key;
+    }
+  }
+
+  /**
+   * Iterate over the keys in order
+   *
+   * @typeParam T - the type of key
+   * @returns an iterator over the keys
+   */
+  public *[Symbol.iterator](): IterableIterator<T> {
+    for (let node = this.head.next[0]; node !== undefined; node = node.next[0]) {
+      yield node.key;
+    }
+  }
+
+  /**
+   * Find the last node whose key comes before the one given
+   *
+   * @typeParam T - the type of key
+   * @param key - the key to search for
+   * @param inclusive - true to also accept a node whose key is equivalent
+   * @returns the matching node or the head if there is none
+   */
+  protected seek(key: T, inclusive: boolean): SkipListNode<T> {
+    let node = this.head;
+    for (let level = this.levels - 1; level >= 0; --level) {
+      for (let next = node.next[level]; next !== undefined; next = node.next[level]) {
+        const order = this.comparator(next.key, key);
+        if (order > 0 || (order === 0 && !inclusive)) {
+          break;
+        }
+        node = next;
+      }
+    }
+    return node;
+  }
+
+  /**
+   * Find the last node at each level whose key comes before the one given
+   *
+   * @typeParam T - the type of key
+   * @param key - the key to search for
+   * @returns the matching node at each level in use
+   */
+  protected predecessors(key: T): SkipListNode<T>[] {
+    const predecessors: SkipListNode<T>[] = [];
+    let node = this.head;
+    for (let level = this.levels - 1; level >= 0; --level) {
+      for (let next = node.next[level]; next !== undefined; next = node.next[level]) {
+        if (this.comparator(next.key, key) >= 0) {
+          break;
+        }
+        node = next;
+      }
+      predecessors[level] = node;
+    }
+    return predecessors;
+  }
+
+  /**
+   * Get the key of a node found by a search
+   *
+   * @typeParam T - the type of key
+   * @param node - the node
+   * @returns the key of the node or undefined if it is the head
+   */
+  protected keyOf(node: SkipListNode<T>): T | undefined {
+    return node === this.head ? undefined : node.key;
+  }
+
+  /**
+   * Create the sentinel node that precedes the first key
+   *
+   * @typeParam T - the type of key
+   * @returns the sentinel node
+   */
+  protected static sentinel<T>(): SkipListNode<T> {
+    return { key: undefined as unknown as T, next: new Array(MAX_LEVEL).fill(undefined) };
+  }
+
+  /**
+   * Choose the number of levels for a new node, each additional level being
+   * half as likely as the one before
+   *
+   * @returns the number of levels
+   */
+  protected static randomLevels(): number {
+    let levels = 1;
+    while (levels < MAX_LEVEL && Math.random() < 0.5) {
+      ++levels;
+    }
+    return levels;
+  }
+}
@@ -0,0 +1,137 @@
+import { SortedMap } from './SortedMap';
+import { SortedSet } from './SortedSet';
+
+describe('SortedMap Tests', function () {
+  function readings(): SortedMap<number, string> {
+    return new SortedMap<number, string>(undefined, [
+      [300, 'c'],
+      [100, 'a'],
+      [400, 'd'],
+      [200, 'b'],
+    ]);
+  }
+
+  describe('ordering', function () {
+    it('can iterate in key order', function () {
+      const map = readings();
+      expect(map.size).toEqual(4);
+      expect(Array.from(map)).toEqual([
+        [100, 'a'],
+        [200, 'b'],
+        [300, 'c'],
+        [400, 'd'],
+      ]);
+      expect(map.keyList()).toEqual([100, 200, 300, 400]);
+      expect(map.valueList()).toEqual(['a', 'b', 'c', 'd']);
+
+      const seen: string[] = [];
+      map.forEach((value, key) => seen.push(`${key}=${value}`));
+      expect(seen).toEqual(['100=a', '200=b', '300=c', '400=d']);
+    });
+
+    it('can order using a comparator', function () {
+      const map = new SortedMap<string, number>((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }));
+      map.set('b', 2).set('a', 1).set('B', 3);
+      expect(Array.from(map)).toEqual([
+        ['a', 1],
+        ['b', 3],
+      ]);
+      expect(map.get('A')).toEqual(1);
+    });
+
+    it('can remove entries', function () {
+      const map = readings();
+      expect(map.delete(200)).toBe(true);
+      expect(map.delete(200)).toBe(false);
+      expect(map.eject(300)).toEqual('c');
+      expect(map.keyList()).toEqual([100, 400]);
+
+      map.clear();
+      expect(map.empty()).toBe(true);
+      expect(map.first()).not.toBeDefined();
+    });
+
+    it('can notify listeners of changes', function () {
+      const map = readings();
+      const listener = jest.fn();
+      map.subscribe(listener);
+
+      map.pollFirst();
+      expect(listener).toHaveBeenCalledWith([{ type: 'delete', key: 100, oldValue: 'a' }]);
+    });
+  });
+
+  describe('queries', function () {
+    it('can find the first and last entries', function () {
+      const map = readings();
+      expect(map.first()).toEqual([100, 'a']);
+      expect(map.last()).toEqual([400, 'd']);
+      expect(new SortedMap().last()).not.toBeDefined();
+    });
+
+    it('can find neighbouring entries', function () {
+      const map = readings();
+      expect(map.floor(250)).toEqual([200, 'b']);
+      expect(map.floor(50)).not.toBeDefined();
+      expect(map.ceiling(250)).toEqual([300, 'c']);
+      expect(map.ceiling(300)).toEqual([300, 'c']);
+      expect(map.lower(300)).toEqual([200, 'b']);
+      expect(map.higher(300)).toEqual([400, 'd']);
+      expect(map.higher(400)).not.toBeDefined();
+    });
+
+    it('can select a range', function () {
+      const map = readings();
+      const range = map.range(200, 400);
+      expect(range).toBeInstanceOf(SortedMap);
+      expect(range.keyList()).toEqual([200, 300]);
+      expect(map.range(200, 400, { inclusive: true }).keyList()).toEqual([200, 300, 400]);
+      expect(map.range(0, 50).empty()).toBe(true);
+    });
+
+    it('can remove the first and last entries', function () {
+      const map = readings();
+      expect(map.pollFirst()).toEqual([100, 'a']);
+      expect(map.pollLast()).toEqual([400, 'd']);
+      expect(map.keyList()).toEqual([200, 300]);
+      expect(new SortedMap().pollLast()).not.toBeDefined();
+    });
+  });
+
+  describe('helpers', function () {
+    it('can create key sets and filtered maps using the same comparator', function () {
+      const map = readings();
+
+      const keys = map.keySet();
+      expect(keys).toBeInstanceOf(SortedSet);
+      expect(keys.union([250]).toArray()).toEqual([100, 200, 250, 300, 400]);
+      expect(keys.intersection([400, 100]).toArray()).toEqual([100, 400]);
+
+      const filtered = map.keyFilter((key) => key > 150);
+      expect(filtered).toBeInstanceOf(SortedMap);
+      expect(filtered.first()).toEqual([200, 'b']);
+      expect(map.valueFilter((value) => value !== 'c').keyList()).toEqual([100, 200, 400]);
+      expect(map.subset([400, 100, 500]).keyList()).toEqual([100, 400]);
+    });
+
+    it('can serialise in key order', function () {
+      expect(
+        new SortedMap(undefined, [
+          [2, 'b'],
+          [1, 'a'],
+        ]).toJSON()
+      ).toEqual({
+        $type: 'SortedMap',
+        entries: [
+          [1, 'a'],
+          [2, 'b'],
+        ],
+      });
+    });
+
+    it('should refuse to serialise with a custom comparator', function () {
+      const map = new SortedMap<number, string>((a, b) => b - a, [[1, 'a']]);
+      expect(() => JSON.stringify(map)).toThrow('Cannot convert a SortedMap with a custom comparator to JSON');
+    });
+  });
+});
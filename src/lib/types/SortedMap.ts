@@ -0,0 +1,398 @@
+import type { MapPlusJson } from './CollectionJson';
+import { MapPlus } from './MapPlus';
+import { Comparator, naturalOrder } from './PriorityQueue';
+import { SkipList } from './SkipList';
+import { SortedRangeOptions, SortedSet } from './SortedSet';
+
+/**
+ * A `MapPlus` that keeps its keys in the order given by a comparator. Entries
+ * are iterated in key order and can be queried by the position of their key
+ * relative to other values using `floor`, `ceiling`, `lower`, `higher` and
+ * `range`, making the map suitable for time-indexed buffers and leaderboards.
+ * The full `MapPlus` API is available, with helpers such as `keyFilter` and
+ * `keySet` producing collections that use the same comparator.
+ *
+ * ```ts
+ * const readings = new SortedMap<number, Reading>();
+ * readings.set(reading.timestamp, reading);
+ * const lastHour = readings.range(now - 3600000, now);
+ * ```
+ *
+ * Keys are equivalent if the comparator returns zero for them. When a key
+ * equivalent to one already present is set, the map keeps the original key and
+ * replaces its value. Keys must not be modified in a way that changes their
+ * order while they are in the map.
+ *
+ * @typeParam K - the type of element used as the key in the map
+ * @typeParam V - the type of element used as the value in the map
+ */
+export class SortedMap<K, V> extends MapPlus<K, V> {
+  // The keys of the map in order
+  protected readonly index: SkipList<K>;
+
+  /**
+   * Constructor
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param comparator - the function that orders the keys
+   * @param entries - optional entries to start the map
+   */
+  public constructor(comparator: Comparator<K> = naturalOrder, entries?: Iterable<readonly [K, V]>) {
+    super();
+    this.index = new SkipList(comparator);
+    if (entries !== undefined) {
+      for (const [key, value] of entries) {
+        this.set(key, value);
+      }
+    }
+  }
+
+  /**
+   * Get the function that orders the keys
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @returns the comparator
+   */
+  public comparator(): Comparator<K> {
+    return this.index.comparator;
+  }
+
+  /**
+   * Set the value of the key equivalent to the one given
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param key - the key to set
+   * @param value - the value of the key
+   * @returns this instance for chaining
+   */
+  public set(key: K, value: V): this {
+    return super.set(this.index.intern(key), value);
+  }
+
+  /**
+   * Get the value of the key equivalent to the one given
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param key - the key to get
+   * @returns the value of the key or undefined if it is not present
+   */
+  public get(key: K): V | undefined {
+    return super.get(this.index.canonical(key));
+  }
+
+  /**
+   * Determine if the map contains a key equivalent to the one given
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @param key - the key to check
+   * @returns true if an equivalent key is present
+   */
+  public has(key: K): boolean {
+    return super.has(this.index.canonical(key));
+  }
+
+  /**
+   * Remove the key equivalent to the one given
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @param key - the key to remove
+   * @returns true if an equivalent key was present
+   */
+  public delete(key: K): boolean {
+    return super.delete(this.index.remove(key));
+  }
+
+  /**
+   * Remove all entries from the map
+   */
+  public clear() {
+    this.index.clear();
+    super.clear();
+  }
+
+  /**
+   * Get the entry with the first key
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @returns the entry or undefined if the map is empty
+   */
+  public first(): [K, V] | undefined {
+    return this.entryOf(this.index.first());
+  }
+
+  /**
+   * Get the entry with the last key
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @returns the entry or undefined if the map is empty
+   */
+  public last(): [K, V] | undefined {
+    return this.entryOf(this.index.last());
+  }
+
+  /**
+   * Remove the entry with the first key
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @returns the entry removed or undefined if the map is empty
+   */
+  public pollFirst(): [K, V] | undefined {
+    return this.poll(this.first());
+  }
+
+  /**
+   * Remove the entry with the last key
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @returns the entry removed or undefined if the map is empty
+   */
+  public pollLast(): [K, V] | undefined {
+    return this.poll(this.last());
+  }
+
+  /**
+   * Get the entry with the greatest key that is less than or equal to the one
+   * given
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param key - the key to search for
+   * @returns the matching entry or undefined if there is none
+   */
+  public floor(key: K): [K, V] | undefined {
+    return this.entryOf(this.index.floor(key));
+  }
+
+  /**
+   * Get the entry with the least key that is greater than or equal to the one
+   * given
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param key - the key to search for
+   * @returns the matching entry or undefined if there is none
+   */
+  public ceiling(key: K): [K, V] | undefined {
+    return this.entryOf(this.index.ceiling(key));
+  }
+
+  /**
+   * Get the entry with the greatest key that is strictly less than the one
+   * given
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param key - the key to search for
+   * @returns the matching entry or undefined if there is none
+   */
+  public lower(key: K): [K, V] | undefined {
+    return this.entryOf(this.index.lower(key));
+  }
+
+  /**
+   * Get the entry with the least key that is strictly greater than the one
+   * given
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param key - the key to search for
+   * @returns the matching entry or undefined if there is none
+   */
+  public higher(key: K): [K, V] | undefined {
+    return this.entryOf(this.index.higher(key));
+  }
+
+  /**
+   * Create a map containing the entries whose keys are from one value up to
+   * another. The lower bound is always included while the upper bound is only
+   * included if requested, so by default the range is half-open like a time
+   * window.
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param from - the lower bound of the range
+   * @param to - the upper bound of the range
+   * @param options - the range options
+   * @returns the entries within the range, using the same comparator
+   */
+  public range(from: K, to: K, { inclusive = false }: SortedRangeOptions = {}): SortedMap<K, V> {
+    const result = new SortedMap<K, V>(this.comparator());
+    for (const key of this.index.range(from, to, inclusive)) {
+      result.set(key, super.get(key) as V);
+    }
+    return result;
+  }
+
+  /**
+   * Get the keys of the map as a set that uses the same comparator
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @returns the keys of the map as a set
+   */
+  public keySet(): SortedSet<K> {
+    return new SortedSet(this.comparator(), this.keys());
+  }
+
+  /**
+   * Create a subset of the map that only contains the entries whose key is
+   * equivalent to one in the given collection
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param keys - the keys to keep
+   * @returns the subset, using the same comparator
+   */
+  public subset(keys: Iterable<K>): SortedMap<K, V> {
+    const result = new SortedMap<K, V>(this.comparator());
+    for (const key of keys) {
+      const value = this.get(key);
+      value !== undefined && result.set(this.index.canonical(key), value);
+    }
+    return result;
+  }
+
+  /**
+   * Create a map containing only those entries whose key passes the given
+   * filter
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param filter - a function returning a truthy value for any key that passes
+   * the filter
+   * @returns the filtered map, using the same comparator
+   */
+  public keyFilter(filter: (key: K) => any): SortedMap<K, V> {
+    const result = new SortedMap<K, V>(this.comparator());
+    for (const [key, value] of this) {
+      filter(key) && result.set(key, value);
+    }
+    return result;
+  }
+
+  /**
+   * Create a map containing only those entries whose value passes the given
+   * filter
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param filter - a function returning a truthy value for any value that
+   * passes the filter
+   * @returns the filtered map, using the same comparator
+   */
+  public valueFilter(filter: (value: V) => any): SortedMap<K, V> {
+    const result = new SortedMap<K, V>(this.comparator());
+    for (const [key, value] of this) {
+      filter(value) && result.set(key, value);
+    }
+    return result;
+  }
+
+  /**
+   * Iterate over the entries of the map in key order
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @returns an iterator over the entries
+   */
+  public [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.entries();
+  }
+
+  /**
+   * Iterate over the entries of the map in key order
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @returns an iterator over the entries
+   */
+  public *entries(): IterableIterator<[K, V]> {
+    for (const key of this.index) {
+      yield [key, super.get(key) as V];
+    }
+  }
+
+  /**
+   * Iterate over the keys of the map in order
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @returns an iterator over the keys
+   */
+  public keys(): IterableIterator<K> {
+    return this.index[Symbol.iterator]();
+  }
+
+  /**
+   * Iterate over the values of the map in key order
+   *
+   * @typeParam V - the type of element used as the value in the map
+   * @returns an iterator over the values
+   */
+  public *values(): IterableIterator<V> {
+    for (const key of this.index) {
+      yield super.get(key) as V;
+    }
+  }
+
+  /**
+   * Invoke a function for each entry of the map in key order
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param body - the function to invoke
+   * @param thisArg - optional value to use as `this` when invoking the function
+   */
+  public forEach(body: (value: V, key: K, map: Map<K, V>) => void, thisArg?: any) {
+    for (const key of this.index) {
+      body.call(thisArg, super.get(key) as V, key, this);
+    }
+  }
+
+  /**
+   * Convert the map into its JSON equivalent, tagged so that
+   * `CollectionJson.reviver` can rebuild the map. Only maps in natural order
+   * can be converted since a comparator cannot be serialised.
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @returns the JSON equivalent
+   * @throws Error if the map uses a custom comparator
+   */
+  public toJSON(): MapPlusJson {
+    if (this.comparator() !== naturalOrder) {
+      throw new Error('Cannot convert a SortedMap with a custom comparator to JSON');
+    }
+    return { $type: 'SortedMap', entries: Array.from(this) };
+  }
+
+  /**
+   * Get the entry of a key found by one of the queries
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param key - the key if there is one
+   * @returns the entry or undefined if there is no key
+   */
+  protected entryOf(key: K | undefined): [K, V] | undefined {
+    return key === undefined ? undefined : [key, super.get(key) as V];
+  }
+
+  /**
+   * Remove an entry found by one of the queries
+   *
+   * @typeParam K - the type of element used as the key in the map
+   * @typeParam V - the type of element used as the value in the map
+   * @param entry - the entry to remove if there is one
+   * @returns the entry removed
+   */
+  protected poll(entry: [K, V] | undefined): [K, V] | undefined {
+    entry !== undefined && this.delete(entry[0]);
+    return entry;
+  }
+}
@@ -0,0 +1,129 @@
+import { SortedSet } from './SortedSet';
+
+describe('SortedSet Tests', function () {
+  interface Player {
+    name: string;
+    score: number;
+  }
+
+  const byScore = (a: Player, b: Player) => b.score - a.score;
+
+  describe('ordering', function () {
+    it('can iterate in order', function () {
+      const set = new SortedSet<number>(undefined, [5, 3, 8, 1, 3]);
+      expect(set.size).toEqual(4);
+      expect(set.toArray()).toEqual([1, 3, 5, 8]);
+      expect(Array.from(set.values())).toEqual([1, 3, 5, 8]);
+      expect(Array.from(set.entries())[0]).toEqual([1, 1]);
+
+      const seen: number[] = [];
+      set.forEach((element) => seen.push(element));
+      expect(seen).toEqual([1, 3, 5, 8]);
+    });
+
+    it('can order using a comparator', function () {
+      const set = new SortedSet(byScore, [
+        { name: 'ann', score: 10 },
+        { name: 'bob', score: 30 },
+        { name: 'cat', score: 20 },
+      ]);
+      expect(set.map((player) => player.name)).toEqual(['bob', 'cat', 'ann']);
+      expect(set.has({ name: 'anyone', score: 20 })).toBe(true);
+    });
+
+    it('should keep the original of equivalent elements', function () {
+      const original = { name: 'ann', score: 10 };
+      const set = new SortedSet(byScore, [original]).add({ name: 'bob', score: 10 });
+      expect(set.size).toEqual(1);
+      expect(set.first()).toBe(original);
+    });
+
+    it('should order many random elements', function () {
+      const elements = Array.from({ length: 500 }, (_, index) => (index * 7919) % 503);
+      const set = new SortedSet<number>(undefined, elements);
+      expect(set.toArray()).toEqual([...elements].sort((a, b) => a - b));
+
+      elements.filter((element) => element % 3).forEach((element) => set.delete(element));
+      expect(set.toArray()).toEqual(elements.filter((element) => element % 3 === 0).sort((a, b) => a - b));
+    });
+
+    it('can remove elements', function () {
+      const set = new SortedSet<number>(undefined, [1, 2, 3]);
+      expect(set.delete(2)).toBe(true);
+      expect(set.delete(2)).toBe(false);
+      expect(set.toArray()).toEqual([1, 3]);
+
+      set.clear();
+      expect(set.empty()).toBe(true);
+      expect(set.first()).not.toBeDefined();
+      expect(set.add(4).toArray()).toEqual([4]);
+    });
+  });
+
+  describe('queries', function () {
+    const set = new SortedSet<number>(undefined, [10, 20, 30, 40]);
+
+    it('can find the first and last elements', function () {
+      expect(set.first()).toEqual(10);
+      expect(set.last()).toEqual(40);
+      expect(new SortedSet<number>().last()).not.toBeDefined();
+    });
+
+    it('can find neighbouring elements', function () {
+      expect(set.floor(20)).toEqual(20);
+      expect(set.floor(25)).toEqual(20);
+      expect(set.floor(5)).not.toBeDefined();
+      expect(set.ceiling(20)).toEqual(20);
+      expect(set.ceiling(25)).toEqual(30);
+      expect(set.ceiling(45)).not.toBeDefined();
+      expect(set.lower(20)).toEqual(10);
+      expect(set.lower(10)).not.toBeDefined();
+      expect(set.higher(20)).toEqual(30);
+      expect(set.higher(40)).not.toBeDefined();
+    });
+
+    it('can select a range', function () {
+      expect(set.range(20, 40).toArray()).toEqual([20, 30]);
+      expect(set.range(20, 40, { inclusive: true }).toArray()).toEqual([20, 30, 40]);
+      expect(set.range(15, 35).toArray()).toEqual([20, 30]);
+      expect(set.range(40, 10).empty()).toBe(true);
+    });
+
+    it('can remove the first and last elements', function () {
+      const polled = set.clone();
+      expect(polled.pollFirst()).toEqual(10);
+      expect(polled.pollLast()).toEqual(40);
+      expect(polled.toArray()).toEqual([20, 30]);
+      expect(new SortedSet<number>().pollFirst()).not.toBeDefined();
+    });
+  });
+
+  describe('set operations', function () {
+    it('can compute results that use the same comparator', function () {
+      const descending = (a: number, b: number) => b - a;
+      const set = new SortedSet(descending, [1, 3, 5]);
+
+      const union = set.union([4, 2]);
+      expect(union).toBeInstanceOf(SortedSet);
+      expect(union.toArray()).toEqual([5, 4, 3, 2, 1]);
+      expect(set.intersection([5, 1, 7]).toArray()).toEqual([5, 1]);
+      expect(set.difference([3]).toArray()).toEqual([5, 1]);
+      expect(set.xor([3, 4]).toArray()).toEqual([5, 4, 1]);
+      expect(set.equals([5, 3, 1])).toBe(true);
+    });
+
+    it('can partition and generate subsets with the same comparator', function () {
+      const descending = (a: number, b: number) => b - a;
+      const set = new SortedSet(descending, [1, 2, 3, 4]);
+
+      const [even, odd] = set.partition((element) => element % 2 === 0);
+      expect(even).toBeInstanceOf(SortedSet);
+      expect(even.toArray()).toEqual([4, 2]);
+      expect(odd.toArray()).toEqual([3, 1]);
+
+      const full = set.powerSet().toArray().pop();
+      expect(full).toBeInstanceOf(SortedSet);
+      expect(full?.toArray()).toEqual([4, 3, 2, 1]);
+    });
+  });
+});
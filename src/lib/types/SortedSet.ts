@@ -0,0 +1,318 @@
+import type { SequenceJson } from './CollectionJson';
+import { Comparator, naturalOrder } from './PriorityQueue';
+import { SetPlus } from './SetPlus';
+import { SkipList } from './SkipList';
+
+/**
+ * The options for selecting a range of a sorted collection
+ */
+export interface SortedRangeOptions {
+  // Whether a key equivalent to the upper bound is included in the range. The
+  // lower bound is always included.
+  inclusive?: boolean;
+}
+
+/**
+ * A `SetPlus` that keeps its elements in the order given by a comparator.
+ * Elements are iterated in order and can be queried by their position relative
+ * to other values using `floor`, `ceiling`, `lower`, `higher` and `range`. The
+ * full `SetPlus` API is available, with the set operations producing sets that
+ * use the same comparator.
+ *
+ * Elements are equivalent if the comparator returns zero for them. When an
+ * element equivalent to one already present is added, the set keeps the
+ * original. Elements must not be modified in a way that changes their order
+ * while they are in the set.
+ *
+ * @typeParam T - the type of element stored in the set
+ */
+export class SortedSet<T> extends SetPlus<T> {
+  // The elements of the set in order
+  protected readonly index: SkipList<T>;
+
+  /**
+   * Constructor
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param comparator - the function that orders the elements
+   * @param elements - optional elements to start the set
+   */
+  public constructor(comparator: Comparator<T> = naturalOrder, elements?: Iterable<T>) {
+    super();
+    this.index = new SkipList(comparator);
+    if (elements !== undefined) {
+      for (const element of elements) {
+        this.add(element);
+      }
+    }
+  }
+
+  /**
+   * Get the function that orders the elements
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns the comparator
+   */
+  public comparator(): Comparator<T> {
+    return this.index.comparator;
+  }
+
+  /**
+   * Add an element to the set if no equivalent element is present
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param element - the element to add
+   * @returns this instance for chaining
+   */
+  public add(element: T): this {
+    return super.add(this.index.intern(element));
+  }
+
+  /**
+   * Determine if the set contains an element equivalent to the one given
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param element - the element to check
+   * @returns true if an equivalent element is present
+   */
+  public has(element: T): boolean {
+    return super.has(this.index.canonical(element));
+  }
+
+  /**
+   * Remove the element equivalent to the one given
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param element - the element to remove
+   * @returns true if an equivalent element was present
+   */
+  public delete(element: T): boolean {
+    return super.delete(this.index.remove(element));
+  }
+
+  /**
+   * Remove all elements from the set
+   */
+  public clear() {
+    this.index.clear();
+    super.clear();
+  }
+
+  /**
+   * Get the first element of the set
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns the first element or undefined if the set is empty
+   */
+  public first(): T | undefined {
+    return this.index.first();
+  }
+
+  /**
+   * Get the last element of the set
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns the last element or undefined if the set is empty
+   */
+  public last(): T | undefined {
+    return this.index.last();
+  }
+
+  /**
+   * Remove the first element of the set
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns the element removed or undefined if the set is empty
+   */
+  public pollFirst(): T | undefined {
+    return this.poll(this.first());
+  }
+
+  /**
+   * Remove the last element of the set
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns the element removed or undefined if the set is empty
+   */
+  public pollLast(): T | undefined {
+    return this.poll(this.last());
+  }
+
+  /**
+   * Get the greatest element that is less than or equal to the one given
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param element - the element to search for
+   * @returns the matching element or undefined if there is none
+   */
+  public floor(element: T): T | undefined {
+    return this.index.floor(element);
+  }
+
+  /**
+   * Get the least element that is greater than or equal to the one given
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param element - the element to search for
+   * @returns the matching element or undefined if there is none
+   */
+  public ceiling(element: T): T | undefined {
+    return this.index.ceiling(element);
+  }
+
+  /**
+   * Get the greatest element that is strictly less than the one given
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param element - the element to search for
+   * @returns the matching element or undefined if there is none
+   */
+  public lower(element: T): T | undefined {
+    return this.index.lower(element);
+  }
+
+  /**
+   * Get the least element that is strictly greater than the one given
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param element - the element to search for
+   * @returns the matching element or undefined if there is none
+   */
+  public higher(element: T): T | undefined {
+    return this.index.higher(element);
+  }
+
+  /**
+   * Create a set containing the elements from one value up to another. The
+   * lower bound is always included while the upper bound is only included if
+   * requested, so by default the range is half-open like a time window.
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param from - the lower bound of the range
+   * @param to - the upper bound of the range
+   * @param options - the range options
+   * @returns the elements within the range, using the same comparator
+   */
+  public range(from: T, to: T, { inclusive = false }: SortedRangeOptions = {}): SortedSet<T> {
+    return new SortedSet(this.comparator(), this.index.range(from, to, inclusive));
+  }
+
+  /**
+   * Create a shallow clone of this set that uses the same comparator
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns a new set containing the same elements as this instance
+   */
+  public clone(): SortedSet<T> {
+    return new SortedSet(this.comparator(), this);
+  }
+
+  /**
+   * Given an iterable, convert it to a set that compares elements using the
+   * same comparator as this one if required
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param collection - the collection of elements to convert
+   * @returns the collection as a set
+   */
+  public asSet(collection: Iterable<T>): Set<T> {
+    return collection instanceof SortedSet && collection.comparator() === this.comparator()
+      ? collection
+      : new SortedSet(this.comparator(), collection);
+  }
+
+  /**
+   * Iterate over the elements of the set in order
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns an iterator over the elements
+   */
+  public [Symbol.iterator](): IterableIterator<T> {
+    return this.index[Symbol.iterator]();
+  }
+
+  /**
+   * Iterate over the elements of the set in order
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns an iterator over the elements
+   */
+  public values(): IterableIterator<T> {
+    return this.index[Symbol.iterator]();
+  }
+
+  /**
+   * Iterate over the elements of the set in order. This is the same as
+   * `values()` and exists for compatibility with `Map`.
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns an iterator over the elements
+   */
+  public keys(): IterableIterator<T> {
+    return this.index[Symbol.iterator]();
+  }
+
+  /**
+   * Iterate over the elements of the set in order as `[element, element]`
+   * pairs for compatibility with `Map`
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns an iterator over the pairs
+   */
+  public *entries(): IterableIterator<[T, T]> {
+    for (const element of this.index) {
+      yield [element, element];
+    }
+  }
+
+  /**
+   * Invoke a function for each element of the set in order
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param body - the function to invoke
+   * @param thisArg - optional value to use as `this` when invoking the function
+   */
+  public forEach(body: (value: T, value2: T, set: Set<T>) => void, thisArg?: any) {
+    for (const element of this.index) {
+      body.call(thisArg, element, element, this);
+    }
+  }
+
+  /**
+   * Convert the set into its JSON equivalent, tagged so that
+   * `CollectionJson.reviver` can rebuild the set. Only sets in natural order
+   * can be converted since a comparator cannot be serialised.
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns the JSON equivalent
+   * @throws Error if the set uses a custom comparator
+   */
+  public toJSON(): SequenceJson {
+    if (this.comparator() !== naturalOrder) {
+      throw new Error('Cannot convert a SortedSet with a custom comparator to JSON');
+    }
+    return { $type: 'SortedSet', items: this.toArray() };
+  }
+
+  /**
+   * Create an empty set that uses the same comparator as this one
+   *
+   * @typeParam T - the type of element stored in the set
+   * @returns the new set
+   */
+  protected createSet(): SortedSet<T> {
+    return new SortedSet(this.comparator());
+  }
+
+  /**
+   * Remove an element found by one of the queries
+   *
+   * @typeParam T - the type of element stored in the set
+   * @param element - the element to remove if there is one
+   * @returns the element removed
+   */
+  protected poll(element: T | undefined): T | undefined {
+    element !== undefined && this.delete(element);
+    return element;
+  }
+}
@@ -1,3 +1,26 @@
+export * from './AsyncIteration';
+export * from './AsyncQueue';
+export * from './BiMap';
+export * from './ChangeNotifier';
+export * from './CollectionJson';
+export * from './Counter';
+export * from './Deque';
+export * from './ExpiringMap';
+export * from './HashMap';
+export * from './HashSet';
+export * from './HashStrategy';
+export * from './IndexedMap';
 export * from './LinkedList';
+export * from './LruCache';
 export * from './MapPlus';
+export * from './MultiMap';
+export * from './PersistentMap';
+export * from './PersistentSet';
+export * from './PriorityQueue';
+export * from './ReadonlyMapPlus';
+export * from './ReadonlySetPlus';
+export * from './RingBuffer';
+export * from './Seq';
 export * from './SetPlus';
+export * from './SortedMap';
+export * from './SortedSet';